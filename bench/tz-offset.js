@@ -0,0 +1,81 @@
+/* Offset-lookup throughput: the cached zone engine (`tzOffset`,
+ * `getTimezoneInfo`) against the previous uncached implementation, which
+ * built fresh formatters and did toLocaleString round-trips on every call.
+ *
+ * Run with `npm run bench` (builds first). */
+const { getTimezoneInfo, instant, tzOffset } = require('../build/main');
+
+const ZONE = 'America/New_York';
+const START = Date.UTC(2024, 0, 1);
+const YEAR_MS = 366 * 86_400_000;
+
+/* the 1.1.0 algorithm, kept here as the baseline */
+const legacyOffset = (tzName, epochMs) => {
+  const date = new Date(epochMs);
+  const utcTime = new Date(date.toLocaleString('en-US', { timeZone: 'UTC' }));
+  const localTime = new Date(
+    date.toLocaleString('en-US', { timeZone: tzName })
+  );
+  return -Math.round((utcTime.getTime() - localTime.getTime()) / 60_000);
+};
+
+const legacyInfo = (tzName, epochMs) => {
+  new Intl.DateTimeFormat('en', { timeZone: tzName });
+  const offsetMinutes = legacyOffset(tzName, epochMs);
+  const year = new Date(epochMs).getFullYear();
+  const jan = legacyOffset(tzName, new Date(year, 0, 1, 12).getTime());
+  const jul = legacyOffset(tzName, new Date(year, 6, 1, 12).getTime());
+  const abbreviation = new Intl.DateTimeFormat('en', {
+    timeZone: tzName,
+    timeZoneName: 'short',
+  })
+    .formatToParts(new Date(epochMs))
+    .find((part) => part.type === 'timeZoneName').value;
+  return {
+    offsetMinutes,
+    dst: offsetMinutes > Math.min(jan, jul),
+    abbreviation,
+  };
+};
+
+/* log-like timestamps: n instants spread over a year */
+const timestamps = (n) =>
+  Array.from({ length: n }, (_, k) => START + Math.floor((k * YEAR_MS) / n));
+
+const measure = (label, n, fn) => {
+  const input = timestamps(n);
+  const began = process.hrtime.bigint();
+  const checksum = input.reduce((acc, ms) => acc + fn(ms), 0);
+  const elapsedMs = Number(process.hrtime.bigint() - began) / 1e6;
+  const opsPerSec = Math.round((n / elapsedMs) * 1000);
+  console.log(
+    `${label.padEnd(34)} ${String(opsPerSec).padStart(
+      12
+    )} ops/s  (checksum ${checksum})`
+  );
+  return opsPerSec;
+};
+
+const legacyOps = measure('legacy offset (toLocaleString)', 5_000, (ms) =>
+  legacyOffset(ZONE, ms)
+);
+const offsetOps = measure('tzOffset (cached engine)', 1_000_000, (ms) =>
+  tzOffset(ZONE, instant(ms))
+);
+const legacyInfoOps = measure(
+  'legacy getTimezoneInfo',
+  2_000,
+  (ms) => legacyInfo(ZONE, ms).offsetMinutes
+);
+const infoOps = measure(
+  'getTimezoneInfo (cached engine)',
+  200_000,
+  (ms) => getTimezoneInfo(ZONE, instant(ms)).offsetMinutes
+);
+
+console.log(
+  `\ntzOffset speedup:        ${(offsetOps / legacyOps).toFixed(0)}x`
+);
+console.log(
+  `getTimezoneInfo speedup: ${(infoOps / legacyInfoOps).toFixed(0)}x`
+);
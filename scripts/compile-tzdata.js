@@ -0,0 +1,110 @@
+/* Regenerates src/lib/tzdata.ts, the tzdata release bundled with the
+ * library, from a compiled zoneinfo directory:
+ *
+ *   npm run tzdata -- /usr/share/zoneinfo 2025b
+ *
+ * Every zone.tab zone plus UTC and the Etc/GMT offsets is read from its
+ * TZif file, cut to 1970 onwards (the state in effect on 1970-01-01 becomes
+ * the initial one) and stripped of the trailing transitions its POSIX rule
+ * already produces, then packed. */
+const fs = require('fs');
+const path = require('path');
+
+const { packZone, parseTZif, zoneTypeAt } = require('../build/main/lib/tzdb');
+const { ZONE_COUNTRIES } = require('../build/main/lib/zonetab');
+
+const [dir = '/usr/share/zoneinfo', version] = process.argv.slice(2);
+if (!version) {
+  console.error('usage: compile-tzdata.js <zoneinfo dir> <tzdata version>');
+  process.exit(1);
+}
+
+const ETC = Array.from({ length: 27 }, (_, n) => n - 14)
+  .filter((n) => n !== 0)
+  .map((n) => `Etc/GMT${n > 0 ? '+' : ''}${n}`);
+const ZONES = ['UTC', ...Object.keys(ZONE_COUNTRIES), ...ETC].sort();
+
+const sameType = (a, b) =>
+  a.offsetSeconds === b.offsetSeconds &&
+  a.abbreviation === b.abbreviation &&
+  a.dst === b.dst;
+
+/* drop transitions before 1970 */
+const since1970 = (zone) => {
+  const keep = zone.transitions.findIndex((t) => t >= 0);
+  const from = keep < 0 ? zone.transitions.length : keep;
+  const initialType = zoneTypeAt(zone, -1);
+  return {
+    ...zone,
+    initial: zone.types.findIndex((type) => sameType(type, initialType)),
+    transitions: zone.transitions.slice(from),
+    typeIndices: zone.typeIndices.slice(from),
+  };
+};
+
+/* drop trailing transitions while the rule reproduces them, checking
+ * every six hours of the stretch the rule would newly cover */
+const SIX_HOURS = 6 * 3600;
+const slim = (zone, full = zone) => {
+  const n = zone.transitions.length;
+  if (!zone.rule || n === 0) return zone;
+  const t = zone.transitions[n - 1];
+  const shorter = {
+    ...zone,
+    transitions: zone.transitions.slice(0, n - 1),
+    typeIndices: zone.typeIndices.slice(0, n - 1),
+  };
+  const from = n > 1 ? zone.transitions[n - 2] : t - 366 * 86400;
+  const probes = Array.from(
+    { length: Math.ceil((t - from) / SIX_HOURS) },
+    (_, k) => from + k * SIX_HOURS
+  );
+  const reproduced = [...probes, t - 1, t].every((at) =>
+    sameType(zoneTypeAt(shorter, at), zoneTypeAt(full, at))
+  );
+  return reproduced ? slim(shorter, full) : zone;
+};
+
+/* keep only the types still referenced, merging identical ones */
+const compact = (zone) => {
+  const canonical = (n) =>
+    zone.types.findIndex((type) => sameType(type, zone.types[n]));
+  const used = [...new Set([zone.initial, ...zone.typeIndices].map(canonical))];
+  const remap = (n) => used.indexOf(canonical(n));
+  return {
+    ...zone,
+    types: used.map((n) => zone.types[n]),
+    initial: remap(zone.initial),
+    typeIndices: zone.typeIndices.map(remap),
+  };
+};
+
+const file = (id) => path.join(dir, id === 'UTC' ? 'Etc/UTC' : id);
+
+const packed = ZONES.map((id) => {
+  const zone = parseTZif(fs.readFileSync(file(id)));
+  if (!zone) throw new Error(`${id}: not a TZif file`);
+  return [id, packZone(compact(slim(since1970(zone))))];
+});
+
+const out = path.join(__dirname, '..', 'src', 'lib', 'tzdata.ts');
+fs.writeFileSync(
+  out,
+  [
+    '/* Generated by scripts/compile-tzdata.js; do not edit.',
+    ` * tzdata ${version}, zone.tab zones plus UTC and Etc/GMT offsets,`,
+    ' * 1970 onwards, packed (see packZone in tzdb.ts). */',
+    `export const TZDATA_VERSION = '${version}';`,
+    '',
+    'export const TZDATA: Readonly<Record<string, string>> = {',
+    ...packed.map(([id, data]) => {
+      // laid out the way prettier would
+      const key = /^[A-Za-z_]\w*$/.test(id) ? id : `'${id}'`;
+      const line = `  ${key}: '${data}',`;
+      return line.length > 80 ? `  ${key}:\n    '${data}',` : line;
+    }),
+    '};',
+    '',
+  ].join('\n')
+);
+console.log(`${out}: ${packed.length} zones, tzdata ${version}`);
@@ -1,3 +1,11 @@
 export * from './lib/async';
+export * from './lib/business';
+export * from './lib/compare';
+export * from './lib/ics';
+export * from './lib/intervalset';
 export * from './lib/number';
 export * from './lib/ream';
+export * from './lib/recurrence';
+export * from './lib/rrule';
+export * from './lib/timezones';
+export * from './lib/tzdb';
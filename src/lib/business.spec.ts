@@ -0,0 +1,182 @@
+import test from 'ava';
+
+import {
+  addBusinessDays,
+  businessCalendar,
+  BusinessCalendar,
+  businessDaysBetween,
+  businessPlugin,
+  businessPluginFor,
+  combineHolidays,
+  easterSunday,
+  holidayList,
+  isBusinessDay,
+  nextBusinessDay,
+  nthWeekdayHoliday,
+  previousBusinessDay,
+  subtractBusinessDays,
+  targetHolidays,
+  tryBusinessCalendar,
+  usFederalHolidays,
+} from './business';
+import { addDays, dateTime, extend, format, PlainDate, ReamDate } from './ream';
+import ream from './ream';
+
+const day = (iso: string): PlainDate => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return { y, m, d };
+};
+
+const iso = (d: PlainDate) =>
+  format('YYYY-MM-DD', dateTime(d.y, d.m, d.d, 0, 0, 0, 0));
+
+const us = businessCalendar({ holidays: usFederalHolidays });
+
+/* Friday and Saturday off, as in much of the Middle East */
+const gulf = businessCalendar({ weekend: [5, 6] });
+
+test('next and previous business days skip Saturdays and Sundays', (t) => {
+  // 2023-07-15 is a Saturday
+  t.false(isBusinessDay(day('2023-07-15')));
+  t.false(isBusinessDay(day('2023-07-16')));
+  t.true(isBusinessDay(day('2023-07-17')));
+  t.is(iso(nextBusinessDay(day('2023-07-15'))), '2023-07-17');
+  t.is(iso(nextBusinessDay(day('2023-07-16'))), '2023-07-17');
+  t.is(iso(nextBusinessDay(day('2023-07-17'))), '2023-07-18');
+  t.is(iso(previousBusinessDay(day('2023-07-17'))), '2023-07-14');
+  t.is(iso(previousBusinessDay(day('2023-07-16'))), '2023-07-14');
+  // time fields are kept
+  t.deepEqual(
+    nextBusinessDay(dateTime(2023, 7, 14, 16, 30, 0, 0)),
+    dateTime(2023, 7, 17, 16, 30, 0, 0)
+  );
+});
+
+test('addBusinessDays honours holidays and other weekends', (t) => {
+  // Independence Day 2024 is a Thursday, Thanksgiving is November 28th
+  t.is(iso(addBusinessDays(1, us)(day('2024-07-03'))), '2024-07-05');
+  t.is(iso(addBusinessDays(2, us)(day('2024-11-27'))), '2024-12-02');
+  t.is(iso(subtractBusinessDays(3, us)(day('2024-12-02'))), '2024-11-26');
+  t.is(iso(addBusinessDays(0, us)(day('2024-07-04'))), '2024-07-04');
+  t.is(iso(addBusinessDays(10)(day('2024-07-03'))), '2024-07-17');
+  t.is(iso(addBusinessDays(10, us)(day('2024-07-03'))), '2024-07-18');
+
+  t.false(isBusinessDay(day('2024-07-05'), gulf));
+  t.true(isBusinessDay(day('2024-07-07'), gulf));
+  t.is(iso(nextBusinessDay(day('2024-07-04'), gulf)), '2024-07-07');
+  t.is(iso(previousBusinessDay(day('2024-07-07'), gulf)), '2024-07-04');
+});
+
+test('businessDaysBetween inverts addBusinessDays', (t) => {
+  const calendars: readonly BusinessCalendar[] = [
+    businessCalendar(),
+    us,
+    gulf,
+    businessCalendar({ weekend: [7], holidays: targetHolidays }),
+  ];
+  const starts = ['2021-12-30', '2024-02-28', '2024-07-06', '2024-12-24'];
+  const steps = [-400, -23, -6, -1, 0, 1, 2, 5, 7, 30, 261, 2500];
+
+  calendars.forEach((calendar) =>
+    starts.map(day).forEach((start) =>
+      steps.forEach((n) => {
+        const end = addBusinessDays(n, calendar)(start);
+        t.is(businessDaysBetween(start, end, calendar), n);
+        if (n !== 0) t.true(isBusinessDay(end, calendar));
+      })
+    )
+  );
+});
+
+test('businessDaysBetween counts day by day', (t) => {
+  const from = day('2023-12-20');
+  const dates = Array.from({ length: 400 }, (_, i) => addDays(i)(from));
+  const counted = dates.slice(1).filter((d) => isBusinessDay(d, us)).length;
+
+  t.is(businessDaysBetween(from, dates[399], us), counted);
+  t.is(businessDaysBetween(dates[399], from, us), -counted);
+  t.is(businessDaysBetween(from, from, us), 0);
+  // a weekend day to the next Monday is one business day
+  t.is(businessDaysBetween(day('2024-03-09'), day('2024-03-11')), 1);
+});
+
+test('holiday providers', (t) => {
+  const federal = (year: number) => usFederalHolidays(year).map(iso).sort();
+
+  // New Year's Day 2022 (a Saturday) is observed on 2021-12-31
+  t.false(isBusinessDay(day('2021-12-31'), us));
+  t.true(federal(2022).includes('2021-12-31'));
+  // Juneteenth from 2021 on, observed on Monday in 2022
+  t.true(federal(2022).includes('2022-06-20'));
+  t.false(federal(2020).some((d) => d.startsWith('2020-06')));
+  t.deepEqual(federal(2024), [
+    '2024-01-01',
+    '2024-01-15',
+    '2024-02-19',
+    '2024-05-27',
+    '2024-06-19',
+    '2024-07-04',
+    '2024-09-02',
+    '2024-10-14',
+    '2024-11-11',
+    '2024-11-28',
+    '2024-12-25',
+  ]);
+  t.is(iso(easterSunday(2024)), '2024-03-31');
+  t.is(iso(easterSunday(2025)), '2025-04-20');
+  t.deepEqual(targetHolidays(2025).map(iso).slice(1, 3), [
+    '2025-04-18',
+    '2025-04-21',
+  ]);
+  t.deepEqual(nthWeekdayHoliday(2, 1, 5)(2024), []);
+  t.deepEqual(
+    combineHolidays([holidayList([day('2024-08-15')]), () => []])(2024),
+    [day('2024-08-15')]
+  );
+});
+
+test('tryBusinessCalendar rejects impossible weekends', (t) => {
+  t.deepEqual(tryBusinessCalendar({ weekend: [5, 8] }), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'weekend', value: 8 },
+  });
+  t.deepEqual(tryBusinessCalendar({ weekend: [1, 2, 3, 4, 5, 6, 7] }), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'weekend', value: 7 },
+  });
+  t.deepEqual(businessCalendar({ weekend: [0] }).weekend, [6, 7]);
+  t.deepEqual(businessCalendar({ weekend: [6, 5, 6] }).weekend, [5, 6]);
+});
+
+type Business = ReamDate & {
+  readonly isBusinessDay: () => boolean;
+  readonly nextBusinessDay: () => ReamDate;
+  readonly previousBusinessDay: () => ReamDate;
+  readonly addBusinessDays: (n: number) => ReamDate;
+  readonly subtractBusinessDays: (n: number) => ReamDate;
+  readonly businessDaysBetween: (other: ReamDate) => number;
+};
+
+test('businessPlugin moves on the wall clock of the zone', (t) => {
+  const sunday = extend(businessPlugin)(
+    ream('2023-07-16T14:30:45.123Z')
+  ) as Business;
+  t.false(sunday.isBusinessDay());
+  t.is(sunday.nextBusinessDay().format('YYYY-MM-DD HH:mm'), '2023-07-17 14:30');
+  t.is(
+    sunday.previousBusinessDay().format('YYYY-MM-DD HH:mm'),
+    '2023-07-14 14:30'
+  );
+
+  // Friday 09:00 before the spring-forward weekend in New York
+  const friday = extend(businessPluginFor(us))(
+    ream(Date.parse('2024-03-08T14:00:00Z'), 'America/New_York')
+  ) as Business;
+  const monday = friday.addBusinessDays(1);
+  t.is(monday.format('YYYY-MM-DD HH:mm Z'), '2024-03-11 09:00 -04:00');
+  t.is(friday.businessDaysBetween(monday), 1);
+  t.is(
+    friday.subtractBusinessDays(5).format('YYYY-MM-DD HH:mm Z'),
+    '2024-03-01 09:00 -05:00'
+  );
+});
@@ -0,0 +1,354 @@
+/*********************************************************************
+ *  BUSINESS  DAYS
+ *  Business-day arithmetic over plain dates: a calendar is a set of
+ *  weekend weekdays and a holiday provider. Counting works on epoch
+ *  days a week at a time, so distant dates cost no more than near ones.
+ ********************************************************************/
+
+import { civilFromDays, daysFromCivil } from './calendars';
+import {
+  addZonedPeriod,
+  dayOfWeek,
+  err,
+  getOrElse,
+  instant,
+  ok,
+  period,
+  PlainDate,
+  Plugin,
+  ReamDate,
+  Result,
+  toZonedPlain,
+  zdt,
+} from './ream';
+
+/* The holidays observed in a year; a provider may also return dates of
+ * the neighbouring years (New Year's Day observed on December 31st) */
+export type HolidayProvider = (year: number) => readonly PlainDate[];
+
+/* Weekend days are ISO weekdays: 1 = Monday ... 7 = Sunday */
+export type BusinessCalendar = Readonly<{
+  readonly weekend: readonly number[];
+  readonly holidays: HolidayProvider;
+}>;
+
+/* When a holiday falling on a Saturday or Sunday is observed: on the
+ * day itself, on the nearest weekday (Friday or Monday) or on Monday */
+export type Observance = 'actual' | 'nearest-weekday' | 'next-weekday';
+
+/* no search spans more than some 2,700 years: a calendar whose holidays
+ * leave no business day ends there */
+const MAX_SPAN = 1_000_000;
+
+const noHolidays: HolidayProvider = () => [];
+
+/* Saturday and Sunday off, no holidays */
+export const weekendsOnly: BusinessCalendar = {
+  weekend: [6, 7],
+  holidays: noHolidays,
+};
+
+export const tryBusinessCalendar = (
+  options: Partial<BusinessCalendar> = {}
+): Result<BusinessCalendar> => {
+  const weekend = options.weekend ?? weekendsOnly.weekend;
+  const bad = weekend.find((d) => !Number.isInteger(d) || d < 1 || d > 7);
+  if (bad !== undefined)
+    return err({ kind: 'out-of-range', field: 'weekend', value: bad });
+  const days = Array.from(new Set(weekend)).sort((a, b) => a - b);
+  return days.length === 7
+    ? err({ kind: 'out-of-range', field: 'weekend', value: 7 })
+    : ok({ weekend: days, holidays: options.holidays ?? noHolidays });
+};
+
+/* a calendar from options; invalid weekends fall back to Saturday and
+ * Sunday, as `tryBusinessCalendar` reports */
+export const businessCalendar = (
+  options: Partial<BusinessCalendar> = {}
+): BusinessCalendar => getOrElse(weekendsOnly)(tryBusinessCalendar(options));
+
+/* ------------------------------------------------------------------ *
+ *  HOLIDAY PROVIDERS
+ * ------------------------------------------------------------------ */
+const observed =
+  (observance: Observance) =>
+  (d: PlainDate): PlainDate => {
+    const dow = dayOfWeek(d);
+    const shift =
+      observance === 'actual' || dow < 6
+        ? 0
+        : observance === 'next-weekday'
+        ? 8 - dow
+        : dow === 6
+        ? -1
+        : 1;
+    return civilFromDays(daysFromCivil(d.y, d.m, d.d) + shift);
+  };
+
+/* a fixed list of dates */
+export const holidayList =
+  (dates: readonly PlainDate[]): HolidayProvider =>
+  (year) =>
+    dates.filter((d) => d.y === year);
+
+/* the same month and day every year */
+export const fixedHoliday =
+  (month: number, day: number, observance: Observance = 'actual') =>
+  (year: number): readonly PlainDate[] =>
+    [observed(observance)({ y: year, m: month, d: day })];
+
+/* the n-th ISO weekday of a month (n < 0 counts from the end):
+ * `nthWeekdayHoliday(11, 4, 4)` is the fourth Thursday of November */
+export const nthWeekdayHoliday =
+  (month: number, weekday: number, n: number) =>
+  (year: number): readonly PlainDate[] => {
+    const first = daysFromCivil(year, month, 1);
+    const last =
+      daysFromCivil(month === 12 ? year + 1 : year, (month % 12) + 1, 1) - 1;
+    const day =
+      n > 0
+        ? first +
+          ((weekday - dayOfWeek(civilFromDays(first)) + 7) % 7) +
+          (n - 1) * 7
+        : last -
+          ((dayOfWeek(civilFromDays(last)) - weekday + 7) % 7) +
+          (n + 1) * 7;
+    return day >= first && day <= last ? [civilFromDays(day)] : [];
+  };
+
+/* Gregorian Easter Sunday (anonymous Gregorian algorithm) */
+export const easterSunday = (year: number): PlainDate => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { y: year, m: month, d: day };
+};
+
+/* a day relative to Easter Sunday: -2 is Good Friday, 1 Easter Monday */
+export const easterHoliday =
+  (offsetDays: number) =>
+  (year: number): readonly PlainDate[] => {
+    const easter = easterSunday(year);
+    return [
+      civilFromDays(daysFromCivil(easter.y, easter.m, easter.d) + offsetDays),
+    ];
+  };
+
+/* every provider's holidays */
+export const combineHolidays =
+  (providers: readonly HolidayProvider[]): HolidayProvider =>
+  (year) =>
+    ([] as readonly PlainDate[]).concat(...providers.map((p) => p(year)));
+
+/* a provider in force from `year` on */
+const since =
+  (first: number, provider: HolidayProvider): HolidayProvider =>
+  (year) =>
+    year >= first ? provider(year) : [];
+
+/* US federal holidays (5 U.S.C. 6103), observed on the nearest weekday */
+export const usFederalHolidays: HolidayProvider = combineHolidays([
+  fixedHoliday(1, 1, 'nearest-weekday'),
+  since(1986, nthWeekdayHoliday(1, 1, 3)),
+  nthWeekdayHoliday(2, 1, 3),
+  nthWeekdayHoliday(5, 1, -1),
+  since(2021, fixedHoliday(6, 19, 'nearest-weekday')),
+  fixedHoliday(7, 4, 'nearest-weekday'),
+  nthWeekdayHoliday(9, 1, 1),
+  nthWeekdayHoliday(10, 1, 2),
+  fixedHoliday(11, 11, 'nearest-weekday'),
+  nthWeekdayHoliday(11, 4, 4),
+  fixedHoliday(12, 25, 'nearest-weekday'),
+]);
+
+/* TARGET2 closing days of the euro payment system */
+export const targetHolidays: HolidayProvider = combineHolidays([
+  fixedHoliday(1, 1),
+  easterHoliday(-2),
+  easterHoliday(1),
+  fixedHoliday(5, 1),
+  fixedHoliday(12, 25),
+  fixedHoliday(12, 26),
+]);
+
+/* ------------------------------------------------------------------ *
+ *  COUNTING  ON  EPOCH  DAYS
+ * ------------------------------------------------------------------ */
+type Days = Readonly<{
+  readonly isBusiness: (day: number) => boolean;
+  /* business days in [from, to) */
+  readonly count: (from: number, to: number) => number;
+  readonly perWeek: number;
+}>;
+
+const epochDay = (d: PlainDate): number => daysFromCivil(d.y, d.m, d.d);
+
+const range = (from: number, to: number): readonly number[] =>
+  Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+
+/* a calendar's business days; each year's holidays are asked for once
+ * per operation */
+const daysOf = (calendar: BusinessCalendar): Days => {
+  const weekend = new Set(calendar.weekend);
+  const isWeekend = (day: number) =>
+    weekend.has(((((day + 3) % 7) + 7) % 7) + 1);
+  const cache = new Map<number, readonly number[]>();
+  /* the non-weekend holidays falling in `year`, as epoch days */
+  const holidaysIn = (year: number): readonly number[] => {
+    const cached = cache.get(year);
+    if (cached) return cached;
+    const days = Array.from(
+      new Set(
+        [year - 1, year, year + 1]
+          .map(calendar.holidays)
+          .reduce<readonly PlainDate[]>((all, ds) => all.concat(ds), [])
+          .filter((d) => d.y === year)
+          .map(epochDay)
+          .filter((day) => !isWeekend(day))
+      )
+    );
+    cache.set(year, days);
+    return days;
+  };
+  const count = (from: number, to: number): number => {
+    if (to <= from) return 0;
+    const weeks = Math.floor((to - from) / 7);
+    const perWeek = 7 - weekend.size;
+    const rest = range(from + weeks * 7, to).filter((d) => !isWeekend(d));
+    const years = range(civilFromDays(from).y, civilFromDays(to - 1).y + 1);
+    const holidays = years
+      .map((y) => holidaysIn(y).filter((d) => d >= from && d < to).length)
+      .reduce((a, b) => a + b, 0);
+    return weeks * perWeek + rest.length - holidays;
+  };
+  return {
+    isBusiness: (day) =>
+      !isWeekend(day) && !holidaysIn(civilFromDays(day).y).includes(day),
+    count,
+    perWeek: 7 - weekend.size,
+  };
+};
+
+/* the smallest span in [lo, hi] (hi satisfying) for which `enough` holds */
+const search = (
+  lo: number,
+  hi: number,
+  enough: (span: number) => boolean
+): number => {
+  if (lo >= hi) return hi;
+  const mid = Math.floor((lo + hi) / 2);
+  return enough(mid) ? search(lo, mid, enough) : search(mid + 1, hi, enough);
+};
+
+/* a span for which `enough` holds, doubling from `span` */
+const bound = (span: number, enough: (span: number) => boolean): number =>
+  enough(span) || span >= MAX_SPAN
+    ? Math.min(span, MAX_SPAN)
+    : bound(span * 2, enough);
+
+/* the epoch day `n` business days from `day` */
+const stepDays = (days: Days, day: number, n: number): number => {
+  if (n === 0) return day;
+  const wanted = Math.abs(n);
+  const enough =
+    n > 0
+      ? (span: number) => days.count(day + 1, day + span + 1) >= wanted
+      : (span: number) => days.count(day - span, day) >= wanted;
+  const first = Math.ceil(wanted / Math.max(days.perWeek, 1)) * 7;
+  const span = search(1, bound(first, enough), enough);
+  return n > 0 ? day + span : day - span;
+};
+
+/* ------------------------------------------------------------------ *
+ *  BUSINESS-DAY  ARITHMETIC
+ * ------------------------------------------------------------------ */
+export const isBusinessDay = (
+  d: PlainDate,
+  calendar: BusinessCalendar = weekendsOnly
+): boolean => daysOf(calendar).isBusiness(epochDay(d));
+
+/* `n` business days later (earlier when negative), keeping any time
+ * fields; a non-business day moves to the next one with n = 1 */
+export const addBusinessDays =
+  (n: number, calendar: BusinessCalendar = weekendsOnly) =>
+  <D extends PlainDate>(d: D): D => ({
+    ...d,
+    ...civilFromDays(stepDays(daysOf(calendar), epochDay(d), Math.trunc(n))),
+  });
+
+export const subtractBusinessDays = (
+  n: number,
+  calendar: BusinessCalendar = weekendsOnly
+) => addBusinessDays(-n, calendar);
+
+/* the first business day strictly after `d` */
+export const nextBusinessDay = <D extends PlainDate>(
+  d: D,
+  calendar: BusinessCalendar = weekendsOnly
+): D => addBusinessDays(1, calendar)(d);
+
+/* the last business day strictly before `d` */
+export const previousBusinessDay = <D extends PlainDate>(
+  d: D,
+  calendar: BusinessCalendar = weekendsOnly
+): D => addBusinessDays(-1, calendar)(d);
+
+/* business days in (from, to], negated when `to` is before `from`, so
+ * that `businessDaysBetween(d, addBusinessDays(n)(d))` is `n` */
+export const businessDaysBetween = (
+  from: PlainDate,
+  to: PlainDate,
+  calendar: BusinessCalendar = weekendsOnly
+): number => {
+  const [a, b] = [epochDay(from), epochDay(to)];
+  const days = daysOf(calendar);
+  return b >= a ? days.count(a + 1, b + 1) : -days.count(b, a);
+};
+
+/* ------------------------------------------------------------------ *
+ *  PLUGIN
+ * ------------------------------------------------------------------ */
+/* the instance's wall clock, moved by whole days in its zone */
+const business = (calendar: BusinessCalendar) => (rd: ReamDate) => {
+  const at = instant(rd.valueOf());
+  const local = toZonedPlain(at, rd.timezone());
+  const moveTo = (target: PlainDate): ReamDate => {
+    const days = epochDay(target) - epochDay(local);
+    const moved = addZonedPeriod(period({ days }))(
+      zdt(at, rd.timezone(), local)
+    );
+    return rd.add(moved.instant.epochMs - at.epochMs, 'milliseconds');
+  };
+  return {
+    isBusinessDay: () => isBusinessDay(local, calendar),
+    nextBusinessDay: () => moveTo(nextBusinessDay(local, calendar)),
+    previousBusinessDay: () => moveTo(previousBusinessDay(local, calendar)),
+    addBusinessDays: (n: number) => moveTo(addBusinessDays(n, calendar)(local)),
+    subtractBusinessDays: (n: number) =>
+      moveTo(subtractBusinessDays(n, calendar)(local)),
+    businessDaysBetween: (other: ReamDate) =>
+      businessDaysBetween(
+        local,
+        toZonedPlain(instant(other.valueOf()), rd.timezone()),
+        calendar
+      ),
+  };
+};
+
+/* business-day methods on ReamDate, on the instance's wall clock */
+export const businessPluginFor = (calendar: BusinessCalendar): Plugin => ({
+  install: (rd) => ({ ...rd, ...business(calendar)(rd) }),
+});
+
+export const businessPlugin: Plugin = businessPluginFor(weekendsOnly);
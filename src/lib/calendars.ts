@@ -0,0 +1,357 @@
+/*********************************************************************
+ *  CALENDAR  SYSTEMS
+ *  Date arithmetic for the non-Gregorian calendars: each system maps
+ *  its own (year, month, day) to and from days since 1970-01-01.
+ ********************************************************************/
+
+import type { PlainDate } from './ream';
+
+export type CalendarSystem = Readonly<{
+  readonly fromDays: (epochDay: number) => PlainDate;
+  readonly toDays: (date: PlainDate) => number;
+  readonly isLeapYear: (y: number) => boolean;
+  readonly monthsInYear: (y: number) => number;
+  readonly daysInMonth: (y: number, m: number) => number;
+  /* position of month `m` of year `y` in the calendar's month names, and
+   * back (a leap month constrains to its common-year counterpart) */
+  readonly nameIndex: (y: number, m: number) => number;
+  readonly monthOfName: (y: number, index: number) => number;
+}>;
+
+/* names for calendars whose months are the same every year */
+const fixedMonths = {
+  nameIndex: (_: number, m: number) => m - 1,
+  monthOfName: (_: number, index: number) => index + 1,
+};
+
+const floorDiv = (a: number, b: number): number => Math.floor(a / b);
+
+const sum = (ns: readonly number[]): number => ns.reduce((a, b) => a + b, 0);
+
+/* month and day of the `dayOfYear`-th day (from 1) of a year whose
+ * months have the given lengths */
+const monthAndDay = (
+  lengths: readonly number[],
+  dayOfYear: number
+): readonly [number, number] => {
+  const [first, ...rest] = lengths;
+  if (dayOfYear <= first || rest.length === 0) return [1, dayOfYear];
+  const [m, d] = monthAndDay(rest, dayOfYear - first);
+  return [m + 1, d];
+};
+
+/* ------------------------------------------------------------------ *
+ *  Proleptic Gregorian (days_from_civil / civil_from_days)
+ * ------------------------------------------------------------------ */
+export const daysFromCivil = (y: number, m: number, d: number): number => {
+  const yy = m <= 2 ? y - 1 : y;
+  const era = floorDiv(yy, 400);
+  const yoe = yy - era * 400;
+  const doy = floorDiv(153 * ((m + 9) % 12) + 2, 5) + d - 1;
+  const doe = yoe * 365 + floorDiv(yoe, 4) - floorDiv(yoe, 100) + doy;
+  return era * 146097 + doe - 719468;
+};
+
+export const civilFromDays = (epochDay: number): PlainDate => {
+  const z = epochDay + 719468;
+  const era = floorDiv(z, 146097);
+  const doe = z - era * 146097;
+  const yoe = floorDiv(
+    doe - floorDiv(doe, 1460) + floorDiv(doe, 36524) - floorDiv(doe, 146096),
+    365
+  );
+  const doy = doe - (365 * yoe + floorDiv(yoe, 4) - floorDiv(yoe, 100));
+  const mp = floorDiv(5 * doy + 2, 153);
+  const m = mp < 10 ? mp + 3 : mp - 9;
+  return {
+    y: yoe + era * 400 + (m <= 2 ? 1 : 0),
+    m,
+    d: doy - floorDiv(153 * mp + 2, 5) + 1,
+  };
+};
+
+const isGregorianLeap = (y: number): boolean =>
+  (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0;
+
+export const gregorian: CalendarSystem = {
+  fromDays: civilFromDays,
+  toDays: ({ y, m, d }) => daysFromCivil(y, m, d),
+  isLeapYear: isGregorianLeap,
+  monthsInYear: () => 12,
+  daysInMonth: (y, m) =>
+    m === 2
+      ? isGregorianLeap(y)
+        ? 29
+        : 28
+      : [4, 6, 9, 11].includes(m)
+      ? 30
+      : 31,
+  ...fixedMonths,
+};
+
+/* ------------------------------------------------------------------ *
+ *  Thai solar (Buddhist): Gregorian months and days, years counted in
+ *  the Buddhist Era (BE = CE + 543)
+ * ------------------------------------------------------------------ */
+const BUDDHIST_ERA_OFFSET = 543;
+
+export const buddhist: CalendarSystem = {
+  fromDays: (epochDay) => {
+    const date = civilFromDays(epochDay);
+    return { ...date, y: date.y + BUDDHIST_ERA_OFFSET };
+  },
+  toDays: ({ y, m, d }) => daysFromCivil(y - BUDDHIST_ERA_OFFSET, m, d),
+  isLeapYear: (y) => isGregorianLeap(y - BUDDHIST_ERA_OFFSET),
+  monthsInYear: () => 12,
+  daysInMonth: (y, m) => gregorian.daysInMonth(y - BUDDHIST_ERA_OFFSET, m),
+  ...fixedMonths,
+};
+
+/* ------------------------------------------------------------------ *
+ *  Persian (Solar Hijri): ICU's arithmetic 33-year cycle (8 leap years
+ *  per cycle) with its corrections towards the astronomical calendar;
+ *  six 31-day months, five of 30, then Esfand with 29 or 30 days
+ * ------------------------------------------------------------------ */
+const PERSIAN_EPOCH = -492268; // 1 Farvardin 1 AP = 622-03-19 (proleptic)
+const PERSIAN_MONTH_START = [
+  0, 31, 62, 93, 124, 155, 186, 216, 246, 276, 306, 336,
+];
+
+/* years the cycle makes leap but are not: the leap day moves to the next */
+const PERSIAN_NON_LEAP = new Set([
+  1502, 1601, 1634, 1667, 1700, 1733, 1766, 1799, 1832, 1865, 1898, 1931, 1964,
+  1997, 2030, 2059, 2063, 2096, 2129, 2158, 2162, 2191, 2195, 2224, 2228, 2257,
+  2261, 2290, 2294, 2323, 2327, 2356, 2360, 2389, 2393, 2422, 2426, 2455, 2459,
+  2488, 2492, 2521, 2525, 2554, 2558, 2587, 2591, 2620, 2624, 2653, 2657, 2686,
+  2690, 2719, 2723, 2748, 2752, 2756, 2781, 2785, 2789, 2818, 2822, 2847, 2851,
+  2855, 2880, 2884, 2888, 2913, 2917, 2921, 2946, 2950, 2954, 2979, 2983, 2987,
+]);
+
+const persianYearStart = (y: number): number =>
+  PERSIAN_EPOCH +
+  365 * (y - 1) +
+  floorDiv(8 * y + 21, 33) -
+  (PERSIAN_NON_LEAP.has(y - 1) ? 1 : 0);
+
+const isPersianLeap = (y: number): boolean =>
+  PERSIAN_NON_LEAP.has(y)
+    ? false
+    : PERSIAN_NON_LEAP.has(y - 1) || (((25 * y + 11) % 33) + 33) % 33 < 8;
+
+export const persian: CalendarSystem = {
+  fromDays: (epochDay) => {
+    const cycleYear = 1 + floorDiv(33 * (epochDay - PERSIAN_EPOCH) + 3, 12053);
+    const y =
+      epochDay >= persianYearStart(cycleYear + 1) ? cycleYear + 1 : cycleYear;
+    const dayOfYear = epochDay - persianYearStart(y);
+    const m =
+      dayOfYear < 216 ? floorDiv(dayOfYear, 31) : floorDiv(dayOfYear - 6, 30);
+    return { y, m: m + 1, d: dayOfYear - PERSIAN_MONTH_START[m] + 1 };
+  },
+  toDays: ({ y, m, d }) =>
+    persianYearStart(y) + PERSIAN_MONTH_START[m - 1] + d - 1,
+  isLeapYear: isPersianLeap,
+  monthsInYear: () => 12,
+  daysInMonth: (y, m) =>
+    m <= 6 ? 31 : m <= 11 ? 30 : isPersianLeap(y) ? 30 : 29,
+  ...fixedMonths,
+};
+
+/* ------------------------------------------------------------------ *
+ *  Islamic (Hijri). `islamic-civil` is the tabular calendar (Friday
+ *  epoch, 11 leap years in 30); `islamic-umalqura` follows Saudi Arabia's
+ *  Umm al-Qura tables for 1300-1600 AH and the tabular one outside them
+ * ------------------------------------------------------------------ */
+const ISLAMIC_EPOCH = -492148; // 1 Muharram 1 AH = 622-07-19 (proleptic)
+
+const islamicYearStart = (y: number): number =>
+  (y - 1) * 354 + floorDiv(3 + 11 * y, 30);
+
+const islamicMonthStart = (y: number, m: number): number =>
+  Math.ceil(29.5 * (m - 1)) + islamicYearStart(y);
+
+const clampMonth = (m: number, months: number): number =>
+  Math.min(Math.max(m, 1), months);
+
+const isIslamicLeap = (y: number): boolean =>
+  (((14 + 11 * y) % 30) + 30) % 30 < 11;
+
+export const islamicCivil: CalendarSystem = {
+  fromDays: (epochDay) => {
+    const days = epochDay - ISLAMIC_EPOCH;
+    const y = floorDiv(30 * days + 10646, 10631);
+    const m = clampMonth(
+      Math.ceil((days - 29 - islamicYearStart(y)) / 29.5) + 1,
+      12
+    );
+    return { y, m, d: days - islamicMonthStart(y, m) + 1 };
+  },
+  toDays: ({ y, m, d }) => ISLAMIC_EPOCH + islamicMonthStart(y, m) + d - 1,
+  isLeapYear: isIslamicLeap,
+  monthsInYear: () => 12,
+  daysInMonth: (y, m) =>
+    m % 2 === 1 || (m === 12 && isIslamicLeap(y)) ? 30 : 29,
+  ...fixedMonths,
+};
+
+/* one 12-bit mask per year from 1300 AH, a set bit per 30-day month
+ * (Muharram first), as published with the Umm al-Qura calendar */
+const UMALQURA_FIRST_YEAR = 1300;
+const UMALQURA_FIRST_DAY = -31826; // 1 Muharram 1300 = 1882-11-12
+const UMALQURA_MONTHS =
+  'aaad54ec96d46ea36caad5556a9792ba95d4ada55cd2d69574ab54b6a5ad4aea4f51768b' +
+  '6a5ad52d695b49da4dd26d955ac9b62baa5b52ba956caae92f49762b6956acaba4bd25d9' +
+  '2dc96d54daa5b52ba55b49b655729754b6a3752b6556aaab52bc95d4ada55caad69574ab' +
+  '94baa5b52b6a5752768b745b5555a95b49da4dd26e936aaad54db25d52da95b4aba55b49' +
+  'b64b715b4ab5a55d25e92ec96d4ae996b4aba93d49da4db2ab94baa5b52ba95b2ab5555c' +
+  '4bd23d91da95b4ab5a56d2b693b49b6556a9754b6a56caad555b29b92ba95d4ada55aaab' +
+  '595749764baa5b52b6a56e4db25b52b6a5ad2ae92f49764b6a56acad655d49da4dd16d95' +
+  '5aa5b52da95b4ad5956ca6e4aea4f52b6956aaab54bd25d92ea96d4ada95b4aba55b29b5' +
+  '4d6a97547693749b5556aa6b52ba8bd46da35caad64db26b94baa5b52b695751768b725b' +
+  '52b5655b49da4ed16d8b6aa6d52da95d4ada95b4ab653729762ba95b2ab5555b25d92ec9' +
+  '6d2ae956b4aba55d29d54daa9b54baa3b49ba4daaaad52da95d45ea2ec9ad556b26b94ba' +
+  'a5d52da95b52ba8bb45b92da95ab4ada4ed16e8b6a56d535695d4ada8dd46da55b29d62b' +
+  'b15b4ab955aaaae92ec8f5276956aaad655d29d';
+
+const umalquraMasks: readonly number[] = Array.from(
+  { length: UMALQURA_MONTHS.length / 3 },
+  (_, i) => parseInt(UMALQURA_MONTHS.slice(i * 3, i * 3 + 3), 16)
+);
+
+const monthLengths = (mask: number): readonly number[] =>
+  Array.from({ length: 12 }, (_, i) => 29 + ((mask >> (11 - i)) & 1));
+
+/* first day of each tabulated year, plus the day after the last one */
+const umalquraYearStarts: readonly number[] = umalquraMasks.reduce<
+  readonly number[]
+>(
+  (starts, mask) => [
+    ...starts,
+    starts[starts.length - 1] + sum(monthLengths(mask)),
+  ],
+  [UMALQURA_FIRST_DAY]
+);
+
+const umalquraMask = (y: number): number | undefined =>
+  umalquraMasks[y - UMALQURA_FIRST_YEAR];
+
+export const islamicUmalqura: CalendarSystem = {
+  fromDays: (epochDay) => {
+    const index =
+      epochDay < UMALQURA_FIRST_DAY
+        ? -1
+        : umalquraYearStarts.findIndex((start) => start > epochDay) - 1;
+    if (index < 0 || index >= umalquraMasks.length)
+      return islamicCivil.fromDays(epochDay);
+    const lengths = monthLengths(umalquraMasks[index]);
+    const dayOfYear = epochDay - umalquraYearStarts[index];
+    const [m, d] = monthAndDay(lengths, dayOfYear + 1);
+    return { y: UMALQURA_FIRST_YEAR + index, m, d };
+  },
+  toDays: ({ y, m, d }) => {
+    const mask = umalquraMask(y);
+    if (mask === undefined) return islamicCivil.toDays({ y, m, d });
+    const before = sum(monthLengths(mask).slice(0, m - 1));
+    return umalquraYearStarts[y - UMALQURA_FIRST_YEAR] + before + d - 1;
+  },
+  isLeapYear: (y) => {
+    const mask = umalquraMask(y);
+    return mask === undefined
+      ? isIslamicLeap(y)
+      : sum(monthLengths(mask)) === 355;
+  },
+  monthsInYear: () => 12,
+  daysInMonth: (y, m) => {
+    const mask = umalquraMask(y);
+    return mask === undefined
+      ? islamicCivil.daysInMonth(y, m)
+      : monthLengths(mask)[m - 1];
+  },
+  ...fixedMonths,
+};
+
+/* ------------------------------------------------------------------ *
+ *  Hebrew: lunisolar, 7 leap years (with Adar I) in 19, new year
+ *  postponements (dehiyyot). Months are numbered from Tishri: 1-12 in a
+ *  common year, 1-13 in a leap year, where 6 is Adar I and 7 Adar II
+ * ------------------------------------------------------------------ */
+const HEBREW_EPOCH = -2092590; // 1 Tishri 1 AM = -3760-09-07 (proleptic)
+
+const isHebrewLeap = (y: number): boolean => (((7 * y + 1) % 19) + 19) % 19 < 7;
+
+/* days from the epoch to the molad-based new year, before corrections */
+const hebrewElapsedDays = (y: number): number => {
+  const months = floorDiv(235 * y - 234, 19);
+  const parts = 12084 + 13753 * months;
+  const days = 29 * months + floorDiv(parts, 25920);
+  return (((3 * (days + 1)) % 7) + 7) % 7 < 3 ? days + 1 : days;
+};
+
+const hebrewNewYear = (y: number): number => {
+  const [previous, current, next] = [y - 1, y, y + 1].map(hebrewElapsedDays);
+  const correction =
+    next - current === 356 ? 2 : current - previous === 382 ? 1 : 0;
+  return HEBREW_EPOCH + current + correction;
+};
+
+const hebrewYearLength = (y: number): number =>
+  hebrewNewYear(y + 1) - hebrewNewYear(y);
+
+/* month lengths in leap-year order, Tishri to Elul */
+const hebrewMonthLength = (y: number, slot: number): number => {
+  switch (slot) {
+    case 2: // Heshvan: 30 days in a complete year
+      return hebrewYearLength(y) % 10 === 5 ? 30 : 29;
+    case 3: // Kislev: 29 days in a deficient year
+      return hebrewYearLength(y) % 10 === 3 ? 29 : 30;
+    default:
+      return [30, 0, 0, 29, 30, 30, 29, 30, 29, 30, 29, 30, 29][slot - 1];
+  }
+};
+
+/* a common year has no slot 6 (Adar I); its Adar is slot 7 */
+const hebrewSlot = (y: number, m: number): number =>
+  isHebrewLeap(y) || m < 6 ? m : m + 1;
+
+const hebrewMonthLengths = (y: number): readonly number[] =>
+  Array.from({ length: isHebrewLeap(y) ? 13 : 12 }, (_, i) =>
+    hebrewMonthLength(y, hebrewSlot(y, i + 1))
+  );
+
+const hebrewYearOf = (epochDay: number, y: number): number =>
+  hebrewNewYear(y) > epochDay
+    ? hebrewYearOf(epochDay, y - 1)
+    : hebrewNewYear(y + 1) <= epochDay
+    ? hebrewYearOf(epochDay, y + 1)
+    : y;
+
+export const hebrew: CalendarSystem = {
+  fromDays: (epochDay) => {
+    const y = hebrewYearOf(
+      epochDay,
+      Math.floor((epochDay - HEBREW_EPOCH) / 365.2468) + 1
+    );
+    const [m, d] = monthAndDay(
+      hebrewMonthLengths(y),
+      epochDay - hebrewNewYear(y) + 1
+    );
+    return { y, m, d };
+  },
+  toDays: ({ y, m, d }) =>
+    hebrewNewYear(y) + sum(hebrewMonthLengths(y).slice(0, m - 1)) + d - 1,
+  isLeapYear: isHebrewLeap,
+  monthsInYear: (y) => (isHebrewLeap(y) ? 13 : 12),
+  daysInMonth: (y, m) => hebrewMonthLength(y, hebrewSlot(y, m)),
+  // names: Tishri ... Shevat, Adar I, Adar II, Nisan ... Elul, then Adar
+  nameIndex: (y, m) => (isHebrewLeap(y) || m < 6 ? m - 1 : m === 6 ? 13 : m),
+  monthOfName: (y, index) =>
+    isHebrewLeap(y)
+      ? index === 13
+        ? 7
+        : index + 1
+      : index < 5
+      ? index + 1
+      : index <= 6 || index === 13
+      ? 6
+      : index,
+};
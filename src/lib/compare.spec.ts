@@ -0,0 +1,136 @@
+import test from 'ava';
+
+import {
+  compare,
+  contramap,
+  dateOrd,
+  isAfter,
+  isBefore,
+  isBetween,
+  isSame,
+  isSameOrAfter,
+  isSameOrBefore,
+  max,
+  min,
+  ordBy,
+  reverse,
+} from './compare';
+import ream, {
+  DEFAULT_WEEK,
+  instant,
+  interval,
+  splitBy,
+  withZoneName,
+} from './ream';
+
+test('compare orders instants, plain values and ReamDates', (t) => {
+  t.is(compare(instant(1), instant(2)), -1);
+  t.is(compare(instant(2), instant(2)), 0);
+  t.is(compare({ y: 2024, m: 3, d: 1 }, { y: 2024, m: 2, d: 29 }), 1);
+  t.is(
+    compare(
+      { y: 2024, m: 3, d: 1 },
+      { y: 2024, m: 3, d: 1, h: 0, min: 0, s: 0, ms: 1 }
+    ),
+    -1
+  );
+  t.is(compare(ream('2024-01-01T00:00:00Z'), instant(0)), 1);
+});
+
+test('isBefore, isAfter and isSame compare at a unit', (t) => {
+  const a = ream('2024-05-15T08:00:00Z');
+  const b = ream('2024-05-15T20:00:00Z');
+
+  t.true(isBefore(a, b));
+  t.false(isBefore(a, b, 'day'));
+  t.true(isSame(a, b, 'day'));
+  t.true(isSame(a, b, 'week'));
+  t.false(isSame(a, b, 'hour'));
+  t.true(isAfter(b, a, 'hour'));
+  t.true(isSameOrBefore(a, b, 'day'));
+  t.true(isSameOrAfter(a, b, 'month'));
+  t.true(isSame(instant(1500), instant(1999), 'second'));
+});
+
+test('unit comparisons use the first ReamDate zone', (t) => {
+  // 02:00 UTC on the 15th is still the 14th in New York
+  const ny = ream('2024-05-15T02:00:00Z', 'America/New_York');
+  const noon = ream('2024-05-14T16:00:00Z');
+
+  t.false(isSame(noon, ny, 'day'));
+  t.true(isSame(ny, noon, 'day'));
+  t.true(isSame(ny, instant(noon.valueOf()), 'day'));
+  t.true(isSame(instant(noon.valueOf()), ny, 'day'));
+});
+
+test('isBetween honours inclusivity', (t) => {
+  const from = { y: 2024, m: 1, d: 1 };
+  const to = { y: 2024, m: 1, d: 31 };
+
+  t.true(isBetween({ y: 2024, m: 1, d: 15 }, from, to));
+  t.false(isBetween(from, from, to));
+  t.true(isBetween(from, from, to, '[)'));
+  t.false(isBetween(to, from, to, '[)'));
+  t.true(isBetween(to, from, to, '(]'));
+  t.true(isBetween(to, from, to, '[]'));
+  t.true(
+    isBetween(
+      { y: 2024, m: 1, d: 31, h: 12, min: 0, s: 0, ms: 0 },
+      from,
+      to,
+      '[]',
+      'day'
+    )
+  );
+});
+
+test('min and max pick the earliest and latest', (t) => {
+  const dates = [
+    ream('2024-03-01T00:00:00Z'),
+    ream('2023-12-31T23:59:59Z'),
+    ream('2024-01-15T00:00:00Z'),
+  ] as const;
+
+  t.is(min(dates), dates[1]);
+  t.is(max(dates), dates[0]);
+  t.deepEqual(min([instant(5)]), instant(5));
+});
+
+test('Ord instances sort dates and keyed values', (t) => {
+  const days = [
+    { y: 2024, m: 2, d: 1 },
+    { y: 2023, m: 5, d: 9 },
+    { y: 2024, m: 1, d: 20 },
+  ];
+  const events = days.map((start, id) => ({ id, start }));
+  const byStart = contramap((e: (typeof events)[number]) => e.start)(dateOrd);
+
+  t.deepEqual(
+    [...days].sort(dateOrd.compare).map((d) => d.m),
+    [5, 1, 2]
+  );
+  t.deepEqual(
+    [...events].sort(reverse(byStart).compare).map((e) => e.id),
+    [0, 2, 1]
+  );
+  t.true(ordBy('year').equals(days[0], days[2]));
+  t.false(dateOrd.equals(days[0], days[2]));
+});
+
+test('week comparisons share the library week', (t) => {
+  // Saturday 2024-05-18 and Sunday 2024-05-19
+  const saturday = ream('2024-05-18T12:00:00Z');
+  const sunday = ream('2024-05-19T12:00:00Z');
+  const weeks = splitBy('week')(
+    interval(
+      withZoneName('UTC')({ y: 2024, m: 5, d: 15, h: 0, min: 0, s: 0, ms: 0 }),
+      withZoneName('UTC')({ y: 2024, m: 5, d: 22, h: 0, min: 0, s: 0, ms: 0 })
+    )
+  );
+
+  t.is(DEFAULT_WEEK.firstDay, 7);
+  t.false(isSame(saturday, sunday, 'week'));
+  t.true(isSame(sunday, ream('2024-05-25T12:00:00Z'), 'week'));
+  t.is(saturday.startOf('week').date(), 12);
+  t.is(weeks[1].start.payload.d, 19);
+});
@@ -0,0 +1,158 @@
+/*********************************************************************
+ *  COMPARISON
+ *  Ordering and unit-granular queries over Instants, plain dates and
+ *  date-times and ReamDates. Coarse units are cut on the wall clock of
+ *  the first ReamDate's zone (UTC when neither side is a ReamDate).
+ ********************************************************************/
+
+import {
+  DEFAULT_WEEK,
+  fromPlain,
+  Instant,
+  instant,
+  MILLIS,
+  PlainDate,
+  PlainDateTime,
+  ReamDate,
+  StartOfUnit,
+  startOfZoned,
+  TimeZone,
+  toZonedPlain,
+  UTC,
+  zdt,
+} from './ream';
+
+/* Anything with a place on the time line; plain values are read as UTC
+ * wall clocks, so compare them with each other */
+export type Comparable = Instant | PlainDate | PlainDateTime | ReamDate;
+
+/* The unit two values are compared at: `isSame(a, b, 'day')` holds for
+ * any two instants of the same local day */
+export type Granularity = StartOfUnit | 'second' | 'millisecond';
+
+/* Which ends of `isBetween`'s range count: `[` and `]` include one */
+export type Inclusivity = '()' | '[)' | '(]' | '[]';
+
+/* A total order, as in fp-ts: `compare` suits `Array.prototype.sort` */
+export type Ord<A> = Readonly<{
+  readonly equals: (a: A, b: A) => boolean;
+  readonly compare: (a: A, b: A) => -1 | 0 | 1;
+}>;
+
+const isInstant = (x: Comparable): x is Instant => 'epochMs' in x;
+
+const isPlain = (x: Comparable): x is PlainDate => 'y' in x;
+
+const isReam = (x: Comparable): x is ReamDate => !isInstant(x) && !isPlain(x);
+
+const epochMs = (x: Comparable): number =>
+  isInstant(x)
+    ? x.epochMs
+    : isPlain(x)
+    ? fromPlain({ h: 0, min: 0, s: 0, ms: 0, ...x }).epochMs
+    : x.valueOf();
+
+const zoneOf = (a: Comparable, b: Comparable): TimeZone =>
+  isReam(a) ? a.timezone() : isReam(b) ? b.timezone() : UTC;
+
+const zoned = (ms: number, tz: TimeZone) =>
+  zdt(instant(ms), tz, toZonedPlain(instant(ms), tz));
+
+/* start of the `unit` holding `ms`, as epoch ms */
+const floorTo =
+  (unit: Granularity, tz: TimeZone) =>
+  (ms: number): number =>
+    unit === 'millisecond'
+      ? ms
+      : unit === 'second'
+      ? Math.floor(ms / MILLIS.SECOND) * MILLIS.SECOND
+      : startOfZoned(unit, DEFAULT_WEEK.firstDay)(zoned(ms, tz)).instant
+          .epochMs;
+
+export const compare = (
+  a: Comparable,
+  b: Comparable,
+  unit: Granularity = 'millisecond'
+): -1 | 0 | 1 => {
+  const floor = floorTo(unit, zoneOf(a, b));
+  const x = floor(epochMs(a));
+  const y = floor(epochMs(b));
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+export const isBefore = (
+  a: Comparable,
+  b: Comparable,
+  unit?: Granularity
+): boolean => compare(a, b, unit) < 0;
+
+export const isAfter = (
+  a: Comparable,
+  b: Comparable,
+  unit?: Granularity
+): boolean => compare(a, b, unit) > 0;
+
+export const isSame = (
+  a: Comparable,
+  b: Comparable,
+  unit?: Granularity
+): boolean => compare(a, b, unit) === 0;
+
+export const isSameOrBefore = (
+  a: Comparable,
+  b: Comparable,
+  unit?: Granularity
+): boolean => compare(a, b, unit) <= 0;
+
+export const isSameOrAfter = (
+  a: Comparable,
+  b: Comparable,
+  unit?: Granularity
+): boolean => compare(a, b, unit) >= 0;
+
+/* `x` within `from` ... `to`, exclusive of both ends by default */
+export const isBetween = (
+  x: Comparable,
+  from: Comparable,
+  to: Comparable,
+  inclusivity: Inclusivity = '()',
+  unit?: Granularity
+): boolean => {
+  const lo = compare(x, from, unit);
+  const hi = compare(x, to, unit);
+  return (
+    (inclusivity[0] === '[' ? lo >= 0 : lo > 0) &&
+    (inclusivity[1] === ']' ? hi <= 0 : hi < 0)
+  );
+};
+
+/* earliest / latest of one or more values (the first of any ties) */
+export const min = <A extends Comparable>(
+  values: readonly [A, ...(readonly A[])]
+): A => values.reduce((m, x) => (compare(x, m) < 0 ? x : m));
+
+export const max = <A extends Comparable>(
+  values: readonly [A, ...(readonly A[])]
+): A => values.reduce((m, x) => (compare(x, m) > 0 ? x : m));
+
+/* the order at a unit: values in the same day are equal under `ordBy('day')` */
+export const ordBy = (unit: Granularity = 'millisecond'): Ord<Comparable> => ({
+  equals: (a, b) => compare(a, b, unit) === 0,
+  compare: (a, b) => compare(a, b, unit),
+});
+
+export const dateOrd: Ord<Comparable> = ordBy();
+
+/* latest first */
+export const reverse = <A>(ord: Ord<A>): Ord<A> => ({
+  equals: ord.equals,
+  compare: (a, b) => ord.compare(b, a),
+});
+
+/* order values by a key, e.g. events by their start */
+export const contramap =
+  <A, B>(f: (b: B) => A) =>
+  (ord: Ord<A>): Ord<B> => ({
+    equals: (a, b) => ord.equals(f(a), f(b)),
+    compare: (a, b) => ord.compare(f(a), f(b)),
+  });
@@ -0,0 +1,216 @@
+import test from 'ava';
+
+import { CalendarEvent, eventRule, fromICS, toICS } from './ics';
+import {
+  format,
+  instant,
+  interval,
+  parseISO,
+  PlainDateTime,
+  withZoneName,
+  ZDT,
+} from './ream';
+
+const ics = (lines: readonly string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR', ''].join(
+    '\r\n'
+  );
+
+const shown = (z: ZDT<PlainDateTime>) =>
+  `${format('YYYY-MM-DD HH:mm', z.payload)} ${z.zone.name}`;
+
+const meeting = ics([
+  'PRODID:-//Example Corp//Calendar//EN',
+  'BEGIN:VTIMEZONE',
+  'TZID:Eastern Standard Time',
+  'X-LIC-LOCATION:America/New_York',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'UID:sync@example.com',
+  'DTSTAMP:20240101T120000Z',
+  'DTSTART;TZID=Eastern Standard Time:20240305T090000',
+  'DURATION:PT1H30M',
+  'RRULE:FREQ=WEEKLY;BYDAY=TU;COUNT=4',
+  'EXDATE;TZID="Eastern Standard Time":20240312T090000',
+  'RDATE;TZID=/example.com/tzone/America/New_York:20240401T100000',
+  'SUMMARY:Team sync\\, weekly',
+  'DESCRIPTION:Agenda:\\nnotes\\; actions and a description long enough to b',
+  ' e folded',
+  'BEGIN:VALARM',
+  'TRIGGER:-PT15M',
+  'ACTION:DISPLAY',
+  'END:VALARM',
+  'END:VEVENT',
+]);
+
+test('fromICS reads a recurring event with a TZID', (t) => {
+  const parsed = fromICS(meeting);
+  if (!parsed.ok) return t.fail();
+  const [event] = parsed.value.events;
+
+  t.is(parsed.value.prodId, '-//Example Corp//Calendar//EN');
+  t.is(event.uid, 'sync@example.com');
+  t.is(shown(event.interval.start), '2024-03-05 09:00 America/New_York');
+  t.is(shown(event.interval.end), '2024-03-05 10:30 America/New_York');
+  t.deepEqual(event.stamp, instant(Date.parse('2024-01-01T12:00:00Z')));
+  t.deepEqual(event.rrule, {
+    freq: 'WEEKLY',
+    byDay: [{ weekday: 'TU' }],
+    count: 4,
+  });
+  t.deepEqual(event.exdates?.map(shown), ['2024-03-12 09:00 America/New_York']);
+  t.deepEqual(event.rdates?.map(shown), ['2024-04-01 10:00 America/New_York']);
+  t.is(event.summary, 'Team sync, weekly');
+  t.is(
+    event.description,
+    'Agenda:\nnotes; actions and a description long enough to be folded'
+  );
+  t.deepEqual(
+    Array.from(eventRule(event)(event.interval.start), (z) =>
+      format('MM-DD HH:mm Z', z)
+    ),
+    [
+      '03-05 09:00 -05:00',
+      '03-19 09:00 -04:00',
+      '03-26 09:00 -04:00',
+      '04-01 10:00 -04:00',
+    ]
+  );
+});
+
+test('fromICS reads all-day, UTC and floating times', (t) => {
+  const parsed = fromICS(
+    ics([
+      'BEGIN:VEVENT',
+      'UID:holiday',
+      'DTSTART;VALUE=DATE:20240704',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:call',
+      'DTSTART:20240704T150000Z',
+      'DTEND:20240704T153000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:lunch',
+      'DTSTART:20240704T120000',
+      'END:VEVENT',
+    ]),
+    { zone: 'Europe/Paris' }
+  );
+  if (!parsed.ok) return t.fail();
+  const [holiday, call, lunch] = parsed.value.events;
+
+  t.true(holiday.allDay);
+  t.is(shown(holiday.interval.start), '2024-07-04 00:00 Europe/Paris');
+  t.is(shown(holiday.interval.end), '2024-07-05 00:00 Europe/Paris');
+  t.is(call.allDay, undefined);
+  t.is(shown(call.interval.end), '2024-07-04 15:30 UTC');
+  t.is(shown(lunch.interval.start), '2024-07-04 12:00 Europe/Paris');
+  t.deepEqual(lunch.interval.end, lunch.interval.start);
+});
+
+test('fromICS reports malformed calendars and unknown zones', (t) => {
+  const noStart = ics(['BEGIN:VEVENT', 'UID:x', 'END:VEVENT']);
+  const unbalanced = ics(['BEGIN:VEVENT', 'UID:x']);
+  const badRule = ics([
+    'BEGIN:VEVENT',
+    'UID:x',
+    'DTSTART:20240101T000000Z',
+    'RRULE:FREQ=SOMETIMES',
+    'END:VEVENT',
+  ]);
+
+  t.deepEqual(fromICS(noStart), {
+    ok: false,
+    error: { kind: 'malformed', input: noStart, position: 30 },
+  });
+  t.deepEqual(fromICS(unbalanced), {
+    ok: false,
+    error: { kind: 'malformed', input: unbalanced, position: 51 },
+  });
+  t.deepEqual(fromICS(badRule), {
+    ok: false,
+    error: { kind: 'malformed', input: badRule, position: 77 },
+  });
+  t.deepEqual(
+    fromICS(
+      ics([
+        'BEGIN:VEVENT',
+        'UID:x',
+        'DTSTART;TZID=Mars/Olympus_Mons:20240101T000000',
+        'END:VEVENT',
+      ])
+    ),
+    { ok: false, error: { kind: 'unknown-zone', zone: 'Mars/Olympus_Mons' } }
+  );
+  t.deepEqual(fromICS('no calendar here'), {
+    ok: false,
+    error: { kind: 'malformed', input: 'no calendar here', position: 0 },
+  });
+});
+
+test('toICS writes VTIMEZONEs, folds lines and escapes text', (t) => {
+  const at = (iso: string) => withZoneName('Europe/Berlin')(parseISO(iso));
+  const event: CalendarEvent = {
+    uid: 'review-1',
+    interval: interval(at('2024-03-28T15:00:00'), at('2024-03-28T16:00:00')),
+    summary:
+      'Quartalsrückblick; Zahlen, Pläne und Ziele für das nächste Quartal',
+    rrule: { freq: 'MONTHLY', count: 2 },
+  };
+  const text = toICS(
+    { events: [event] },
+    { stamp: instant(Date.parse('2024-03-01T00:00:00Z')) }
+  );
+  const lines = text.split('\r\n');
+
+  t.true(text.endsWith('END:VCALENDAR\r\n'));
+  t.true(lines.every((l) => new TextEncoder().encode(l).length <= 75));
+  t.deepEqual(lines.slice(4, 11), [
+    'BEGIN:VTIMEZONE',
+    'TZID:Europe/Berlin',
+    'BEGIN:STANDARD',
+    'DTSTART:20231029T030000',
+    'TZOFFSETFROM:+0200',
+    'TZOFFSETTO:+0100',
+    'TZNAME:GMT+1',
+  ]);
+  t.true(text.includes('DTSTART:20240331T020000\r\nTZOFFSETFROM:+0100'));
+  t.true(text.includes('DTSTART;TZID=Europe/Berlin:20240328T150000\r\n'));
+  t.true(text.includes('DTSTAMP:20240301T000000Z\r\n'));
+  t.true(text.includes('RRULE:FREQ=MONTHLY;COUNT=2\r\n'));
+  t.true(
+    text.includes(
+      'SUMMARY:Quartalsrückblick\\; Zahlen\\, Pläne und Ziele für das nächste Qu\r\n artal'
+    )
+  );
+
+  const back = fromICS(text);
+  t.deepEqual(back.ok && back.value.events, [
+    { ...event, stamp: instant(Date.parse('2024-03-01T00:00:00Z')) },
+  ]);
+});
+
+test('toICS writes a VTIMEZONE for every TZID an event uses', (t) => {
+  const at = (iso: string, zone: string) => withZoneName(zone)(parseISO(iso));
+  const flight: CalendarEvent = {
+    uid: 'flight-1',
+    interval: interval(
+      at('2024-06-10T18:30:00', 'America/New_York'),
+      at('2024-06-11T06:45:00', 'Europe/London')
+    ),
+    rdates: [at('2024-07-10T09:00:00', 'Asia/Tokyo')],
+  };
+  const text = toICS(
+    { events: [flight] },
+    { stamp: instant(Date.parse('2024-06-01T00:00:00Z')) }
+  );
+  const used = text.match(/;TZID=[^:]+/g)?.map((p) => p.slice(6)) ?? [];
+  const defined = text.match(/\r\nTZID:[^\r]+/g)?.map((l) => l.slice(7));
+
+  t.deepEqual(used, ['America/New_York', 'Europe/London', 'Asia/Tokyo']);
+  t.deepEqual(defined, used);
+  t.true(
+    text.includes('TZID:Europe/London\r\nBEGIN:STANDARD\r\nDTSTART:20231029')
+  );
+});
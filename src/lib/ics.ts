@@ -0,0 +1,615 @@
+/*********************************************************************
+ *  ICALENDAR  (RFC 5545)
+ *  .ics text to and from events: VEVENTs with DTSTART and DTEND or
+ *  DURATION in UTC, TZID or floating form, RRULE/EXDATE/RDATE, and
+ *  VTIMEZONE blocks generated from the library's zone data. Content
+ *  lines are folded at 75 octets and text values escaped.
+ ********************************************************************/
+
+import {
+  addZonedPeriod,
+  err,
+  formatOffset,
+  fromPlain,
+  getTransitions,
+  Instant,
+  instant,
+  Interval,
+  isValidTimezone,
+  now,
+  ok,
+  period,
+  PlainDate,
+  PlainDateTime,
+  previousTransition,
+  RecurrenceRule,
+  Result,
+  toPlain,
+  tryInterval,
+  tryParsePeriod,
+  UTC,
+  withZoneName,
+  zdt,
+  ZDT,
+  zone,
+  ZoneTransition,
+} from './ream';
+import { except, include } from './recurrence';
+import {
+  DateValue,
+  formatDateValue,
+  formatRRule,
+  RRule,
+  rrule,
+  tryParseDateValue,
+  tryParseRRule,
+} from './rrule';
+
+/* A VEVENT. All-day events hold whole days from midnight to midnight
+ * in the interval's zone and are written as DATE values */
+export type CalendarEvent = Readonly<{
+  readonly uid: string;
+  readonly interval: Interval<PlainDateTime>;
+  readonly allDay?: boolean;
+  readonly stamp?: Instant; // DTSTAMP
+  readonly summary?: string;
+  readonly description?: string;
+  readonly location?: string;
+  readonly rrule?: RRule;
+  readonly exdates?: readonly ZDT<PlainDateTime>[];
+  readonly rdates?: readonly ZDT<PlainDateTime>[];
+}>;
+
+export type ICalendar = Readonly<{
+  readonly prodId?: string;
+  readonly events: readonly CalendarEvent[];
+}>;
+
+export type ICSOptions = Readonly<{
+  /* the zone floating times are read in (fromICS); UTC by default */
+  readonly zone?: string;
+  /* DTSTAMP for events without a stamp (toICS); now by default */
+  readonly stamp?: Instant;
+}>;
+
+const DEFAULT_PROD_ID = '-//ream.js//NONSGML ream.js//EN';
+
+/* years of VTIMEZONE observances written past the start of a rule
+ * without COUNT or UNTIL */
+const OPEN_ENDED_YEARS = 10;
+
+/* ------------------------------------------------------------------ *
+ *  CONTENT  LINES
+ * ------------------------------------------------------------------ */
+type ContentLine = Readonly<{
+  readonly name: string;
+  readonly params: Readonly<Record<string, string>>;
+  readonly value: string;
+  readonly position: number; // where the (folded) line starts in the text
+}>;
+
+type Component = Readonly<{
+  readonly name: string;
+  readonly position: number;
+  readonly lines: readonly ContentLine[];
+  readonly components: readonly Component[];
+}>;
+
+const CONTENT_LINE =
+  /^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:]*))*):(.*)$/;
+const PARAM = /;([A-Za-z0-9-]+)=("[^"]*"|[^";:]*)/g;
+
+const escapeText = (text: string): string =>
+  text.replace(/[\\;,]/g, (c) => `\\${c}`).replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === 'n' || c === 'N' ? '\n' : c
+  );
+
+const octets = (ch: string): number => {
+  const cp = ch.codePointAt(0) ?? 0;
+  return cp < 0x80 ? 1 : cp < 0x800 ? 2 : cp < 0x10000 ? 3 : 4;
+};
+
+/* a content line split into lines of at most 75 octets, continuations
+ * starting with a space; never inside a UTF-8 sequence */
+const fold = (line: string): string => {
+  const { pieces, current } = Array.from(line).reduce<
+    Readonly<{
+      readonly pieces: readonly string[];
+      readonly current: string;
+      readonly size: number;
+    }>
+  >(
+    (acc, ch) =>
+      acc.size + octets(ch) > 75
+        ? {
+            pieces: [...acc.pieces, acc.current],
+            current: ` ${ch}`,
+            size: 1 + octets(ch),
+          }
+        : { ...acc, current: acc.current + ch, size: acc.size + octets(ch) },
+    { pieces: [], current: '', size: 0 }
+  );
+  return [...pieces, current].join('\r\n');
+};
+
+const parseLine = (
+  input: string,
+  text: string,
+  position: number
+): Result<ContentLine> => {
+  const m = CONTENT_LINE.exec(text);
+  if (!m) return err({ kind: 'malformed', input, position });
+  const params = (m[2].match(PARAM) ?? []).map((p) => {
+    const [, name, value] = /^;([^=]+)=(.*)$/.exec(p) ?? ['', '', ''];
+    return [name.toUpperCase(), value.replace(/^"(.*)"$/, '$1')] as const;
+  });
+  return ok({
+    name: m[1].toUpperCase(),
+    params: params.reduce((ps, [k, v]) => ({ ...ps, [k]: v }), {}),
+    value: m[3],
+    position,
+  });
+};
+
+/* physical lines joined where folding split them, with the offset each
+ * logical line starts at */
+const unfold = (
+  text: string
+): readonly Readonly<{
+  readonly text: string;
+  readonly position: number;
+}>[] =>
+  text.split('\n').reduce<
+    Readonly<{
+      readonly lines: readonly Readonly<{
+        readonly text: string;
+        readonly position: number;
+      }>[];
+      readonly position: number;
+    }>
+  >(
+    (acc, physical) => {
+      const content = physical.replace(/\r$/, '');
+      const last = acc.lines[acc.lines.length - 1];
+      const position = acc.position + physical.length + 1;
+      return last && /^[ \t]/.test(content)
+        ? {
+            lines: [
+              ...acc.lines.slice(0, -1),
+              { ...last, text: last.text + content.slice(1) },
+            ],
+            position,
+          }
+        : content !== ''
+        ? {
+            lines: [...acc.lines, { text: content, position: acc.position }],
+            position,
+          }
+        : { ...acc, position };
+    },
+    { lines: [], position: 0 }
+  ).lines;
+
+/* the BEGIN/END tree, under an unnamed root; the stack holds the
+ * components still open, innermost last */
+const componentTree = (
+  input: string,
+  lines: readonly ContentLine[]
+): Result<Component> => {
+  const { stack, failed } = lines.reduce<
+    Readonly<{
+      readonly stack: readonly Component[];
+      readonly failed?: ContentLine;
+    }>
+  >(
+    (acc, line) => {
+      if (acc.failed) return acc;
+      const top = acc.stack[acc.stack.length - 1];
+      const below = acc.stack.slice(0, -1);
+      const parent = below[below.length - 1];
+      if (line.name === 'BEGIN')
+        return {
+          stack: [
+            ...acc.stack,
+            {
+              name: line.value.toUpperCase(),
+              position: line.position,
+              lines: [],
+              components: [],
+            },
+          ],
+        };
+      if (line.name !== 'END')
+        return { stack: [...below, { ...top, lines: [...top.lines, line] }] };
+      return parent && top.name === line.value.toUpperCase()
+        ? {
+            stack: [
+              ...below.slice(0, -1),
+              { ...parent, components: [...parent.components, top] },
+            ],
+          }
+        : { ...acc, failed: line };
+    },
+    { stack: [{ name: '', position: 0, lines: [], components: [] }] }
+  );
+  return failed
+    ? err({ kind: 'malformed', input, position: failed.position })
+    : stack.length === 1
+    ? ok(stack[0])
+    : err({ kind: 'malformed', input, position: input.length });
+};
+
+/* the first failure, or every value */
+const all = <A>(results: readonly Result<A>[]): Result<readonly A[]> => {
+  const failed = results.find((r) => !r.ok);
+  return failed && !failed.ok
+    ? failed
+    : ok(results.map((r) => (r as Readonly<{ readonly value: A }>).value));
+};
+
+/* ------------------------------------------------------------------ *
+ *  IMPORT
+ * ------------------------------------------------------------------ */
+type Context = Readonly<{
+  readonly input: string;
+  readonly floating: string;
+  /* VTIMEZONE TZIDs that name an IANA zone through X-LIC-LOCATION */
+  readonly locations: Readonly<Record<string, string>>;
+}>;
+
+/* the IANA zone a TZID stands for: the id itself, its VTIMEZONE's
+ * X-LIC-LOCATION, or the trailing segments of a prefixed id such as
+ * `/mozilla.org/20050126_1/America/New_York` */
+const zoneOf = (ctx: Context, tzid: string | undefined): Result<string> => {
+  if (tzid === undefined) return ok(ctx.floating);
+  const segments = tzid.split('/').filter((s) => s !== '');
+  const found = [
+    tzid,
+    ctx.locations[tzid],
+    ...[3, 2, 1].map((k) => segments.slice(-k).join('/')),
+  ].find((name) => name !== undefined && isValidTimezone(name));
+  return found === undefined
+    ? err({ kind: 'unknown-zone', zone: tzid })
+    : ok(found);
+};
+
+type Dated = Readonly<{
+  readonly at: ZDT<PlainDateTime>;
+  readonly allDay: boolean;
+}>;
+
+const isDateTime = (d: PlainDate): d is PlainDateTime => 'h' in d;
+
+const dated = (value: DateValue, zoneName: string): Dated =>
+  'epochMs' in value
+    ? { at: zdt(value, UTC, toPlain(value)), allDay: false }
+    : isDateTime(value)
+    ? { at: withZoneName(zoneName)(value), allDay: false }
+    : {
+        at: withZoneName(zoneName)({ ...value, h: 0, min: 0, s: 0, ms: 0 }),
+        allDay: true,
+      };
+
+/* the dates of a DTSTART, DTEND, EXDATE or RDATE line; PERIOD values
+ * contribute their start */
+const datesOf = (ctx: Context, line: ContentLine): Result<readonly Dated[]> => {
+  const zoneName = zoneOf(ctx, line.params.TZID);
+  if (!zoneName.ok) return zoneName;
+  return all(
+    line.value.split(',').map((v) => {
+      const value = tryParseDateValue(
+        line.params.VALUE === 'PERIOD' ? v.split('/')[0] : v,
+        ctx.input,
+        line.position
+      );
+      return value.ok ? ok(dated(value.value, zoneName.value)) : value;
+    })
+  );
+};
+
+const eventOf = (ctx: Context, vevent: Component): Result<CalendarEvent> => {
+  const line = (name: string) => vevent.lines.find((l) => l.name === name);
+  const text = (name: string) => {
+    const found = line(name);
+    return found && unescapeText(found.value);
+  };
+  const datesIn = (name: string): Result<readonly ZDT<PlainDateTime>[]> => {
+    const lists = all(
+      vevent.lines.filter((l) => l.name === name).map((l) => datesOf(ctx, l))
+    );
+    return lists.ok
+      ? ok(([] as readonly Dated[]).concat(...lists.value).map((d) => d.at))
+      : lists;
+  };
+  const malformed = (at: number): Result<never> =>
+    err({ kind: 'malformed', input: ctx.input, position: at });
+
+  const uid = text('UID');
+  const dtstart = line('DTSTART');
+  if (uid === undefined || dtstart === undefined)
+    return malformed(vevent.position);
+  const starts = datesOf(ctx, dtstart);
+  if (!starts.ok) return starts;
+  const [{ at: start, allDay }] = starts.value;
+
+  const dtend = line('DTEND');
+  const duration = line('DURATION');
+  const ends = dtend
+    ? datesOf(ctx, dtend)
+    : ok([
+        {
+          at: duration
+            ? start
+            : addZonedPeriod(period({ days: allDay ? 1 : 0 }))(start),
+          allDay,
+        },
+      ]);
+  if (!ends.ok) return ends;
+  const length = duration && tryParsePeriod(duration.value);
+  if (duration && length && !length.ok) return malformed(duration.position);
+  const end =
+    length && length.ok
+      ? addZonedPeriod(length.value)(start)
+      : ends.value[0].at;
+  const iv = tryInterval(start, end);
+  if (!iv.ok) return iv;
+
+  const rruleLine = line('RRULE');
+  const rule = rruleLine && tryParseRRule(rruleLine.value);
+  if (rruleLine && rule && !rule.ok)
+    return rule.error.kind === 'malformed'
+      ? malformed(rruleLine.position)
+      : rule;
+  const exdates = datesIn('EXDATE');
+  if (!exdates.ok) return exdates;
+  const rdates = datesIn('RDATE');
+  if (!rdates.ok) return rdates;
+  const stampLine = line('DTSTAMP');
+  const stamp = stampLine && tryParseDateValue(stampLine.value);
+
+  const optional = <K extends keyof CalendarEvent>(
+    key: K,
+    value: CalendarEvent[K] | undefined
+  ) => (value === undefined ? {} : { [key]: value });
+  return ok({
+    uid,
+    interval: iv.value,
+    ...optional('allDay', allDay || undefined),
+    ...optional(
+      'stamp',
+      stamp && stamp.ok && 'epochMs' in stamp.value ? stamp.value : undefined
+    ),
+    ...optional('summary', text('SUMMARY')),
+    ...optional('description', text('DESCRIPTION')),
+    ...optional('location', text('LOCATION')),
+    ...optional('rrule', rule && rule.ok ? rule.value : undefined),
+    ...optional('exdates', exdates.value.length ? exdates.value : undefined),
+    ...optional('rdates', rdates.value.length ? rdates.value : undefined),
+  });
+};
+
+/* The events of an iCalendar text. Times with a TZID are read in that
+ * zone (an IANA id, directly or through the VTIMEZONE's X-LIC-LOCATION),
+ * floating times in `options.zone`. Unbalanced BEGIN/END, lines that are
+ * not content lines and events without UID or DTSTART are `malformed`,
+ * with the position of the offending line */
+export const fromICS = (
+  input: string,
+  options: ICSOptions = {}
+): Result<ICalendar> => {
+  const lines = all(
+    unfold(input).map((l) => parseLine(input, l.text, l.position))
+  );
+  if (!lines.ok) return lines;
+  const root = componentTree(input, lines.value);
+  if (!root.ok) return root;
+  const calendar = root.value.components.find((c) => c.name === 'VCALENDAR');
+  if (!calendar) return err({ kind: 'malformed', input, position: 0 });
+  const value = (c: Component, name: string) =>
+    c.lines.find((l) => l.name === name)?.value;
+  const locations = calendar.components
+    .filter((c) => c.name === 'VTIMEZONE')
+    .reduce<Readonly<Record<string, string>>>((found, c) => {
+      const [tzid, location] = [value(c, 'TZID'), value(c, 'X-LIC-LOCATION')];
+      return tzid && location ? { ...found, [tzid]: location } : found;
+    }, {});
+  const ctx: Context = { input, floating: options.zone ?? 'UTC', locations };
+  const events = all(
+    calendar.components
+      .filter((c) => c.name === 'VEVENT')
+      .map((c) => eventOf(ctx, c))
+  );
+  if (!events.ok) return events;
+  const prodId = value(calendar, 'PRODID');
+  return ok(
+    prodId === undefined
+      ? { events: events.value }
+      : { prodId, events: events.value }
+  );
+};
+
+/* ------------------------------------------------------------------ *
+ *  EXPORT
+ * ------------------------------------------------------------------ */
+const hasTzid = (z: ZDT<PlainDateTime>): boolean =>
+  z.zone.name !== 'UTC' && isValidTimezone(z.zone.name);
+
+/* DATE for all-day values, TZID form in IANA zones, UTC otherwise */
+const dateLine = (
+  name: string,
+  z: ZDT<PlainDateTime>,
+  allDay = false
+): string =>
+  allDay
+    ? `${name};VALUE=DATE:${formatDateValue({
+        y: z.payload.y,
+        m: z.payload.m,
+        d: z.payload.d,
+      })}`
+    : hasTzid(z)
+    ? `${name};TZID=${z.zone.name}:${formatDateValue(z.payload)}`
+    : `${name}:${formatDateValue(z.instant)}`;
+
+const dateMs = (d: DateValue): number =>
+  'epochMs' in d
+    ? d.epochMs
+    : fromPlain({ h: 0, min: 0, s: 0, ms: 0, ...d }).epochMs;
+
+/* the instants an event's VTIMEZONE has to cover */
+const coverage = (event: CalendarEvent): readonly number[] => {
+  const start = event.interval.start;
+  const rule = event.rrule;
+  const last =
+    rule === undefined
+      ? []
+      : rule.until !== undefined
+      ? [dateMs(rule.until)]
+      : rule.count !== undefined
+      ? Array.from(rrule(rule)(start))
+          .map((z) => z.instant.epochMs)
+          .slice(-1)
+      : [
+          fromPlain({ ...start.payload, y: start.payload.y + OPEN_ENDED_YEARS })
+            .epochMs,
+        ];
+  return [
+    start,
+    event.interval.end,
+    ...(event.exdates ?? []),
+    ...(event.rdates ?? []),
+  ]
+    .map((z) => z.instant.epochMs)
+    .concat(last);
+};
+
+/* the IANA zones an event's TZID values name, from DTSTART, DTEND,
+ * EXDATE and RDATE alike */
+const eventZones = (event: CalendarEvent): readonly string[] =>
+  [
+    event.interval.start,
+    event.interval.end,
+    ...(event.exdates ?? []),
+    ...(event.rdates ?? []),
+  ]
+    .filter(hasTzid)
+    .map((z) => z.zone.name)
+    .filter((name, k, names) => names.indexOf(name) === k);
+
+const offsetValue = (minutes: number): string => formatOffset(minutes, '');
+
+const observance = (t: ZoneTransition): readonly string[] => {
+  const kind = t.after.dst ? 'DAYLIGHT' : 'STANDARD';
+  const onset = toPlain(
+    instant(t.instant.epochMs + t.before.offsetMinutes * 60_000)
+  );
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${formatDateValue(onset)}`,
+    `TZOFFSETFROM:${offsetValue(t.before.offsetMinutes)}`,
+    `TZOFFSETTO:${offsetValue(t.after.offsetMinutes)}`,
+    ...(t.after.abbreviation ? [`TZNAME:${t.after.abbreviation}`] : []),
+    `END:${kind}`,
+  ];
+};
+
+/* a VTIMEZONE with one observance per transition from the start of the
+ * first year to the end of the last, plus the one in force before */
+const vtimezone = (
+  name: string,
+  from: number,
+  to: number
+): readonly string[] => {
+  const yearStart = (ms: number, years = 0) =>
+    instant(Date.UTC(new Date(ms).getUTCFullYear() + years, 0, 1));
+  const [lo, hi] = [yearStart(from), yearStart(to, 1)];
+  const before = previousTransition(name, lo);
+  const transitions = [
+    ...(before ? [before] : []),
+    ...getTransitions(name, lo, hi),
+  ];
+  const fixed = zone(name, lo);
+  const observances =
+    transitions.length > 0
+      ? ([] as readonly string[]).concat(...transitions.map(observance))
+      : observance({ instant: instant(0), before: fixed, after: fixed });
+  return ['BEGIN:VTIMEZONE', `TZID:${name}`, ...observances, 'END:VTIMEZONE'];
+};
+
+const vevent = (event: CalendarEvent, stamp: Instant): readonly string[] => {
+  const texts = [
+    ['SUMMARY', event.summary],
+    ['DESCRIPTION', event.description],
+    ['LOCATION', event.location],
+  ] as const;
+  return [
+    'BEGIN:VEVENT',
+    `UID:${escapeText(event.uid)}`,
+    `DTSTAMP:${formatDateValue(event.stamp ?? stamp)}`,
+    dateLine('DTSTART', event.interval.start, event.allDay),
+    dateLine('DTEND', event.interval.end, event.allDay),
+    ...(event.rrule ? [`RRULE:${formatRRule(event.rrule)}`] : []),
+    ...(event.exdates ?? []).map((z) => dateLine('EXDATE', z, event.allDay)),
+    ...(event.rdates ?? []).map((z) => dateLine('RDATE', z, event.allDay)),
+    ...texts
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `${name}:${escapeText(value ?? '')}`),
+    'END:VEVENT',
+  ];
+};
+
+/* The calendar as iCalendar text (CRLF line ends, folded), with a
+ * VTIMEZONE for every IANA zone the events use */
+export const toICS = (
+  calendar: ICalendar,
+  options: ICSOptions = {}
+): string => {
+  const stamp = options.stamp ?? now();
+  const zoned = (
+    [] as readonly (readonly [string, readonly number[]])[]
+  ).concat(
+    ...calendar.events
+      .filter((e) => !e.allDay)
+      .map((e) => {
+        const covered = coverage(e);
+        return eventZones(e).map((name) => [name, covered] as const);
+      })
+  );
+  const zoneNames = zoned
+    .map(([name]) => name)
+    .filter((name, k, names) => names.indexOf(name) === k);
+  const timezones = zoneNames.map((name) => {
+    const ms = ([] as readonly number[]).concat(
+      ...zoned.filter(([n]) => n === name).map(([, c]) => c)
+    );
+    return vtimezone(name, Math.min(...ms), Math.max(...ms));
+  });
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${calendar.prodId ?? DEFAULT_PROD_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...([] as readonly string[]).concat(...timezones),
+    ...([] as readonly string[]).concat(
+      ...calendar.events.map((e) => vevent(e, stamp))
+    ),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
+
+/* ------------------------------------------------------------------ *
+ *  RECURRENCE
+ * ------------------------------------------------------------------ */
+const once: RecurrenceRule = function* (origin) {
+  yield origin;
+};
+
+/* the event's start times: its RRULE (or DTSTART alone) with the RDATEs
+ * added and the EXDATEs removed; iterate from `event.interval.start` */
+export const eventRule = (event: CalendarEvent): RecurrenceRule =>
+  except(event.exdates ?? [])(
+    include(event.rdates ?? [])(event.rrule ? rrule(event.rrule) : once)
+  );
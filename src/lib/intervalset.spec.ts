@@ -0,0 +1,157 @@
+import test from 'ava';
+
+import {
+  complementSet,
+  covers,
+  firstGap,
+  freeSlots,
+  intersectSets,
+  intervalSet,
+  IntervalSet,
+  subtractSets,
+  unionSets,
+} from './intervalset';
+import {
+  durations,
+  instant,
+  interval,
+  PlainDateTime,
+  toPlain,
+  toZonedPlain,
+  UTC,
+  zdt,
+  zone,
+} from './ream';
+
+const at = (iso: string, zoneName = 'UTC') => {
+  const i = instant(Date.parse(iso));
+  const tz = zone(zoneName, i);
+  return zdt(i, tz, toZonedPlain(i, tz));
+};
+
+/* an interval on 2024-01-15 between two UTC times of day */
+const hours = (from: string, to: string) =>
+  interval(at(`2024-01-15T${from}:00Z`), at(`2024-01-15T${to}:00Z`));
+
+const times = (set: IntervalSet<PlainDateTime>) =>
+  set.intervals.map((iv) =>
+    [iv.start, iv.end]
+      .map((z) => new Date(z.instant.epochMs).toISOString().slice(11, 16))
+      .join('-')
+  );
+
+test('intervalSet sorts and merges overlapping or touching intervals', (t) => {
+  const set = intervalSet([
+    hours('13:00', '14:00'),
+    hours('09:00', '10:00'),
+    hours('09:30', '11:00'),
+    hours('11:00', '11:30'),
+    hours('12:00', '12:00'),
+  ]);
+
+  t.deepEqual(times(set), ['09:00-11:30', '13:00-14:00']);
+  t.true(set.intervals.every((iv) => iv.bounds === '[)'));
+});
+
+test('intervalSet normalizes large busy lists', (t) => {
+  const base = Date.parse('2024-01-15T00:00:00Z');
+  const minutes = (from: number, to: number) =>
+    interval(
+      zdt(instant(base + from * 60_000), UTC, toPlain(instant(0))),
+      zdt(instant(base + to * 60_000), UTC, toPlain(instant(0)))
+    );
+  // an hour apart: 00-30 and 20-40 overlap, so each hour holds 00-40
+  const busy = Array.from({ length: 50_000 }, (_, k) => [
+    minutes(k * 60 + 20, k * 60 + 40),
+    minutes(k * 60, k * 60 + 30),
+  ]).reverse();
+  const set = intervalSet(([] as (typeof busy)[0]).concat(...busy));
+
+  t.is(set.intervals.length, 50_000);
+  t.true(
+    set.intervals.every(
+      (iv, k) =>
+        iv.start.instant.epochMs === base + k * 3_600_000 &&
+        iv.end.instant.epochMs === base + k * 3_600_000 + 2_400_000
+    )
+  );
+});
+
+test('union, intersection and subtraction of sets', (t) => {
+  const a = intervalSet([hours('09:00', '11:00'), hours('13:00', '17:00')]);
+  const b = intervalSet([hours('10:00', '14:00'), hours('16:00', '16:30')]);
+
+  t.deepEqual(times(unionSets(a, b)), ['09:00-17:00']);
+  t.deepEqual(times(intersectSets(a, b)), [
+    '10:00-11:00',
+    '13:00-14:00',
+    '16:00-16:30',
+  ]);
+  t.deepEqual(times(subtractSets(a, b)), [
+    '09:00-10:00',
+    '14:00-16:00',
+    '16:30-17:00',
+  ]);
+  t.deepEqual(times(subtractSets(intervalSet([]), b)), []);
+});
+
+test('complementSet is taken within a bounding interval', (t) => {
+  const busy = intervalSet([hours('08:00', '10:00'), hours('12:00', '13:00')]);
+
+  t.deepEqual(times(complementSet(hours('09:00', '17:00'))(busy)), [
+    '10:00-12:00',
+    '13:00-17:00',
+  ]);
+  t.deepEqual(times(complementSet(hours('12:15', '12:45'))(busy)), []);
+  t.deepEqual(times(complementSet(hours('14:00', '15:00'))(busy)), [
+    '14:00-15:00',
+  ]);
+});
+
+test('covers finds the member holding an instant', (t) => {
+  const busy = intervalSet([hours('09:00', '10:00'), hours('12:00', '13:00')]);
+  const instantAt = (time: string) =>
+    instant(Date.parse(`2024-01-15T${time}:00Z`));
+
+  t.true(covers(busy, instantAt('09:00')));
+  t.true(covers(busy, instantAt('12:59')));
+  t.false(covers(busy, instantAt('10:00')));
+  t.false(covers(busy, instantAt('08:59')));
+  t.false(covers(intervalSet([]), instantAt('09:00')));
+});
+
+test('firstGap finds the first free stretch long enough', (t) => {
+  const busy = intervalSet([
+    hours('09:00', '09:45'),
+    hours('10:00', '11:00'),
+    hours('11:20', '12:00'),
+  ]);
+  const gap = firstGap(durations.minutes(30), hours('09:30', '18:00'))(busy);
+
+  t.deepEqual(gap && times(intervalSet([gap])), ['12:00-18:00']);
+  t.is(firstGap(durations.hours(7), hours('09:30', '18:00'))(busy), undefined);
+});
+
+test('freeSlots combines busy calendars kept in different zones', (t) => {
+  // 09:00-10:00 in New York is 14:00-15:00 UTC
+  const newYork = intervalSet([
+    interval(
+      at('2024-01-15T09:00:00-05:00', 'America/New_York'),
+      at('2024-01-15T10:00:00-05:00', 'America/New_York')
+    ),
+  ]);
+  const london = intervalSet([
+    interval(
+      at('2024-01-15T13:00:00Z', 'Europe/London'),
+      at('2024-01-15T14:30:00Z', 'Europe/London')
+    ),
+  ]);
+  const slots = freeSlots(
+    hours('12:00', '17:00'),
+    durations.minutes(45)
+  )([newYork, london]);
+
+  t.deepEqual(times(slots), ['12:00-13:00', '15:00-17:00']);
+  t.is(slots.intervals[1].start.zone.name, 'America/New_York');
+  t.is(slots.intervals[1].start.payload.h, 10);
+});
@@ -0,0 +1,162 @@
+/*********************************************************************
+ *  INTERVAL  SETS
+ *  Unions of intervals kept sorted, disjoint and merged, for free/busy
+ *  and availability work. Members are read as half-open on the time
+ *  line, so endpoints from different zones mix freely; every endpoint
+ *  keeps the zone it came with.
+ ********************************************************************/
+
+import { Duration, Instant, Interval } from './ream';
+
+export type IntervalSet<A> = Readonly<{
+  /* sorted by start, non-empty, neither overlapping nor touching */
+  readonly intervals: readonly Interval<A>[];
+}>;
+
+const startMs = <A>(iv: Interval<A>): number => iv.start.instant.epochMs;
+const endMs = <A>(iv: Interval<A>): number => iv.end.instant.epochMs;
+
+const flatten = <A>(xss: readonly (readonly A[])[]): readonly A[] =>
+  ([] as readonly A[]).concat(...xss);
+
+const span = <A>(start: Interval<A>, end: Interval<A>): Interval<A> => ({
+  start: start.start,
+  end: end.end,
+  bounds: '[)',
+});
+
+/* index of the last interval starting at or before `ms` (-1 if none) */
+const lastStartingBy = <A>(
+  xs: readonly Interval<A>[],
+  ms: number,
+  lo = 0,
+  hi = xs.length
+): number => {
+  if (lo >= hi) return lo - 1;
+  const mid = Math.floor((lo + hi) / 2);
+  return startMs(xs[mid]) <= ms
+    ? lastStartingBy(xs, ms, mid + 1, hi)
+    : lastStartingBy(xs, ms, lo, mid);
+};
+
+/* the members that reach into [from, to) */
+const within = <A>(
+  set: IntervalSet<A>,
+  from: number,
+  to: number
+): readonly Interval<A>[] => {
+  const first = lastStartingBy(set.intervals, from);
+  const last = lastStartingBy(set.intervals, to - 1);
+  return set.intervals
+    .slice(Math.max(0, first), last + 1)
+    .filter((iv) => endMs(iv) > from);
+};
+
+/* the sorted intervals xs[lo .. hi) merged, each half first: the right
+ * half's members reaching the left half's last one fold into it. Every
+ * level copies n intervals in all, so merging stays O(n log n) */
+const mergeSorted = <A>(
+  xs: readonly Interval<A>[],
+  lo = 0,
+  hi = xs.length
+): readonly Interval<A>[] => {
+  if (hi - lo <= 1)
+    return xs.slice(lo, hi).map((iv) => ({ ...iv, bounds: '[)' as const }));
+  const mid = Math.floor((lo + hi) / 2);
+  const left = mergeSorted(xs, lo, mid);
+  const right = mergeSorted(xs, mid, hi);
+  const last = left[left.length - 1];
+  const reached = right.filter((iv) => startMs(iv) <= endMs(last)).length;
+  if (reached === 0) return left.concat(right);
+  const reach = right[reached - 1];
+  return [
+    ...left.slice(0, -1),
+    endMs(reach) > endMs(last) ? span(last, reach) : last,
+    ...right.slice(reached),
+  ];
+};
+
+/* normalize: drop empty intervals, sort, and merge overlapping or
+ * touching ones */
+export const intervalSet = <A>(
+  intervals: readonly Interval<A>[]
+): IntervalSet<A> => ({
+  intervals: mergeSorted(
+    intervals
+      .filter((iv) => startMs(iv) < endMs(iv))
+      .sort((a, b) => startMs(a) - startMs(b))
+  ),
+});
+
+export const unionSets = <A>(
+  a: IntervalSet<A>,
+  b: IntervalSet<A>
+): IntervalSet<A> => intervalSet([...a.intervals, ...b.intervals]);
+
+/* the instants in both */
+export const intersectSets = <A>(
+  a: IntervalSet<A>,
+  b: IntervalSet<A>
+): IntervalSet<A> => ({
+  intervals: flatten(
+    a.intervals.map((x) =>
+      within(b, startMs(x), endMs(x)).map((y) => ({
+        start: startMs(y) > startMs(x) ? y.start : x.start,
+        end: endMs(y) < endMs(x) ? y.end : x.end,
+        bounds: '[)' as const,
+      }))
+    )
+  ),
+});
+
+/* the parts of `bounding` not in the set */
+export const complementSet =
+  <A>(bounding: Interval<A>) =>
+  (set: IntervalSet<A>): IntervalSet<A> => {
+    const busy = within(set, startMs(bounding), endMs(bounding));
+    const starts = [bounding.start, ...busy.map((iv) => iv.end)];
+    const ends = [...busy.map((iv) => iv.start), bounding.end];
+    return {
+      intervals: starts
+        .map((start, k) => ({ start, end: ends[k], bounds: '[)' as const }))
+        .filter((iv) => startMs(iv) < endMs(iv)),
+    };
+  };
+
+/* the instants in `a` but not in `b` */
+export const subtractSets = <A>(
+  a: IntervalSet<A>,
+  b: IntervalSet<A>
+): IntervalSet<A> =>
+  a.intervals.length === 0
+    ? a
+    : intersectSets(
+        a,
+        complementSet(
+          span(a.intervals[0], a.intervals[a.intervals.length - 1])
+        )(b)
+      );
+
+/* whether some member holds `i` */
+export const covers = <A>(set: IntervalSet<A>, i: Instant): boolean => {
+  const k = lastStartingBy(set.intervals, i.epochMs);
+  return k >= 0 && i.epochMs < endMs(set.intervals[k]);
+};
+
+/* free stretches of `bounding` at least `minimum` long, given everyone's
+ * busy time */
+export const freeSlots =
+  <A>(bounding: Interval<A>, minimum: Duration = { ms: 0 }) =>
+  (busy: readonly IntervalSet<A>[]): IntervalSet<A> => ({
+    intervals: complementSet(bounding)(
+      intervalSet(flatten(busy.map((set) => set.intervals)))
+    ).intervals.filter((iv) => endMs(iv) - startMs(iv) >= minimum.ms),
+  });
+
+/* the earliest free stretch of `bounding` at least `minimum` long */
+export const firstGap =
+  <A>(minimum: Duration, bounding: Interval<A>) =>
+  (set: IntervalSet<A>): Interval<A> | undefined =>
+    complementSet(bounding)(set).intervals.find(
+      (iv) => endMs(iv) - startMs(iv) >= minimum.ms
+    );
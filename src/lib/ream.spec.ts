@@ -1,48 +1,124 @@
 import test from 'ava';
 
+import { businessPlugin } from './business';
 import {
+  abs,
   add,
   addDays,
   addDuration,
   addMonths,
+  addPeriod,
   addYears,
-  businessPlugin,
+  addZonedPeriod,
+  allenRelation,
+  balance,
+  canonicalTimezone,
+  compareDurations,
+  contains,
   dateTime,
   dayOfWeek,
+  dayOfYear,
+  daysInCalendarMonth,
   daysInMonth,
+  difference,
+  Disambiguation,
+  divide,
+  divideEqually,
   duration,
   durationOfInterval,
   durations,
+  during,
+  endOf,
+  err,
   every,
   everyDay,
   everyMonth,
+  everyWeek,
   extend,
+  fixedZone,
   format,
+  formatOffset,
+  formatPeriod,
   formatToken,
+  fromCalendarDate,
+  fromOrdinalDate,
   fromPlain,
+  fromWeekDate,
+  fromZonedPlain,
+  gap,
   getAvailableTimezones,
+  getOrElse,
   getTimezoneInfo,
   getTimezoneOffset,
+  getTransitions,
   humanize,
+  includes,
   instant,
+  intersection,
   interval,
+  Interval,
+  IntervalBounds,
+  isCalendarLeapYear,
   isDST,
   isLeap,
+  ISO_WEEK,
+  isoWeek,
+  isoWeekYear,
   isValidTimezone,
+  localeWeekRule,
+  mapInterval,
+  maxDuration,
+  meets,
   MILLIS,
+  minDuration,
+  monthsInCalendarYear,
+  multiply,
+  negate,
+  nextTransition,
   now,
   offset,
+  ok,
+  overlaps,
+  parse,
   parseISO,
+  parsePeriod,
+  period,
+  PlainDateTime,
+  previousTransition,
+  quarter,
   ReamDate,
+  recurrence,
+  RecurrenceRule,
   relativePlugin,
+  resolveWallClock,
+  roundDuration,
+  RoundingMode,
+  splitBy,
+  startOf,
+  StartOfUnit,
   startOfWeek,
   sub,
+  toCalendarDate,
   toPlain,
+  total,
   toUTC,
   toZone,
+  toZonedPlain,
+  tryInterval,
+  tryParse,
+  tryParseISO,
+  tryParsePeriod,
+  tryZone,
+  tzOffset,
+  union,
   UTC,
+  WallClockResolution,
+  weekOfYear,
+  weeksInYear,
+  weekYear,
   withZone,
   withZoneName,
+  ZDT,
   zdt,
   zero,
   zfmap,
@@ -167,6 +243,105 @@ test('parseISO returns epoch on invalid string', (t) => {
   t.is(result.ms, 0);
 });
 
+test('tryParseISO accepts offsets and fractional seconds', (t) => {
+  t.deepEqual(
+    tryParseISO('2023-07-15T10:30:45.5-04:00'),
+    ok(dateTime(2023, 7, 15, 14, 30, 45, 500))
+  );
+  t.deepEqual(tryParseISO('2023-07-15'), ok(dateTime(2023, 7, 15, 0, 0, 0, 0)));
+  t.deepEqual(
+    tryParseISO('2023-07-15 23:30+0530'),
+    ok(dateTime(2023, 7, 15, 18, 0, 0, 0))
+  );
+});
+
+test('tryParseISO reads week and ordinal dates', (t) => {
+  t.deepEqual(tryParseISO('2024-W05-3'), ok(dateTime(2024, 1, 31, 0, 0, 0, 0)));
+  t.deepEqual(tryParseISO('2025-W01'), ok(dateTime(2024, 12, 30, 0, 0, 0, 0)));
+  t.deepEqual(tryParseISO('2024-035'), ok(dateTime(2024, 2, 4, 0, 0, 0, 0)));
+  t.deepEqual(
+    tryParseISO('2024-035T10:30+02:00'),
+    ok(dateTime(2024, 2, 4, 8, 30, 0, 0))
+  );
+  t.deepEqual(tryParseISO('2021-W53-1'), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'week', value: 53 },
+  });
+  t.deepEqual(tryParseISO('2023-366'), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'dayOfYear', value: 366 },
+  });
+  t.deepEqual(tryParseISO('2024-W05-3T10:30x'), {
+    ok: false,
+    error: { kind: 'malformed', input: '2024-W05-3T10:30x', position: 16 },
+  });
+});
+
+test('tryParseISO reports where and why parsing failed', (t) => {
+  t.deepEqual(tryParseISO('invalid-date'), {
+    ok: false,
+    error: { kind: 'malformed', input: 'invalid-date', position: 0 },
+  });
+  t.deepEqual(tryParseISO('2023-07-15T10:30x'), {
+    ok: false,
+    error: { kind: 'malformed', input: '2023-07-15T10:30x', position: 16 },
+  });
+  t.deepEqual(tryParseISO('2023-07-15T10:30+5'), {
+    ok: false,
+    error: {
+      kind: 'malformed-offset',
+      input: '2023-07-15T10:30+5',
+      position: 16,
+    },
+  });
+  t.deepEqual(tryParseISO('2023-02-30'), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'd', value: 30 },
+  });
+  t.deepEqual(tryParseISO('2023-07-15T10:30+25:00'), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'offset', value: 1500 },
+  });
+});
+
+test('tryParse reports mismatches, ranges and unknown zones', (t) => {
+  const p = 'DD/MM/YYYY HH:mm';
+
+  t.true(tryParse('15/07/2023 14:30', p).ok);
+  t.deepEqual(tryParse('15-07-2023 14:30', p), {
+    ok: false,
+    error: { kind: 'malformed', input: '15-07-2023 14:30', position: 2 },
+  });
+  t.deepEqual(tryParse('15/13/2023 14:30', p), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'm', value: 13 },
+  });
+  t.deepEqual(tryParse('15/07/2023 14:30', p, 'en', 'Mars/Olympus'), {
+    ok: false,
+    error: { kind: 'unknown-zone', zone: 'Mars/Olympus' },
+  });
+  t.deepEqual(tryParse('10:30 +5', 'HH:mm Z'), {
+    ok: false,
+    error: { kind: 'malformed-offset', input: '10:30 +5', position: 6 },
+  });
+});
+
+test('tryZone reports unknown zones instead of using UTC', (t) => {
+  const i = instant(Date.UTC(2023, 0, 15, 12, 0, 0));
+  const ny = tryZone('America/New_York', i);
+
+  t.true(ny.ok && ny.value.offsetMinutes === -300);
+  t.deepEqual(tryZone('Unknown/Timezone', i), {
+    ok: false,
+    error: { kind: 'unknown-zone', zone: 'Unknown/Timezone' },
+  });
+});
+
+test('getOrElse unwraps results', (t) => {
+  t.is(getOrElse(0)(ok(5)), 5);
+  t.is(getOrElse(0)(err('boom')), 0);
+});
+
 test('addDuration adds duration to instant', (t) => {
   const i = instant(1000);
   const d = duration(500);
@@ -208,6 +383,164 @@ test('durations factory functions work correctly', (t) => {
   t.is(durations.weeks(1).ms, 604800000);
 });
 
+test('durations scale, divide and compare', (t) => {
+  const h = durations.hours(1);
+
+  t.is(negate(h).ms, -3600000);
+  t.is(negate(zero).ms, 0);
+  t.is(abs(negate(h)).ms, 3600000);
+  t.is(multiply(h, 1.5).ms, 5400000);
+  t.is(divide(h, 4).ms, 900000);
+  t.is(divide(durations.days(1), h), 24);
+  t.is(compareDurations(h, durations.minutes(60)), 0);
+  t.is(compareDurations(h, durations.minutes(61)), -1);
+  t.deepEqual(
+    [durations.minutes(90), h, durations.seconds(1)]
+      .sort(compareDurations)
+      .map((d) => d.ms),
+    [1000, 3600000, 5400000]
+  );
+  t.is(minDuration(h, durations.minutes(30)).ms, 1800000);
+  t.is(maxDuration(h, durations.minutes(30)).ms, 3600000);
+  t.is(total(durations.minutes(90), 'hours'), 1.5);
+  t.is(total(durations.weeks(2), 'days'), 14);
+});
+
+test('balance splits a duration between the largest and smallest units', (t) => {
+  const d = add(durations.days(2), duration(3 * 3600000 + 4 * 60000 + 5006));
+
+  t.deepEqual(
+    balance(d),
+    period({ days: 2, hours: 3, minutes: 4, seconds: 5, milliseconds: 6 })
+  );
+  t.deepEqual(
+    balance(d, 'hours', 'minutes'),
+    period({ hours: 51, minutes: 4 })
+  );
+  t.deepEqual(
+    balance(negate(durations.minutes(90)), 'hours'),
+    period({ hours: -1, minutes: -30 })
+  );
+  t.deepEqual(
+    balance(durations.days(15), 'weeks', 'days'),
+    period({
+      weeks: 2,
+      days: 1,
+    })
+  );
+});
+
+test('roundDuration rounds to an increment with a rounding mode', (t) => {
+  const step = durations.minutes(15);
+  const at = (minutes: number, mode?: RoundingMode) =>
+    roundDuration(durations.minutes(minutes), step, mode).ms / 60000;
+
+  t.is(at(7), 0);
+  t.is(at(7.5), 15);
+  t.is(at(-7.5), -15);
+  t.is(at(7.5, 'halfTrunc'), 0);
+  t.is(at(7.5, 'halfEven'), 0);
+  t.is(at(22.5, 'halfEven'), 30);
+  t.is(at(-7.5, 'halfCeil'), 0);
+  t.is(at(-7.5, 'halfFloor'), -15);
+  t.is(at(1, 'ceil'), 15);
+  t.is(at(-1, 'ceil'), 0);
+  t.is(at(14, 'floor'), 0);
+  t.is(at(-1, 'expand'), -15);
+  t.is(at(-14, 'trunc'), 0);
+});
+
+/* ------------------------------------------------------------------ *
+ *  PERIOD TESTS
+ * ------------------------------------------------------------------ */
+
+test('tryParsePeriod reads ISO 8601 durations', (t) => {
+  t.deepEqual(
+    tryParsePeriod('P1Y2M10DT2H30M'),
+    ok(period({ years: 1, months: 2, days: 10, hours: 2, minutes: 30 }))
+  );
+  t.deepEqual(tryParsePeriod('P2W'), ok(period({ weeks: 2 })));
+  t.deepEqual(
+    tryParsePeriod('PT1,25S'),
+    ok(period({ seconds: 1, milliseconds: 250 }))
+  );
+  t.deepEqual(tryParsePeriod('-P1M2D'), ok(period({ months: -1, days: -2 })));
+  t.deepEqual(tryParsePeriod('P1M-1D'), ok(period({ months: 1, days: -1 })));
+  t.deepEqual(tryParsePeriod('P1Y2X'), {
+    ok: false,
+    error: { kind: 'malformed', input: 'P1Y2X', position: 3 },
+  });
+  t.deepEqual(tryParsePeriod('P1DT'), {
+    ok: false,
+    error: { kind: 'malformed', input: 'P1DT', position: 4 },
+  });
+  t.deepEqual(parsePeriod('P'), period());
+});
+
+test('formatPeriod round-trips tryParsePeriod', (t) => {
+  const texts = ['P1Y2M10DT2H30M', 'P2W', 'PT0.5S', '-P1DT1.25S', 'P1M-1D'];
+
+  texts.forEach((text) => t.is(formatPeriod(parsePeriod(text)), text));
+  t.is(formatPeriod(period()), 'PT0S');
+  t.is(formatPeriod(period({ minutes: 90 })), 'PT90M');
+});
+
+test('addPeriod clamps to the month end and adds days on the calendar', (t) => {
+  const month = period({ months: 1 });
+
+  t.deepEqual(addPeriod(month)({ y: 2024, m: 1, d: 31 }), {
+    y: 2024,
+    m: 2,
+    d: 29,
+  });
+  // years and months together: Feb 29 + 1Y1M is March 29
+  t.deepEqual(addPeriod(parsePeriod('P1Y1M'))({ y: 2024, m: 2, d: 29 }), {
+    y: 2025,
+    m: 3,
+    d: 29,
+  });
+  t.deepEqual(
+    addPeriod(parsePeriod('P1M2DT3H'))(dateTime(2024, 1, 31, 22, 0, 0, 0)),
+    dateTime(2024, 3, 3, 1, 0, 0, 0)
+  );
+  // a PlainDate takes whole days of the exact part
+  t.deepEqual(addPeriod(parsePeriod('PT36H'))({ y: 2024, m: 1, d: 1 }), {
+    y: 2024,
+    m: 1,
+    d: 2,
+  });
+  t.deepEqual(addPeriod(month, 'persian')({ y: 2024, m: 9, d: 21 }), {
+    y: 2024,
+    m: 10,
+    d: 21,
+  });
+});
+
+test('addZonedPeriod keeps the wall clock across DST for days', (t) => {
+  const start = withZoneName('America/New_York')(
+    dateTime(2024, 3, 9, 12, 0, 0, 0)
+  );
+  const day = addZonedPeriod(period({ days: 1 }))(start);
+  const hours = addZonedPeriod(period({ hours: 24 }))(start);
+
+  t.deepEqual(day.payload, dateTime(2024, 3, 10, 12, 0, 0, 0));
+  t.is(day.instant.epochMs - start.instant.epochMs, 23 * MILLIS.HOUR);
+  t.is(day.zone.offsetMinutes, -240);
+  t.deepEqual(hours.payload, dateTime(2024, 3, 10, 13, 0, 0, 0));
+  // a wall clock the change skips is disambiguated
+  const gap = withZoneName('America/New_York')(
+    dateTime(2024, 3, 9, 2, 30, 0, 0)
+  );
+  t.deepEqual(
+    addZonedPeriod(period({ days: 1 }))(gap).payload,
+    dateTime(2024, 3, 10, 3, 30, 0, 0)
+  );
+  t.deepEqual(
+    addZonedPeriod(period({ days: 1 }), 'earlier')(gap).payload,
+    dateTime(2024, 3, 10, 1, 30, 0, 0)
+  );
+});
+
 /* ------------------------------------------------------------------ *
  *  FORMATTING TESTS
  * ------------------------------------------------------------------ */
@@ -238,6 +571,173 @@ test('format function replaces tokens correctly', (t) => {
   t.is(result, '2023-07-15 14:30:45');
 });
 
+test('formatOffset renders signed offsets', (t) => {
+  t.is(formatOffset(0), '+00:00');
+  t.is(formatOffset(330), '+05:30');
+  t.is(formatOffset(-240, ''), '-0400');
+});
+
+test('format renders real offsets for the given zone', (t) => {
+  const i = instant(Date.UTC(2023, 6, 15, 14, 30, 0, 0));
+  const ny = zone('America/New_York', i);
+  const dt = toZonedPlain(i, ny);
+
+  t.is(format('HH:mm Z', dt, 'en', ny), '10:30 -04:00');
+  t.is(format('ZZ X XXX', dt, 'en', ny), '-0400 -04 -04:00');
+  t.is(format('X XXX', dt, 'en', UTC), 'Z Z');
+  t.is(format('X', dt, 'en', zone('Asia/Kolkata', i)), '+0530');
+});
+
+test('format renders zone names and the IANA id', (t) => {
+  const i = instant(Date.UTC(2023, 0, 15, 12, 0, 0, 0));
+  const nyZdt = zdt(i, zone('America/New_York', i), toPlain(i));
+
+  t.is(format('z', nyZdt), 'EST');
+  t.is(format('zzzz', nyZdt), 'Eastern Standard Time');
+  t.is(format('VV', nyZdt), 'America/New_York');
+});
+
+test('format renders week, ordinal and quarter tokens', (t) => {
+  const dt = dateTime(2024, 12, 30, 9, 0, 0, 0);
+
+  t.is(format('GGGG-[W]WW-E', dt), '2025-W01-1');
+  t.is(format('YYYY-DDD [Q]Q', dt), '2024-365 Q4');
+  t.is(format('W DDD', dateTime(2024, 1, 5, 0, 0, 0, 0)), '1 005');
+  // locale weeks: Sunday-start US weeks, ISO weeks in Germany
+  t.is(
+    format('gggg-ww', dateTime(2024, 12, 29, 0, 0, 0, 0), 'en-US'),
+    '2025-01'
+  );
+  t.is(format('gggg-ww', dateTime(2024, 12, 29, 0, 0, 0, 0), 'de'), '2024-52');
+});
+
+test('format keeps UTC placeholders when no zone is given', (t) => {
+  const dt = dateTime(2023, 7, 15, 14, 30, 45, 123);
+  t.is(format('Z ZZ', dt), '+00:00 +0000');
+});
+
+/* ------------------------------------------------------------------ *
+ *  PARSING TESTS
+ * ------------------------------------------------------------------ */
+
+test('parse reads a fixed non-ISO layout', (t) => {
+  const parsed = parse('15/07/2023 02:30 PM', 'DD/MM/YYYY hh:mm A');
+
+  t.deepEqual(parsed.payload, dateTime(2023, 7, 15, 14, 30, 0, 0));
+  t.is(parsed.instant.epochMs, Date.UTC(2023, 6, 15, 14, 30));
+  t.is(parsed.zone.name, 'UTC');
+});
+
+test('parse round-trips format output', (t) => {
+  const dt = dateTime(2023, 12, 3, 0, 5, 9, 87);
+  const patterns = [
+    'YYYY-MM-DDTHH:mm:ss.SSS',
+    'dddd, MMMM D, YYYY h:mm:ss.SSS a',
+    'ddd D MMM YY H:m:s.SSS',
+  ];
+
+  patterns.forEach((p) => t.deepEqual(parse(format(p, dt), p).payload, dt));
+});
+
+test('parse understands localized month and weekday names', (t) => {
+  const dt = dateTime(2024, 3, 5, 9, 0, 0, 0);
+  const p = 'dddd D MMMM YYYY HH:mm';
+  const german = format(p, dt, 'de');
+
+  t.true(german.includes('März'));
+  t.deepEqual(parse(german, p, 'de').payload, dt);
+  t.deepEqual(parse('5 mars 2024', 'D MMMM YYYY', 'fr').payload, {
+    ...dt,
+    h: 0,
+  });
+});
+
+test('parse reads week dates and ordinal dates', (t) => {
+  t.deepEqual(
+    parse('2025-W01-1', 'GGGG-[W]WW-E').payload,
+    dateTime(2024, 12, 30, 0, 0, 0, 0)
+  );
+  t.deepEqual(
+    parse('2024-035 10:00', 'YYYY-DDD HH:mm').payload,
+    dateTime(2024, 2, 4, 10, 0, 0, 0)
+  );
+  // a US week starts on Sunday
+  t.deepEqual(
+    parse('2025 w1', 'gggg [w]w', 'en-US').payload,
+    dateTime(2024, 12, 29, 0, 0, 0, 0)
+  );
+  t.deepEqual(tryParse('2021-W53', 'GGGG-[W]WW'), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'week', value: 53 },
+  });
+});
+
+test('parse applies offsets and zones', (t) => {
+  const withOffset = parse('2023-07-15 10:30 -04:00', 'YYYY-MM-DD HH:mm Z');
+  t.is(withOffset.instant.epochMs, Date.UTC(2023, 6, 15, 14, 30));
+  t.is(withOffset.zone.offsetMinutes, -240);
+
+  const inZone = parse(
+    '2023-07-15 10:30',
+    'YYYY-MM-DD HH:mm',
+    'en',
+    'America/New_York'
+  );
+  t.is(inZone.instant.epochMs, Date.UTC(2023, 6, 15, 14, 30));
+  t.is(inZone.zone.name, 'America/New_York');
+
+  const withId = parse('2023-01-15 09:00 Asia/Tokyo', 'YYYY-MM-DD HH:mm VV');
+  t.is(withId.instant.epochMs, Date.UTC(2023, 0, 15, 0, 0));
+  t.is(withId.zone.name, 'Asia/Tokyo');
+
+  // an offset wins over a default zone, read on that zone's wall clock
+  const shown = parse(
+    '2024-07-01 12:00 +00:00',
+    'YYYY-MM-DD HH:mm Z',
+    'en',
+    'America/New_York'
+  );
+  t.is(shown.instant.epochMs, Date.UTC(2024, 6, 1, 12, 0));
+  t.deepEqual(shown.payload, dateTime(2024, 7, 1, 8, 0, 0, 0));
+  t.is(format('YYYY-MM-DDTHH:mmZ', shown), '2024-07-01T08:00-04:00');
+});
+
+test('tryParse checks an offset against the zone id in the input', (t) => {
+  const p = 'YYYY-MM-DD HH:mm Z VV';
+  t.deepEqual(tryParse('2024-07-01 12:00 +00:00 America/New_York', p), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'offset', value: 0 },
+  });
+  const both = tryParse('2024-07-01 08:00 -04:00 America/New_York', p);
+  t.true(both.ok);
+  t.is(both.ok && both.value.instant.epochMs, Date.UTC(2024, 6, 1, 12, 0));
+  t.deepEqual(both.ok && both.value.payload, dateTime(2024, 7, 1, 8, 0, 0, 0));
+  // the later of two readings in an overlap, told apart by the offset
+  const fallBack = tryParse('2024-11-03 01:30 -05:00 America/New_York', p);
+  t.is(
+    fallBack.ok && fallBack.value.instant.epochMs,
+    Date.UTC(2024, 10, 3, 6, 30)
+  );
+});
+
+test('parse round-trips zoned format output', (t) => {
+  const rd = ream('2023-07-15T14:30:45.123Z').tz('Asia/Kolkata');
+  const p = 'YYYY-MM-DDTHH:mm:ss.SSSZ';
+  const parsed = parse(rd.format(p), p);
+
+  t.is(parsed.instant.epochMs, rd.valueOf());
+  t.is(parsed.zone.offsetMinutes, 330);
+});
+
+test('parse returns epoch on mismatched or out-of-range input', (t) => {
+  const epoch = dateTime(1970, 1, 1, 0, 0, 0, 0);
+
+  t.deepEqual(parse('2023-07-15', 'DD/MM/YYYY').payload, epoch);
+  t.deepEqual(parse('31/02/2023', 'DD/MM/YYYY').payload, epoch);
+  t.deepEqual(parse('13:00 PM', 'hh:mm A').payload, epoch);
+  t.is(parse('garbage', 'YYYY').instant.epochMs, 0);
+});
+
 /* ------------------------------------------------------------------ *
  *  DAY OF WEEK TESTS
  * ------------------------------------------------------------------ */
@@ -257,6 +757,70 @@ test('startOfWeek returns correct start', (t) => {
   t.is(start.y, 2023);
 });
 
+test('startOf and endOf snap wall-clock readings to unit boundaries', (t) => {
+  const dt = { y: 2024, m: 5, d: 15, h: 14, min: 30, s: 45, ms: 123 };
+
+  t.deepEqual(startOf('quarter')(dt), {
+    y: 2024,
+    m: 4,
+    d: 1,
+    h: 0,
+    min: 0,
+    s: 0,
+    ms: 0,
+  });
+  t.deepEqual(endOf('month')(dt), {
+    y: 2024,
+    m: 5,
+    d: 31,
+    h: 23,
+    min: 59,
+    s: 59,
+    ms: 999,
+  });
+  t.is(startOf('isoWeek')(dt).d, 13);
+  t.is(startOf('week', 7)(dt).d, 12);
+  t.is(endOf('week', 7)(dt).d, 18);
+  t.deepEqual(startOf('hour')(dt), { ...dt, min: 0, s: 0, ms: 0 });
+});
+
+test('isoWeek and isoWeekYear follow ISO 8601 at year boundaries', (t) => {
+  // 2021-01-03 (Sunday) is in week 53 of 2020
+  t.is(isoWeek({ y: 2021, m: 1, d: 3 }), 53);
+  t.is(isoWeekYear({ y: 2021, m: 1, d: 3 }), 2020);
+  // 2024-12-30 (Monday) starts week 1 of 2025
+  t.is(isoWeek({ y: 2024, m: 12, d: 30 }), 1);
+  t.is(isoWeekYear({ y: 2024, m: 12, d: 30 }), 2025);
+  t.is(isoWeek({ y: 2024, m: 1, d: 31 }), 5);
+  t.is(weeksInYear(2020), 53);
+  t.is(weeksInYear(2021), 52);
+  t.deepEqual(fromWeekDate(2024, 5, 3), { y: 2024, m: 1, d: 31 });
+  t.deepEqual(fromWeekDate(2025, 1), { y: 2024, m: 12, d: 30 });
+});
+
+test('dayOfYear, quarter and fromOrdinalDate', (t) => {
+  t.is(dayOfYear({ y: 2024, m: 2, d: 4 }), 35);
+  t.is(dayOfYear({ y: 2024, m: 12, d: 31 }), 366);
+  t.is(quarter({ y: 2024, m: 3, d: 31 }), 1);
+  t.is(quarter({ y: 2024, m: 10, d: 1 }), 4);
+  t.deepEqual(fromOrdinalDate(2024, 35), { y: 2024, m: 2, d: 4 });
+  t.deepEqual(fromOrdinalDate(2023, 366), { y: 2024, m: 1, d: 1 });
+});
+
+test('locale week rules set the first day and the first week', (t) => {
+  const us = localeWeekRule('en-US');
+  const sunday = { y: 2024, m: 12, d: 29 };
+
+  t.deepEqual(us, { firstDay: 7, minDays: 1 });
+  t.deepEqual(localeWeekRule('de'), ISO_WEEK);
+  // the week holding January 1st is week 1 in the US
+  t.is(weekOfYear(sunday, us), 1);
+  t.is(weekYear(sunday, us), 2025);
+  t.is(weekOfYear(sunday), 52);
+  t.is(weekYear(sunday), 2024);
+  t.deepEqual(fromWeekDate(2025, 1, 7, us), sunday);
+});
+
 /* ------------------------------------------------------------------ *
  *  CALENDAR ARITHMETIC TESTS
  * ------------------------------------------------------------------ */
@@ -293,6 +857,316 @@ test('addDays works correctly', (t) => {
   t.is(result.y, 2023);
 });
 
+/* ------------------------------------------------------------------ *
+ *  CALENDAR SYSTEM TESTS
+ * ------------------------------------------------------------------ */
+
+test('toCalendarDate converts to the Persian calendar', (t) => {
+  const persian = toCalendarDate('persian');
+
+  t.deepEqual(persian({ y: 2024, m: 3, d: 20 }), {
+    calendar: 'persian',
+    y: 1403,
+    m: 1,
+    d: 1,
+  });
+  t.deepEqual(persian({ y: 2025, m: 3, d: 20 }), {
+    calendar: 'persian',
+    y: 1403,
+    m: 12,
+    d: 30,
+  });
+  t.deepEqual(fromCalendarDate({ calendar: 'persian', y: 1403, m: 6, d: 31 }), {
+    y: 2024,
+    m: 9,
+    d: 21,
+  });
+  // Esfand 30 does not exist in 1402, so the day is clamped
+  t.deepEqual(
+    fromCalendarDate({ calendar: 'persian', y: 1402, m: 12, d: 30 }),
+    { y: 2024, m: 3, d: 19 }
+  );
+});
+
+test('Persian leap years and month lengths', (t) => {
+  t.true(isCalendarLeapYear('persian', 1403));
+  t.false(isCalendarLeapYear('persian', 1404));
+  t.is(daysInCalendarMonth('persian', 1403, 1), 31);
+  t.is(daysInCalendarMonth('persian', 1403, 7), 30);
+  t.is(daysInCalendarMonth('persian', 1403, 12), 30);
+  t.is(daysInCalendarMonth('persian', 1402, 12), 29);
+  t.is(monthsInCalendarYear('persian', 1403), 12);
+});
+
+test('Persian dates match the runtime calendar', (t) => {
+  const intl = new Intl.DateTimeFormat('en-u-ca-persian', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  });
+  const dates = Array.from({ length: 60 }, (_, i) =>
+    addDays(i * 97)({ y: 1990, m: 1, d: 5 })
+  );
+  dates.forEach((date) => {
+    const parts = intl.formatToParts(Date.UTC(date.y, date.m - 1, date.d));
+    const field = (type: string) =>
+      Number(parts.find((part) => part.type === type)?.value);
+    const { y, m, d } = toCalendarDate('persian')(date);
+    t.deepEqual([y, m, d], [field('year'), field('month'), field('day')]);
+  });
+});
+
+test('format renders Persian dates with the calendar month names', (t) => {
+  const nowruz = dateTime(2024, 3, 20, 9, 30, 0, 0);
+
+  t.is(
+    format('dddd, D MMMM YYYY HH:mm', nowruz, 'en', UTC, 'persian'),
+    'Wednesday, 1 Farvardin 1403 09:30'
+  );
+  t.is(format('YYYY-MM-DD', nowruz, 'en', UTC, 'persian'), '1403-01-01');
+  t.is(format('YYYY-MM-DD', nowruz), '2024-03-20');
+});
+
+test('addMonths and addYears run in the Persian calendar', (t) => {
+  // Shahrivar 31 + 1 month = Mehr 30 (Mehr has 30 days)
+  t.deepEqual(addMonths(1, 'persian')({ y: 2024, m: 9, d: 21 }), {
+    y: 2024,
+    m: 10,
+    d: 21,
+  });
+  // Bahman 30, 1402 from Esfand 30, 1403
+  t.deepEqual(addMonths(-13, 'persian')({ y: 2025, m: 3, d: 20 }), {
+    y: 2024,
+    m: 2,
+    d: 19,
+  });
+  // Esfand 30, 1403 + 1 year = Esfand 29, 1404
+  t.deepEqual(addYears(1, 'persian')({ y: 2025, m: 3, d: 20 }), {
+    y: 2026,
+    m: 3,
+    d: 20,
+  });
+});
+
+test('Buddhist calendar counts years in the Buddhist Era', (t) => {
+  t.deepEqual(toCalendarDate('buddhist')({ y: 2024, m: 1, d: 15 }), {
+    calendar: 'buddhist',
+    y: 2567,
+    m: 1,
+    d: 15,
+  });
+  t.deepEqual(
+    fromCalendarDate({ calendar: 'buddhist', y: 2567, m: 2, d: 29 }),
+    { y: 2024, m: 2, d: 29 }
+  );
+  t.true(isCalendarLeapYear('buddhist', 2567));
+  t.is(daysInCalendarMonth('buddhist', 2566, 2), 28);
+});
+
+test('format renders Buddhist Era years, months and era', (t) => {
+  const dt = dateTime(2024, 1, 15, 10, 0, 0, 0);
+
+  t.is(
+    format('D MMMM YYYY G', dt, 'en', UTC, 'buddhist'),
+    '15 January 2567 BE'
+  );
+  t.is(format('DD/MM/YY', dt, 'en', UTC, 'buddhist'), '15/01/67');
+  t.is(format('YYYY G', dt), '2024 AD');
+  t.is(format('YYYY G', dt, 'en', UTC, 'persian'), '1402 AP');
+  t.is(
+    ream(Date.UTC(2024, 0, 15, 3), 'Asia/Bangkok').format(
+      'YYYY-MM-DD HH:mm',
+      'en',
+      'buddhist'
+    ),
+    '2567-01-15 10:00'
+  );
+});
+
+test('tryParse reads dates in the requested calendar', (t) => {
+  const be = tryParse(
+    '15 January 2567 BE',
+    'D MMMM YYYY G',
+    'en',
+    undefined,
+    'buddhist'
+  );
+  const shortBe = tryParse('15/01/67', 'DD/MM/YY', 'en', 'UTC', 'buddhist');
+  const persian = tryParse(
+    '1 Farvardin 1403',
+    'D MMMM YYYY',
+    'en',
+    undefined,
+    'persian'
+  );
+
+  t.true(be.ok && shortBe.ok && persian.ok);
+  if (!be.ok || !shortBe.ok || !persian.ok) return;
+  t.deepEqual(be.value.payload, dateTime(2024, 1, 15, 0, 0, 0, 0));
+  t.deepEqual(shortBe.value.payload, dateTime(2024, 1, 15, 0, 0, 0, 0));
+  t.deepEqual(persian.value.payload, dateTime(2024, 3, 20, 0, 0, 0, 0));
+  // Esfand 1402 has 29 days
+  t.deepEqual(
+    tryParse('1402-12-30', 'YYYY-MM-DD', 'en', undefined, 'persian'),
+    {
+      ok: false,
+      error: { kind: 'out-of-range', field: 'd', value: 30 },
+    }
+  );
+});
+
+test('Hijri dates match the runtime calendars', (t) => {
+  const calendarsToCheck = ['islamic-civil', 'islamic-umalqura'] as const;
+  const dates = Array.from({ length: 60 }, (_, i) =>
+    addDays(i * 211)({ y: 1960, m: 2, d: 11 })
+  );
+  calendarsToCheck.forEach((calendar) => {
+    const intl = new Intl.DateTimeFormat(`en-u-ca-${calendar}`, {
+      timeZone: 'UTC',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+    });
+    dates.forEach((date) => {
+      const parts = intl.formatToParts(Date.UTC(date.y, date.m - 1, date.d));
+      const field = (type: string) =>
+        parseInt(parts.find((part) => part.type === type)?.value ?? '', 10);
+      const { y, m, d } = toCalendarDate(calendar)(date);
+      t.deepEqual([y, m, d], [field('year'), field('month'), field('day')]);
+    });
+  });
+});
+
+test('Islamic calendars convert dates and know their month lengths', (t) => {
+  // 1 Ramadan 1445 by Umm al-Qura
+  t.deepEqual(toCalendarDate('islamic-umalqura')({ y: 2024, m: 3, d: 11 }), {
+    calendar: 'islamic-umalqura',
+    y: 1445,
+    m: 9,
+    d: 1,
+  });
+  t.deepEqual(
+    fromCalendarDate({ calendar: 'islamic-civil', y: 1446, m: 1, d: 1 }),
+    { y: 2024, m: 7, d: 8 }
+  );
+  t.true(isCalendarLeapYear('islamic-civil', 1445));
+  t.false(isCalendarLeapYear('islamic-civil', 1446));
+  t.is(daysInCalendarMonth('islamic-civil', 1445, 12), 30);
+  t.is(daysInCalendarMonth('islamic-civil', 1446, 12), 29);
+  t.is(daysInCalendarMonth('islamic-umalqura', 1445, 9), 30);
+  t.is(monthsInCalendarYear('islamic-umalqura', 1445), 12);
+});
+
+test('Hebrew calendar has a leap month and postponed new years', (t) => {
+  // Rosh Hashanah 5785
+  t.deepEqual(toCalendarDate('hebrew')({ y: 2024, m: 10, d: 3 }), {
+    calendar: 'hebrew',
+    y: 5785,
+    m: 1,
+    d: 1,
+  });
+  // Purim 5784 falls in Adar II
+  t.deepEqual(fromCalendarDate({ calendar: 'hebrew', y: 5784, m: 7, d: 14 }), {
+    y: 2024,
+    m: 3,
+    d: 24,
+  });
+  // ... and in Adar in a common year
+  t.deepEqual(fromCalendarDate({ calendar: 'hebrew', y: 5785, m: 6, d: 14 }), {
+    y: 2025,
+    m: 3,
+    d: 14,
+  });
+  t.true(isCalendarLeapYear('hebrew', 5784));
+  t.false(isCalendarLeapYear('hebrew', 5785));
+  t.is(monthsInCalendarYear('hebrew', 5784), 13);
+  t.is(monthsInCalendarYear('hebrew', 5785), 12);
+  t.is(daysInCalendarMonth('hebrew', 5784, 6), 30);
+  t.is(daysInCalendarMonth('hebrew', 5784, 7), 29);
+  // Heshvan and Kislev vary with the year's length (383 and 355 days)
+  t.is(daysInCalendarMonth('hebrew', 5784, 2), 29);
+  t.is(daysInCalendarMonth('hebrew', 5785, 2), 30);
+});
+
+test('format renders Hijri and Hebrew month names', (t) => {
+  const dt = dateTime(2024, 3, 11, 0, 0, 0, 0);
+
+  t.is(
+    format('D MMMM YYYY G', dt, 'en', UTC, 'islamic-umalqura'),
+    '1 Ramadan 1445 AH'
+  );
+  t.is(
+    format('D MMMM YYYY', dt, 'ar', UTC, 'islamic-umalqura'),
+    '1 رمضان 1445'
+  );
+  t.is(format('D MMMM YYYY G', dt, 'en', UTC, 'hebrew'), '1 Adar II 5784 AM');
+  t.is(
+    format('D MMMM', dateTime(2024, 2, 10, 0, 0, 0, 0), 'en', UTC, 'hebrew'),
+    '1 Adar I'
+  );
+  t.is(
+    format('D MMMM', dateTime(2025, 3, 1, 0, 0, 0, 0), 'en', UTC, 'hebrew'),
+    '1 Adar'
+  );
+});
+
+test('tryParse resolves Hebrew month names against the year', (t) => {
+  const parse = (text: string) =>
+    tryParse(text, 'D MMMM YYYY', 'en', undefined, 'hebrew');
+  const adarI = parse('1 Adar I 5784');
+  const adar = parse('14 Adar 5784');
+  const common = parse('14 Adar 5785');
+  const ramadan = tryParse(
+    '1 Ramadan 1445',
+    'D MMMM YYYY',
+    'en',
+    undefined,
+    'islamic-umalqura'
+  );
+
+  t.true(adarI.ok && adar.ok && common.ok && ramadan.ok);
+  if (!adarI.ok || !adar.ok || !common.ok || !ramadan.ok) return;
+  t.deepEqual(adarI.value.payload, dateTime(2024, 2, 10, 0, 0, 0, 0));
+  // plain Adar is Adar II in a leap year
+  t.deepEqual(adar.value.payload, dateTime(2024, 3, 24, 0, 0, 0, 0));
+  t.deepEqual(common.value.payload, dateTime(2025, 3, 14, 0, 0, 0, 0));
+  t.deepEqual(ramadan.value.payload, dateTime(2024, 3, 11, 0, 0, 0, 0));
+});
+
+test('calendar arithmetic runs in the Hijri and Hebrew calendars', (t) => {
+  // 1 Ramadan 1445 + 1 month = 1 Shawwal 1445
+  t.deepEqual(addMonths(1, 'islamic-umalqura')({ y: 2024, m: 3, d: 11 }), {
+    y: 2024,
+    m: 4,
+    d: 10,
+  });
+  // 1 Ramadan 1445 + 1 year = 1 Ramadan 1446
+  t.deepEqual(addYears(1, 'islamic-umalqura')({ y: 2024, m: 3, d: 11 }), {
+    y: 2025,
+    m: 3,
+    d: 1,
+  });
+  // 1 Adar I 5784 + 1 year = 1 Adar 5785
+  t.deepEqual(addYears(1, 'hebrew')({ y: 2024, m: 2, d: 10 }), {
+    y: 2025,
+    m: 3,
+    d: 1,
+  });
+  // 30 Adar I 5784 + 1 month = 29 Adar II 5784
+  t.deepEqual(addMonths(1, 'hebrew')({ y: 2024, m: 3, d: 10 }), {
+    y: 2024,
+    m: 4,
+    d: 8,
+  });
+  // 1 Elul 5784 + 1 month = 1 Tishri 5785
+  t.deepEqual(addMonths(1, 'hebrew')({ y: 2024, m: 9, d: 4 }), {
+    y: 2024,
+    m: 10,
+    d: 3,
+  });
+});
+
 /* ------------------------------------------------------------------ *
  *  HUMANIZATION TESTS
  * ------------------------------------------------------------------ */
@@ -399,6 +1273,30 @@ test('getTimezoneInfo handles winter time correctly', (t) => {
   t.false(tzInfo.dst);
 });
 
+test('tzOffset is exact at transition boundaries', (t) => {
+  const spring = Date.UTC(2024, 2, 10, 7, 0); // 02:00 EST -> 03:00 EDT
+
+  t.is(tzOffset('America/New_York', instant(spring - 1)), -300);
+  t.is(tzOffset('America/New_York', instant(spring)), -240);
+  // repeated lookups hit the cache and agree
+  t.is(tzOffset('America/New_York', instant(spring - 1)), -300);
+  t.is(
+    getTimezoneInfo('America/New_York', instant(spring)).abbreviation,
+    'EDT'
+  );
+});
+
+test('tzOffset handles fractional-hour zones and DST', (t) => {
+  const jan = instant(Date.UTC(2024, 0, 15));
+  const jul = instant(Date.UTC(2024, 6, 15));
+
+  t.is(tzOffset('Asia/Kathmandu', jan), 345);
+  t.is(tzOffset('Australia/Lord_Howe', jan), 660); // 30-minute DST
+  t.is(tzOffset('Australia/Lord_Howe', jul), 630);
+  t.true(isDST('Australia/Lord_Howe', jan));
+  t.is(tzOffset('Invalid/Zone', jan), 0);
+});
+
 test('isValidTimezone validates timezone names', (t) => {
   t.true(isValidTimezone('America/New_York'));
   t.true(isValidTimezone('Europe/London'));
@@ -413,6 +1311,15 @@ test('getAvailableTimezones returns timezone list', (t) => {
   t.true(timezones.includes('UTC'));
   t.true(timezones.includes('America/New_York'));
   t.true(timezones.includes('Europe/London'));
+  t.true(timezones.includes('Asia/Kolkata'));
+  t.true(timezones.includes('America/Phoenix'));
+  t.false(timezones.includes('Asia/Calcutta'));
+});
+
+test('canonicalTimezone maps legacy ids', (t) => {
+  t.is(canonicalTimezone('Asia/Calcutta'), 'Asia/Kolkata');
+  t.is(canonicalTimezone('US/Eastern'), 'America/New_York');
+  t.is(canonicalTimezone('Europe/Paris'), 'Europe/Paris');
 });
 
 test('isDST correctly identifies daylight saving time', (t) => {
@@ -433,6 +1340,50 @@ test('getTimezoneOffset returns correct offset', (t) => {
   t.is(Math.abs(getTimezoneOffset('UTC')), 0); // Handle -0 vs 0
 });
 
+test('getTransitions finds the exact DST changes in a range', (t) => {
+  const transitions = getTransitions(
+    'America/New_York',
+    instant(Date.UTC(2024, 0, 1)),
+    instant(Date.UTC(2025, 0, 1))
+  );
+
+  t.is(transitions.length, 2);
+  t.is(transitions[0].instant.epochMs, Date.UTC(2024, 2, 10, 7, 0));
+  t.is(transitions[0].before.offsetMinutes, -300);
+  t.is(transitions[0].before.abbreviation, 'EST');
+  t.false(transitions[0].before.dst);
+  t.is(transitions[0].after.offsetMinutes, -240);
+  t.is(transitions[0].after.abbreviation, 'EDT');
+  t.true(transitions[0].after.dst);
+  t.is(transitions[1].instant.epochMs, Date.UTC(2024, 10, 3, 6, 0));
+});
+
+test('getTransitions is empty for zones without changes', (t) => {
+  t.deepEqual(
+    getTransitions(
+      'Asia/Tokyo',
+      instant(Date.UTC(2024, 0, 1)),
+      instant(Date.UTC(2025, 0, 1))
+    ),
+    []
+  );
+});
+
+test('nextTransition and previousTransition search around an instant', (t) => {
+  const midsummer = instant(Date.UTC(2024, 5, 1));
+  const next = nextTransition('Europe/London', midsummer);
+  const previous = previousTransition('Europe/London', midsummer);
+
+  t.is(next?.instant.epochMs, Date.UTC(2024, 9, 27, 1, 0));
+  t.is(previous?.instant.epochMs, Date.UTC(2024, 2, 31, 1, 0));
+  t.is(
+    previousTransition('Europe/London', instant(Date.UTC(2024, 2, 31, 1, 0)))
+      ?.instant.epochMs,
+    Date.UTC(2024, 2, 31, 1, 0)
+  );
+  t.is(nextTransition('Asia/Tokyo', midsummer, durations.days(400)), undefined);
+});
+
 test('withZoneName creates ZDT with timezone name', (t) => {
   const dt = dateTime(2023, 7, 15, 14, 30, 45, 123);
   const zdtObj = withZoneName('Europe/London')(dt);
@@ -450,6 +1401,139 @@ test('toZone converts between timezones', (t) => {
   t.not(londonZdt.zone.offsetMinutes, nyZdt.zone.offsetMinutes);
 });
 
+test('withZoneName maps the wall clock to the right instant', (t) => {
+  const zdtObj = withZoneName('America/New_York')(
+    dateTime(2024, 3, 10, 9, 0, 0, 0)
+  );
+
+  t.is(zdtObj.instant.epochMs, Date.UTC(2024, 2, 10, 13, 0));
+  t.is(zdtObj.zone.offsetMinutes, -240);
+});
+
+test("withZoneName moves a reading in a DST gap to the instant's wall clock", (t) => {
+  // 02:30 does not exist in New York on 2024-03-10
+  const skipped = withZoneName('America/New_York')(
+    dateTime(2024, 3, 10, 2, 30, 0, 0)
+  );
+
+  t.is(skipped.instant.epochMs, Date.UTC(2024, 2, 10, 7, 30));
+  t.deepEqual(skipped.payload, dateTime(2024, 3, 10, 3, 30, 0, 0));
+  t.is(format('YYYY-MM-DDTHH:mmZ', skipped), '2024-03-10T03:30-04:00');
+  t.deepEqual(toZonedPlain(skipped.instant, skipped.zone), skipped.payload);
+
+  const daily = everyDay(
+    withZoneName('America/New_York')(dateTime(2024, 3, 9, 2, 30, 0, 0))
+  );
+  t.deepEqual(
+    [daily.next(), daily.next(), daily.next()].map(
+      (r) => r.value && format('YYYY-MM-DDTHH:mmZ', r.value)
+    ),
+    [
+      '2024-03-09T02:30-05:00',
+      '2024-03-10T03:30-04:00',
+      '2024-03-11T02:30-04:00',
+    ]
+  );
+});
+
+test('resolveWallClock reports exact readings', (t) => {
+  t.deepEqual(
+    resolveWallClock(dateTime(2024, 1, 15, 9, 0, 0, 0), 'Europe/Paris'),
+    ok<WallClockResolution>({
+      instant: instant(Date.UTC(2024, 0, 15, 8, 0)),
+      offsetMinutes: 60,
+      kind: 'exact',
+    })
+  );
+});
+
+test('resolveWallClock disambiguates spring-forward gaps', (t) => {
+  const gap = dateTime(2024, 3, 10, 2, 30, 0, 0); // skipped in New York
+  const resolve = (d: Disambiguation) =>
+    resolveWallClock(gap, 'America/New_York', d);
+  const epochOf = (d: Disambiguation) => {
+    const r = resolve(d);
+    return r.ok ? r.value.instant.epochMs : NaN;
+  };
+
+  t.is(epochOf('compatible'), Date.UTC(2024, 2, 10, 7, 30)); // 03:30 EDT
+  t.is(epochOf('later'), Date.UTC(2024, 2, 10, 7, 30));
+  t.is(epochOf('earlier'), Date.UTC(2024, 2, 10, 6, 30)); // 01:30 EST
+  t.deepEqual(
+    resolve('compatible'),
+    ok<WallClockResolution>({
+      instant: instant(epochOf('later')),
+      offsetMinutes: -240,
+      kind: 'gap',
+    })
+  );
+  t.deepEqual(resolve('reject'), {
+    ok: false,
+    error: {
+      kind: 'nonexistent-time',
+      zone: 'America/New_York',
+      dateTime: gap,
+    },
+  });
+});
+
+test('resolveWallClock disambiguates fall-back overlaps', (t) => {
+  const overlap = dateTime(2024, 11, 3, 1, 30, 0, 0); // repeated in New York
+  const earlier = instant(Date.UTC(2024, 10, 3, 5, 30)); // 01:30 EDT
+  const later = instant(Date.UTC(2024, 10, 3, 6, 30)); // 01:30 EST
+
+  t.deepEqual(
+    resolveWallClock(overlap, 'America/New_York'),
+    ok<WallClockResolution>({
+      instant: earlier,
+      offsetMinutes: -240,
+      kind: 'overlap',
+    })
+  );
+  t.deepEqual(
+    resolveWallClock(overlap, 'America/New_York', 'later'),
+    ok<WallClockResolution>({
+      instant: later,
+      offsetMinutes: -300,
+      kind: 'overlap',
+    })
+  );
+  t.deepEqual(resolveWallClock(overlap, 'America/New_York', 'reject'), {
+    ok: false,
+    error: {
+      kind: 'ambiguous-time',
+      zone: 'America/New_York',
+      dateTime: overlap,
+      earlier,
+      later,
+    },
+  });
+});
+
+test('resolveWallClock rejects unknown zones', (t) => {
+  t.deepEqual(resolveWallClock(dateTime(2024, 1, 1, 0, 0, 0, 0), 'Nope/Zone'), {
+    ok: false,
+    error: { kind: 'unknown-zone', zone: 'Nope/Zone' },
+  });
+});
+
+test('fromZonedPlain keeps fixed offsets for non-IANA zones', (t) => {
+  const i = fromZonedPlain(dateTime(2024, 1, 1, 5, 30, 0, 0), fixedZone(330));
+  t.is(i.epochMs, Date.UTC(2024, 0, 1, 0, 0));
+});
+
+test('toZone keeps the instant and re-expresses the wall clock', (t) => {
+  const ny = withZoneName('America/New_York')(
+    dateTime(2023, 7, 15, 10, 30, 0, 0)
+  );
+  const tokyo = toZone('Asia/Tokyo')(ny);
+  const utc = toUTC(ny);
+
+  t.is(tokyo.instant.epochMs, ny.instant.epochMs);
+  t.deepEqual(tokyo.payload, dateTime(2023, 7, 15, 23, 30, 0, 0));
+  t.deepEqual(utc.payload, dateTime(2023, 7, 15, 14, 30, 0, 0));
+});
+
 /* ------------------------------------------------------------------ *
  *  ZDT FUNCTOR TESTS
  * ------------------------------------------------------------------ */
@@ -499,6 +1583,226 @@ test('durationOfInterval calculates duration', (t) => {
   t.is(dur.ms, 2000);
 });
 
+const at = (iso: string, zoneName = 'UTC') => {
+  const i = instant(Date.parse(iso));
+  const tz = zone(zoneName, i);
+  return zdt(i, tz, toZonedPlain(i, tz));
+};
+
+const span = (from: string, to: string, bounds?: IntervalBounds) =>
+  interval(at(from), at(to), bounds);
+
+const isoSpan = (iv: Interval<PlainDateTime>) => [
+  new Date(iv.start.instant.epochMs).toISOString(),
+  new Date(iv.end.instant.epochMs).toISOString(),
+];
+
+test('tryInterval rejects an end before the start', (t) => {
+  const start = at('2024-01-02T00:00:00Z');
+  const end = at('2024-01-01T00:00:00Z');
+
+  t.deepEqual(tryInterval(start, end), {
+    ok: false,
+    error: {
+      kind: 'invalid-interval',
+      start: start.instant,
+      end: end.instant,
+    },
+  });
+  t.true(tryInterval(end, start).ok);
+  t.is(interval(start, end).start, end);
+});
+
+test('includes honours half-open and closed bounds', (t) => {
+  const noon = instant(Date.parse('2024-01-01T12:00:00Z'));
+
+  t.false(includes(span('2024-01-01T09:00Z', '2024-01-01T12:00Z'), noon));
+  t.true(includes(span('2024-01-01T09:00Z', '2024-01-01T12:00Z', '[]'), noon));
+  t.true(includes(span('2024-01-01T12:00Z', '2024-01-01T13:00Z'), noon));
+});
+
+test('Allen relations classify pairs of intervals', (t) => {
+  const a = span('2024-01-01T09:00Z', '2024-01-01T12:00Z');
+  const b = span('2024-01-01T11:00Z', '2024-01-01T14:00Z');
+  const c = span('2024-01-01T12:00Z', '2024-01-01T13:00Z');
+  const d = span('2024-01-01T15:00Z', '2024-01-01T16:00Z');
+
+  t.true(overlaps(a, b));
+  t.true(meets(a, c));
+  t.true(during(c, b));
+  t.true(contains(b, c));
+  t.false(overlaps(a, c));
+  t.is(allenRelation(a, b), 'overlaps');
+  t.is(allenRelation(b, a), 'overlappedBy');
+  t.is(allenRelation(c, a), 'metBy');
+  t.is(allenRelation(a, d), 'before');
+  t.is(allenRelation(d, a), 'after');
+  t.is(allenRelation(a, a), 'equals');
+  t.is(
+    allenRelation(span('2024-01-01T09:00Z', '2024-01-01T10:00Z'), a),
+    'starts'
+  );
+  t.is(
+    allenRelation(span('2024-01-01T10:00Z', '2024-01-01T12:00Z'), a),
+    'finishes'
+  );
+});
+
+test('intersection, union, difference and gap', (t) => {
+  const a = span('2024-01-01T09:00Z', '2024-01-01T12:00Z');
+  const b = span('2024-01-01T11:00Z', '2024-01-01T14:00Z');
+  const c = span('2024-01-01T12:00Z', '2024-01-01T13:00Z');
+  const d = span('2024-01-01T15:00Z', '2024-01-01T16:00Z');
+
+  t.deepEqual(isoSpan(intersection(a, b) ?? c), [
+    '2024-01-01T11:00:00.000Z',
+    '2024-01-01T12:00:00.000Z',
+  ]);
+  t.is(intersection(a, c), undefined);
+  t.like(
+    intersection(
+      span('2024-01-01T09:00Z', '2024-01-01T12:00Z', '[]'),
+      span('2024-01-01T12:00Z', '2024-01-01T13:00Z', '[]')
+    ),
+    { bounds: '[]' }
+  );
+  t.deepEqual(union(a, c).map(isoSpan), [
+    ['2024-01-01T09:00:00.000Z', '2024-01-01T13:00:00.000Z'],
+  ]);
+  t.deepEqual(union(d, a), [a, d]);
+  t.deepEqual(difference(b, c).map(isoSpan), [
+    ['2024-01-01T11:00:00.000Z', '2024-01-01T12:00:00.000Z'],
+    ['2024-01-01T13:00:00.000Z', '2024-01-01T14:00:00.000Z'],
+  ]);
+  t.deepEqual(difference(c, b), []);
+  t.deepEqual(difference(a, d), [a]);
+  t.deepEqual(isoSpan(gap(d, a) ?? a), [
+    '2024-01-01T12:00:00.000Z',
+    '2024-01-01T15:00:00.000Z',
+  ]);
+  t.is(gap(a, c), undefined);
+});
+
+test('intersection, union and difference keep each end its own bounds', (t) => {
+  const hours = (from: number, to: number, bounds?: IntervalBounds) =>
+    span(
+      `2024-01-01T${String(from).padStart(2, '0')}:00Z`,
+      `2024-01-01T${String(to).padStart(2, '0')}:00Z`,
+      bounds
+    );
+  const shape = (iv?: Interval<PlainDateTime>) =>
+    iv && [iv.start.payload.h, iv.end.payload.h, iv.bounds];
+
+  // [0,5] ∩ [2,10) holds 5, which both hold
+  const both = intersection(hours(0, 5, '[]'), hours(2, 10));
+  t.deepEqual(shape(both), [2, 5, '[]']);
+  t.true(both !== undefined && includes(both, at('2024-01-01T05:00Z').instant));
+  t.deepEqual(shape(intersection(hours(2, 10), hours(0, 5, '[]'))), [
+    2,
+    5,
+    '[]',
+  ]);
+  t.deepEqual(shape(intersection(hours(0, 10, '[]'), hours(2, 5))), [
+    2,
+    5,
+    '[)',
+  ]);
+  // a shared end is closed only when both are
+  t.deepEqual(shape(intersection(hours(0, 5), hours(2, 5, '[]'))), [
+    2,
+    5,
+    '[)',
+  ]);
+  t.deepEqual(shape(intersection(hours(0, 5, '[]'), hours(2, 5, '[]'))), [
+    2,
+    5,
+    '[]',
+  ]);
+  t.is(intersection(hours(0, 5), hours(5, 8, '[]')), undefined);
+
+  t.deepEqual(union(hours(0, 10, '[]'), hours(2, 5)).map(shape), [
+    [0, 10, '[]'],
+  ]);
+  t.deepEqual(union(hours(0, 5), hours(2, 5, '[]')).map(shape), [[0, 5, '[]']]);
+  t.deepEqual(union(hours(0, 5, '[]'), hours(2, 8)).map(shape), [[0, 8, '[)']]);
+
+  // the closed end of `a` outside a half-open `b` is kept
+  t.deepEqual(difference(hours(0, 5, '[]'), hours(0, 5)).map(shape), [
+    [5, 5, '[]'],
+  ]);
+  t.deepEqual(difference(hours(0, 5, '[]'), hours(0, 5, '[]')), []);
+  // starts are closed: the part after a closed `b` starts at its end
+  t.deepEqual(difference(hours(0, 10), hours(2, 5, '[]')).map(shape), [
+    [0, 2, '[)'],
+    [5, 10, '[)'],
+  ]);
+});
+
+test('splitBy cuts at fixed steps or local unit boundaries', (t) => {
+  const a = span('2024-01-15T09:00Z', '2024-01-15T11:30Z');
+
+  t.deepEqual(splitBy(durations.hours(1))(a).map(isoSpan), [
+    ['2024-01-15T09:00:00.000Z', '2024-01-15T10:00:00.000Z'],
+    ['2024-01-15T10:00:00.000Z', '2024-01-15T11:00:00.000Z'],
+    ['2024-01-15T11:00:00.000Z', '2024-01-15T11:30:00.000Z'],
+  ]);
+  t.deepEqual(
+    splitBy('month')(span('2024-01-15T00:00Z', '2024-03-02T00:00Z')).map(
+      (iv) => iv.start.payload.m
+    ),
+    [1, 2, 3]
+  );
+
+  // New York loses an hour on 2024-03-10
+  const ny = interval(
+    at('2024-03-09T15:00:00Z', 'America/New_York'),
+    at('2024-03-11T16:00:00Z', 'America/New_York')
+  );
+  t.deepEqual(
+    splitBy('day')(ny).map((iv) => durationOfInterval(iv).ms / MILLIS.HOUR),
+    [14, 23, 12]
+  );
+});
+
+test('splitBy starts a day skipped at midnight at its first instant', (t) => {
+  const santiago = interval(
+    at('2024-09-07T12:00:00Z', 'America/Santiago'),
+    at('2024-09-09T12:00:00Z', 'America/Santiago')
+  );
+
+  t.deepEqual(
+    splitBy('day')(santiago).map((iv) => [
+      iv.start.payload.d,
+      iv.start.payload.h,
+    ]),
+    [
+      [7, 8],
+      [8, 1],
+      [9, 0],
+    ]
+  );
+});
+
+test('divideEqually and mapInterval', (t) => {
+  const a = span('2024-01-01T09:00Z', '2024-01-01T12:00Z', '[]');
+  const quarters = divideEqually(4)(a);
+
+  t.is(quarters.length, 4);
+  t.deepEqual(isoSpan(quarters[1]), [
+    '2024-01-01T09:45:00.000Z',
+    '2024-01-01T10:30:00.000Z',
+  ]);
+  t.deepEqual(
+    quarters.map((iv) => iv.bounds),
+    ['[)', '[)', '[)', '[]']
+  );
+  t.deepEqual(mapInterval((p: PlainDateTime) => p.h)(a), {
+    ...a,
+    start: { ...a.start, payload: 9 },
+    end: { ...a.end, payload: 12 },
+  });
+});
+
 /* ------------------------------------------------------------------ *
  *  RECURRENCE TESTS
  * ------------------------------------------------------------------ */
@@ -578,6 +1882,49 @@ test('everyMonth generates monthly recurrence', (t) => {
   t.is(second.payload.d, 15);
 });
 
+const nextOccurrence = (
+  generator: Generator<ZDT<PlainDateTime>, void, unknown>
+): ZDT<PlainDateTime> | undefined => {
+  const next = generator.next();
+  return next.done ? undefined : next.value;
+};
+
+test('every steps exact time by default and the wall clock on request', (t) => {
+  // 09:00 EST on the day before New York springs forward
+  const origin = withZoneName('America/New_York')(
+    parseISO('2024-03-09T09:00:00')
+  );
+  const hoursOf = (rule: RecurrenceRule) => {
+    const generator = rule(origin);
+    return [1, 2, 3].map(() => nextOccurrence(generator)?.payload.h);
+  };
+
+  t.deepEqual(hoursOf(every(durations.days(1))), [9, 10, 10]);
+  t.deepEqual(hoursOf(every(durations.days(1), { clock: 'wall' })), [9, 9, 9]);
+  t.deepEqual(hoursOf(everyDay), [9, 9, 9]);
+  t.deepEqual(hoursOf(everyWeek), [9, 9, 9]);
+});
+
+test('everyMonth clamps each month without drifting', (t) => {
+  const origin = zdt(instant(0), UTC, dateTime(2024, 1, 31, 12, 0, 0, 0));
+  const generator = everyMonth(1)(origin);
+  const days = [1, 2, 3, 4].map(() => nextOccurrence(generator)?.payload.d);
+
+  t.deepEqual(days, [31, 29, 31, 30]);
+});
+
+test('recurrence iterates in constant stack', (t) => {
+  const origin = zdt(instant(0), UTC, dateTime(1970, 1, 1, 0, 0, 0, 0));
+  const generator = every(durations.minutes(1))(origin);
+  const last = Array.from({ length: 100_000 }, () => generator.next()).pop();
+
+  t.is(last?.value && last.value.instant.epochMs, 99_999 * 60_000);
+  t.deepEqual(
+    [...recurrence((k) => (k < 3 ? [origin, origin] : undefined), 5)].length,
+    5
+  );
+});
+
 /* ------------------------------------------------------------------ *
  *  REAMDATE TIMEZONE TESTS
  * ------------------------------------------------------------------ */
@@ -615,6 +1962,71 @@ test('ReamDate preserves timezone info through operations', (t) => {
   t.is(added.hour(), rd.hour() + 1);
 });
 
+test('ReamDate getters use the wall clock of the instance zone', (t) => {
+  const tokyo = ream('2023-07-15T14:30:45.123Z').tz('Asia/Tokyo');
+
+  t.is(tokyo.year(), 2023);
+  t.is(tokyo.month(), 7);
+  t.is(tokyo.date(), 15);
+  t.is(tokyo.hour(), 23);
+  t.is(tokyo.minute(), 30);
+  t.is(tokyo.millisecond(), 123);
+});
+
+test('ReamDate exposes week, ordinal and quarter getters', (t) => {
+  // Sunday 2024-12-29 23:30 UTC is Monday 2024-12-30 in Tokyo
+  const rd = ream('2024-12-29T23:30:00Z');
+  const tokyo = rd.tz('Asia/Tokyo');
+
+  t.is(rd.isoWeek(), 52);
+  t.is(rd.isoWeekYear(), 2024);
+  t.is(rd.week('en-US'), 1);
+  t.is(rd.weekYear('en-US'), 2025);
+  // the default rule is fixed: Sunday first, week 1 holds January 1st
+  t.is(rd.week(), 1);
+  t.is(rd.weekYear(), 2025);
+  t.is(rd.week({ firstDay: 1, minDays: 4 }), 52);
+  t.is(rd.dayOfYear(), 364);
+  t.is(rd.quarter(), 4);
+  t.is(tokyo.isoWeek(), 1);
+  t.is(tokyo.isoWeekYear(), 2025);
+  t.is(tokyo.dayOfYear(), 365);
+});
+
+test('ReamDate date and day roll over with the zone offset', (t) => {
+  const la = ream('2023-07-15T02:00:00.000Z', 'America/Los_Angeles');
+
+  t.is(la.date(), 14);
+  t.is(la.hour(), 19);
+  t.is(la.day(), 5); // Friday in Los Angeles, Saturday in UTC
+});
+
+test('ReamDate format and toLocaleString render local time', (t) => {
+  const ny = ream('2023-07-15T14:30:45.123Z', 'America/New_York');
+
+  t.is(ny.format('YYYY-MM-DD HH:mm'), '2023-07-15 10:30');
+  t.is(ny.toLocaleString(), 'Saturday, July 15, 2023 10:30 AM');
+});
+
+test('ReamDate refreshes the offset when arithmetic crosses DST', (t) => {
+  const before = ream('2023-03-12T06:30:00.000Z', 'America/New_York');
+  const after = before.add(1, 'hours');
+
+  t.is(before.hour(), 1);
+  t.is(before.offset(), -300);
+  t.is(after.hour(), 3);
+  t.is(after.offset(), -240);
+  t.true(after.isDST());
+});
+
+test('toZonedPlain decomposes an instant in a zone', (t) => {
+  const i = instant(Date.UTC(2023, 0, 1, 0, 30, 0, 0));
+  const kolkata = toZonedPlain(i, zone('Asia/Kolkata', i));
+
+  t.deepEqual(kolkata, dateTime(2023, 1, 1, 6, 0, 0, 0));
+  t.deepEqual(toZonedPlain(i, UTC), toPlain(i));
+});
+
 /* ------------------------------------------------------------------ *
  *  PLUGIN TESTS
  * ------------------------------------------------------------------ */
@@ -657,6 +2069,28 @@ test('ream factory creates ReamDate from string', (t) => {
   t.is(rd.millisecond(), 123);
 });
 
+test('ream.strict returns typed errors for bad input', (t) => {
+  const good = ream.strict('2023-07-15T14:30:45.123Z', 'Asia/Tokyo');
+  t.true(good.ok && good.value.hour() === 23);
+
+  t.deepEqual(ream.strict('not a date'), {
+    ok: false,
+    error: { kind: 'malformed', input: 'not a date', position: 0 },
+  });
+  t.deepEqual(ream.strict('2023-07-15', 'Nowhere/City'), {
+    ok: false,
+    error: { kind: 'unknown-zone', zone: 'Nowhere/City' },
+  });
+  t.deepEqual(ream.strict(NaN), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'epochMs', value: NaN },
+  });
+  t.deepEqual(ream.strict(dateTime(2023, 4, 31, 0, 0, 0, 0)), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'd', value: 31 },
+  });
+});
+
 test('ream factory creates ReamDate from number', (t) => {
   const timestamp = Date.now();
   const rd = ream(timestamp);
@@ -698,6 +2132,137 @@ test('ReamDate subtract method works', (t) => {
   t.is(rd.hour(), 14); // Original unchanged
 });
 
+test('ReamDate diff counts clamped calendar months', (t) => {
+  const jan31 = ream('2024-01-31T00:00:00Z');
+  const feb29 = ream('2024-02-29T00:00:00Z');
+
+  t.is(feb29.diff(jan31, 'months'), 1);
+  t.is(feb29.diff(jan31, 'days'), 29);
+  t.is(jan31.diff(feb29, 'months'), -1);
+  t.is(jan31.diff(feb29, 'months', { float: true }), -1);
+  t.is(jan31.diff(feb29, 'days'), -29);
+});
+
+test('ReamDate diff in calendar units is antisymmetric', (t) => {
+  const dates = [
+    '2023-01-31T10:00:00Z',
+    '2023-02-28T00:00:00Z',
+    '2024-02-29T23:00:00Z',
+    '2024-03-31T00:00:00Z',
+    '2024-05-15T12:30:00Z',
+    '2025-02-28T00:00:00Z',
+  ].map((iso) => ream(iso));
+  const units = ['years', 'months', 'weeks', 'days'] as const;
+
+  dates.forEach((a) =>
+    dates.forEach((b) =>
+      units.forEach((unit) => {
+        t.is(a.diff(b, unit) + b.diff(a, unit), 0);
+        t.is(
+          a.diff(b, unit, { float: true }) + b.diff(a, unit, { float: true }),
+          0
+        );
+      })
+    )
+  );
+});
+
+test('ReamDate diff supports float results and rounding', (t) => {
+  const from = ream('2024-01-15T12:00:00Z');
+  const to = ream('2024-03-01T00:00:00Z');
+
+  t.is(to.diff(from, 'months', { float: true }), 1.5);
+  t.is(to.diff(from, 'months'), 1);
+  t.is(to.diff(from, 'months', { rounding: 'halfExpand' }), 2);
+  t.is(to.diff(from, 'weeks'), 6);
+  t.is(to.diff(from, 'hours'), 1092);
+  t.is(to.diff(from), to.valueOf() - from.valueOf());
+});
+
+test('ReamDate diff in years gives ages', (t) => {
+  const birth = ream('1990-06-15T00:00:00Z');
+
+  t.is(ream('2024-06-14T00:00:00Z').diff(birth, 'years'), 33);
+  t.is(ream('2024-06-15T00:00:00Z').diff(birth, 'years'), 34);
+  t.is(birth.diff(ream('2024-06-14T00:00:00Z'), 'years'), -33);
+});
+
+test('ReamDate diff counts calendar days on the zone wall clock', (t) => {
+  // 2024-03-10 is 23 hours long in New York
+  const before = ream('2024-03-09T12:00:00-05:00').tz('America/New_York');
+  const after = ream('2024-03-10T12:00:00-04:00').tz('America/New_York');
+
+  t.is(after.diff(before, 'days'), 1);
+  t.is(after.diff(before, 'hours'), 23);
+  t.is(after.diff(before, 'days', { float: true }), 1);
+});
+
+test('ReamDate startOf and endOf cover every unit', (t) => {
+  const rd = ream('2024-05-15T14:30:45.123Z');
+  const bounds = (unit: StartOfUnit) => [
+    rd.startOf(unit).toISOString(),
+    rd.endOf(unit).toISOString(),
+  ];
+
+  t.deepEqual(bounds('year'), [
+    '2024-01-01T00:00:00.000Z',
+    '2024-12-31T23:59:59.999Z',
+  ]);
+  t.deepEqual(bounds('quarter'), [
+    '2024-04-01T00:00:00.000Z',
+    '2024-06-30T23:59:59.999Z',
+  ]);
+  t.deepEqual(bounds('isoWeek'), [
+    '2024-05-13T00:00:00.000Z',
+    '2024-05-19T23:59:59.999Z',
+  ]);
+  t.deepEqual(bounds('week'), [
+    '2024-05-12T00:00:00.000Z',
+    '2024-05-18T23:59:59.999Z',
+  ]);
+  t.deepEqual(bounds('minute'), [
+    '2024-05-15T14:30:00.000Z',
+    '2024-05-15T14:30:59.999Z',
+  ]);
+  t.is(rd.startOf('week', 1).date(), 13);
+  t.is(rd.startOf('week', 'en-GB').date(), 13);
+});
+
+test('ReamDate startOf uses local day boundaries', (t) => {
+  const rd = ream('2024-05-15T02:00:00Z', 'America/New_York');
+
+  t.is(rd.startOf('day').format(), '2024-05-14T00:00:00.000-04:00');
+  t.is(rd.endOf('day').format(), '2024-05-14T23:59:59.999-04:00');
+});
+
+test('ReamDate startOf day is the first valid instant when midnight is skipped', (t) => {
+  // Santiago springs forward from 00:00 to 01:00 on 2024-09-08
+  const rd = ream('2024-09-08T12:00:00Z', 'America/Santiago');
+
+  t.is(rd.startOf('day').format(), '2024-09-08T01:00:00.000-03:00');
+  t.is(
+    rd.subtract(1, 'days').endOf('day').format(),
+    '2024-09-07T23:59:59.999-04:00'
+  );
+  t.is(
+    rd.startOf('day').valueOf() - rd.subtract(1, 'days').endOf('day').valueOf(),
+    1
+  );
+});
+
+test('ReamDate startOf and endOf handle repeated wall-clock hours', (t) => {
+  // New York repeats 01:00-02:00 on 2024-11-03; this is the second pass
+  const rd = ream('2024-11-03T01:30:00-05:00', 'America/New_York');
+
+  t.is(rd.startOf('hour').format(), '2024-11-03T01:00:00.000-05:00');
+  t.is(rd.endOf('hour').format(), '2024-11-03T01:59:59.999-05:00');
+  t.is(rd.startOf('day').format(), '2024-11-03T00:00:00.000-04:00');
+  t.is(
+    rd.endOf('day').valueOf() + 1 - rd.startOf('day').valueOf(),
+    25 * MILLIS.HOUR
+  );
+});
+
 test('ReamDate format method works', (t) => {
   const rd = ream('2023-07-15T14:30:45.123Z');
   const formatted = rd.format('YYYY-MM-DD');
@@ -705,6 +2270,14 @@ test('ReamDate format method works', (t) => {
   t.is(formatted, '2023-07-15');
 });
 
+test('ReamDate default format is offset-correct ISO 8601', (t) => {
+  const rd = ream('2023-07-15T14:30:45.123Z');
+
+  t.is(rd.format(), '2023-07-15T14:30:45.123+00:00');
+  t.is(rd.tz('Asia/Kolkata').format(), '2023-07-15T20:00:45.123+05:30');
+  t.is(new Date(rd.tz('America/New_York').format()).getTime(), rd.valueOf());
+});
+
 test('ReamDate toISOString method works', (t) => {
   const rd = ream('2023-07-15T14:30:45.123Z');
   const iso = rd.toISOString();
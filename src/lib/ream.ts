@@ -4,6 +4,19 @@
  *  Everything is pure, total, and categorically composable.
  ********************************************************************/
 
+import {
+  buddhist,
+  CalendarSystem,
+  civilFromDays,
+  daysFromCivil,
+  gregorian,
+  hebrew,
+  islamicCivil,
+  islamicUmalqura,
+  persian,
+} from './calendars';
+import { ZONE_ALIASES, ZONE_COUNTRIES } from './zonetab';
+
 /* ------------------------------------------------------------------ *
  *  0.  INTERNAL UTILS
  * ------------------------------------------------------------------ */
@@ -35,6 +48,65 @@ export type PlainTime = Readonly<{
   readonly ms: number;
 }>;
 export type PlainDateTime = PlainDate & PlainTime;
+/* A calendar-aware amount of time: years, months, weeks and days follow
+ * the calendar and the wall clock, hours and below are exact */
+export type Period = Readonly<{
+  readonly years: number;
+  readonly months: number;
+  readonly weeks: number;
+  readonly days: number;
+  readonly hours: number;
+  readonly minutes: number;
+  readonly seconds: number;
+  readonly milliseconds: number;
+}>;
+
+/* Explicit failure for the `try*` API (the total functions fall back instead) */
+export type ReamError =
+  | Readonly<{
+      readonly kind: 'malformed';
+      readonly input: string;
+      readonly position: number;
+    }>
+  | Readonly<{
+      readonly kind: 'malformed-offset';
+      readonly input: string;
+      readonly position: number;
+    }>
+  | Readonly<{
+      readonly kind: 'out-of-range';
+      readonly field: string;
+      readonly value: number;
+    }>
+  | Readonly<{ readonly kind: 'unknown-zone'; readonly zone: string }>
+  | Readonly<{
+      readonly kind: 'nonexistent-time';
+      readonly zone: string;
+      readonly dateTime: PlainDateTime;
+    }>
+  | Readonly<{
+      readonly kind: 'ambiguous-time';
+      readonly zone: string;
+      readonly dateTime: PlainDateTime;
+      readonly earlier: Instant;
+      readonly later: Instant;
+    }>
+  | Readonly<{
+      readonly kind: 'invalid-interval';
+      readonly start: Instant;
+      readonly end: Instant;
+    }>;
+
+export type Result<A, E = ReamError> =
+  | Readonly<{ readonly ok: true; readonly value: A }>
+  | Readonly<{ readonly ok: false; readonly error: E }>;
+
+export const ok = <A>(value: A): Result<A, never> => ({ ok: true, value });
+export const err = <E>(error: E): Result<never, E> => ({ ok: false, error });
+export const getOrElse =
+  <A>(fallback: A) =>
+  <E>(r: Result<A, E>): A =>
+    r.ok ? r.value : fallback;
 
 /* ------------------------------------------------------------------ *
  *  2.  TIME-ZONE  SYSTEM  (Real IANA TZDB Support)
@@ -46,67 +118,168 @@ export type TimeZone = {
   readonly abbreviation?: string; // timezone abbreviation (e.g. "EST", "PDT")
 };
 
-/* Real timezone data using Intl API */
-export const getTimezoneInfo = (tzName: string, instant: Instant): TimeZone => {
-  try {
-    // Validate timezone name using Intl API
-    new Intl.DateTimeFormat('en', { timeZone: tzName });
+/* Zone data comes from a pluggable provider: the runtime's Intl (ICU)
+ * tables by default, or compiled tzdata pinned to a known release (see
+ * tzdb.ts) when results must not depend on the host. */
+export type ZoneState = Readonly<{
+  readonly offsetMinutes: number;
+  readonly abbreviation?: string;
+  readonly dst?: boolean; // when the provider knows; else inferred
+}>;
 
-    const date = new Date(instant.epochMs);
+export type ZoneProvider = Readonly<{
+  readonly id: string; // e.g. "intl", "tzdata"
+  readonly version?: string; // tzdata release, e.g. "2025b"
+  readonly isValid: (tzName: string) => boolean;
+  readonly stateAt: (tzName: string, epochMs: number) => ZoneState | undefined;
+  readonly zones: () => readonly string[] | undefined;
+}>;
 
-    // Simple and reliable method using Date.prototype.toLocaleString
-    const utcTime = new Date(date.toLocaleString('en-US', { timeZone: 'UTC' }));
-    const localTime = new Date(
-      date.toLocaleString('en-US', { timeZone: tzName })
-    );
+/* Intl engine: one cached formatter per zone, read with formatToParts
+ * (offset and abbreviation in a single call). States are memoized per UTC
+ * day: a day whose two ends agree is transition-free, one whose ends differ
+ * is bisected once to find its transition. */
 
-    // Calculate offset in minutes (Local - UTC, negated to match standard convention)
-    const offsetMinutes = -Math.round(
-      (utcTime.getTime() - localTime.getTime()) / (1000 * 60)
-    );
+type DaySpan = Readonly<{
+  readonly before: ZoneState;
+  readonly transition: number; // first ms of `after` (end of day if none)
+  readonly after: ZoneState;
+}>;
 
-    // Determine if DST is active by comparing with standard time
-    const year = date.getFullYear();
-    const januaryDate = new Date(year, 0, 1, 12, 0, 0);
-    const julyDate = new Date(year, 6, 1, 12, 0, 0);
+const MAX_CACHED_ZONES = 1000;
+const MAX_CACHED_DAYS = 100_000;
+
+const formatters = new Map<string, Intl.DateTimeFormat | undefined>();
+const daySpans = new Map<string, DaySpan>(); // keyed by "zone day"
+
+const zoneFormatter = (tzName: string): Intl.DateTimeFormat | undefined => {
+  const cached = formatters.get(tzName);
+  if (cached || formatters.has(tzName)) return cached;
+  const created = (() => {
+    try {
+      return new Intl.DateTimeFormat('en-US', {
+        timeZone: tzName,
+        hour12: false,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+        timeZoneName: 'short',
+      });
+    } catch {
+      return undefined;
+    }
+  })();
+  if (formatters.size >= MAX_CACHED_ZONES) formatters.clear();
+  formatters.set(tzName, created);
+  return created;
+};
 
-    const getOffsetForDate = (testDate: Date): number => {
-      const utcTest = new Date(
-        testDate.toLocaleString('en-US', { timeZone: 'UTC' })
-      );
-      const localTest = new Date(
-        testDate.toLocaleString('en-US', { timeZone: tzName })
-      );
-      return -Math.round(
-        (utcTest.getTime() - localTest.getTime()) / (1000 * 60)
-      );
-    };
+const readState = (fmt: Intl.DateTimeFormat, epochMs: number): ZoneState => {
+  const parts = fmt.formatToParts(new Date(epochMs));
+  const field = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const local = new Date(
+    Date.UTC(
+      2000,
+      field('month') - 1,
+      field('day'),
+      field('hour') % 24, // some engines render midnight as 24
+      field('minute'),
+      field('second')
+    )
+  );
+  local.setUTCFullYear(field('year'));
+  const wholeSecond = epochMs - (((epochMs % 1000) + 1000) % 1000);
+  return {
+    offsetMinutes: Math.round((local.getTime() - wholeSecond) / 60_000),
+    abbreviation: parts.find((part) => part.type === 'timeZoneName')?.value,
+  };
+};
+
+/* first ms in (lo, hi] whose offset differs from `loOffset` */
+const bisectState = (
+  fmt: Intl.DateTimeFormat,
+  lo: number,
+  hi: number,
+  loOffset: number
+): number => {
+  if (hi - lo <= 1) return hi;
+  const mid = Math.floor((lo + hi) / 2);
+  return readState(fmt, mid).offsetMinutes === loOffset
+    ? bisectState(fmt, mid, hi, loOffset)
+    : bisectState(fmt, lo, mid, loOffset);
+};
 
-    const janOffset = getOffsetForDate(januaryDate);
-    const julOffset = getOffsetForDate(julyDate);
+const daySpan = (
+  tzName: string,
+  fmt: Intl.DateTimeFormat,
+  day: number
+): DaySpan => {
+  const key = `${tzName} ${day}`;
+  const cached = daySpans.get(key);
+  if (cached) return cached;
+  const first = day * MILLIS.DAY;
+  const last = first + MILLIS.DAY - 1;
+  const before = readState(fmt, first);
+  const end = readState(fmt, last);
+  const transition =
+    end.offsetMinutes === before.offsetMinutes
+      ? last + 1
+      : bisectState(fmt, first, last, before.offsetMinutes);
+  const span: DaySpan = {
+    before,
+    transition,
+    after: transition > last ? before : readState(fmt, transition),
+  };
+  if (daySpans.size >= MAX_CACHED_DAYS) daySpans.clear();
+  daySpans.set(key, span);
+  return span;
+};
 
-    // For northern hemisphere timezones like America/New_York:
-    // - Winter (January) is standard time (more negative offset, e.g., -300 for EST)
-    // - Summer (July) is DST (less negative offset, e.g., -240 for EDT)
-    // Standard time is the more negative offset (smaller value)
-    const standardOffset = Math.min(janOffset, julOffset);
-    const dst = offsetMinutes > standardOffset;
+const runtimeTimezones = (): readonly string[] | undefined => {
+  const { supportedValuesOf } = Intl as {
+    readonly supportedValuesOf?: (key: 'timeZone') => readonly string[];
+  };
+  return supportedValuesOf ? supportedValuesOf('timeZone') : undefined;
+};
 
-    // Get timezone abbreviation
-    const abbreviation = new Intl.DateTimeFormat('en', {
-      timeZone: tzName,
-      timeZoneName: 'short',
-    })
-      .formatToParts(date)
-      .find((part) => part.type === 'timeZoneName')?.value;
+export const intlZoneProvider: ZoneProvider = {
+  id: 'intl',
+  isValid: (tzName) => zoneFormatter(tzName) !== undefined,
+  stateAt: (tzName, epochMs) => {
+    const fmt = zoneFormatter(tzName);
+    if (!fmt) return undefined;
+    const span = daySpan(tzName, fmt, Math.floor(epochMs / MILLIS.DAY));
+    return epochMs < span.transition ? span.before : span.after;
+  },
+  zones: runtimeTimezones,
+};
 
-    return {
-      name: tzName,
-      offsetMinutes,
-      dst,
-      abbreviation,
-    };
-  } catch {
+/* the provider every zone lookup goes through; a deliberate module-level
+ * binding that only `setZoneProvider` reassigns */
+// eslint-disable-next-line functional/no-let
+let activeProvider: ZoneProvider = intlZoneProvider;
+
+export const getZoneProvider = (): ZoneProvider => activeProvider;
+
+/* switch every zone lookup to `provider`; returns the previous one */
+export const setZoneProvider = (provider: ZoneProvider): ZoneProvider => {
+  const previous = activeProvider;
+  activeProvider = provider;
+  return previous;
+};
+
+/* offset and abbreviation of a zone at an instant; undefined if unknown */
+const zoneStateAt = (tzName: string, epochMs: number): ZoneState | undefined =>
+  activeProvider.stateAt(tzName, epochMs);
+
+/* Real timezone data using Intl API */
+export const getTimezoneInfo = (tzName: string, instant: Instant): TimeZone => {
+  const state = zoneStateAt(tzName, instant.epochMs);
+  if (!state) {
     // Fallback to UTC for invalid timezone names
     return {
       name: 'UTC',
@@ -115,53 +288,135 @@ export const getTimezoneInfo = (tzName: string, instant: Instant): TimeZone => {
       abbreviation: 'UTC',
     };
   }
+
+  if (state.dst !== undefined) {
+    return {
+      name: tzName,
+      offsetMinutes: state.offsetMinutes,
+      dst: state.dst,
+      abbreviation: state.abbreviation,
+    };
+  }
+
+  // Standard time is the smaller of the January and July offsets of the year
+  // (e.g. -300 EST rather than -240 EDT for America/New_York)
+  const year = new Date(instant.epochMs).getUTCFullYear();
+  const standardOffset = Math.min(
+    ...[0, 6].map(
+      (month) =>
+        zoneStateAt(tzName, Date.UTC(year, month, 1, 12))?.offsetMinutes ?? 0
+    )
+  );
+
+  return {
+    name: tzName,
+    offsetMinutes: state.offsetMinutes,
+    dst: state.offsetMinutes > standardOffset,
+    abbreviation: state.abbreviation,
+  };
 };
 
 /* compute offset for any instant using real TZDB */
-export const tzOffset = (tz: string, i: Instant): number => {
-  const tzInfo = getTimezoneInfo(tz, i);
-  return tzInfo.offsetMinutes;
-};
+export const tzOffset = (tz: string, i: Instant): number =>
+  zoneStateAt(tz, i.epochMs)?.offsetMinutes ?? 0;
 
-/* Get list of available timezones */
+/* tzdb canonical id for a legacy or alternative one ("Asia/Calcutta") */
+export const canonicalTimezone = (tzName: string): string =>
+  ZONE_ALIASES[tzName] ?? tzName;
+
+/* Get list of available timezones: the provider's (Intl.supportedValuesOf
+ * for the default one) where available, else the embedded catalog;
+ * canonical ids, sorted */
 export const getAvailableTimezones = (): readonly string[] => {
-  // Common IANA timezone identifiers
-  return Object.freeze([
-    'UTC',
-    'America/New_York',
-    'America/Chicago',
-    'America/Denver',
-    'America/Los_Angeles',
-    'America/Toronto',
-    'America/Vancouver',
-    'America/Mexico_City',
-    'America/Sao_Paulo',
-    'America/Argentina/Buenos_Aires',
-    'Europe/London',
-    'Europe/Paris',
-    'Europe/Berlin',
-    'Europe/Rome',
-    'Europe/Madrid',
-    'Europe/Amsterdam',
-    'Europe/Stockholm',
-    'Europe/Moscow',
-    'Asia/Tokyo',
-    'Asia/Shanghai',
-    'Asia/Hong_Kong',
-    'Asia/Singapore',
-    'Asia/Mumbai',
-    'Asia/Dubai',
-    'Asia/Seoul',
-    'Asia/Bangkok',
-    'Australia/Sydney',
-    'Australia/Melbourne',
-    'Australia/Perth',
-    'Pacific/Auckland',
-    'Pacific/Honolulu',
-    'Africa/Cairo',
-    'Africa/Johannesburg',
-    'Africa/Lagos',
-  ]);
+  const ids = activeProvider.zones() ?? Object.keys(ZONE_COUNTRIES);
+  const canonical = ids.map((id) => {
+    const c = canonicalTimezone(id);
+    return c !== id && isValidTimezone(c) ? c : id;
+  });
+  return Object.freeze([...new Set(['UTC', ...canonical])].sort());
+};
+
+/* Offset transitions (DST changes and permanent offset changes), found by
+ * probing the offset weekly and bisecting each change down to the
+ * millisecond; transitions that cancel out within a week are not seen */
+export type ZoneTransition = Readonly<{
+  readonly instant: Instant; // first instant with the new offset
+  readonly before: TimeZone;
+  readonly after: TimeZone;
+}>;
+
+const TRANSITION_PROBE_MS = 604_800_000;
+const TRANSITION_HORIZON_MS = 10 * 366 * 86_400_000;
+
+/* first ms in (lo, hi] whose offset differs from the one at lo */
+const bisectTransition = (
+  tzName: string,
+  lo: number,
+  hi: number,
+  loOffset: number
+): number => {
+  if (hi - lo <= 1) return hi;
+  const mid = Math.floor((lo + hi) / 2);
+  return tzOffset(tzName, { epochMs: mid }) === loOffset
+    ? bisectTransition(tzName, mid, hi, loOffset)
+    : bisectTransition(tzName, lo, mid, loOffset);
+};
+
+const transitionAt = (tzName: string, epochMs: number): ZoneTransition => ({
+  instant: { epochMs },
+  before: getTimezoneInfo(tzName, { epochMs: epochMs - 1 }),
+  after: getTimezoneInfo(tzName, { epochMs }),
+});
+
+/* transitions in [from, to), oldest first */
+export const getTransitions = (
+  tzName: string,
+  from: Instant,
+  to: Instant
+): readonly ZoneTransition[] => {
+  const steps = Math.max(
+    0,
+    Math.ceil((to.epochMs - from.epochMs) / TRANSITION_PROBE_MS)
+  );
+  const probes = Array.from({ length: steps + 1 }, (_, k) =>
+    Math.min(from.epochMs - 1 + k * TRANSITION_PROBE_MS, to.epochMs - 1)
+  );
+  const offsets = probes.map((ms) => tzOffset(tzName, { epochMs: ms }));
+  return probes
+    .slice(1)
+    .map((ms, k) =>
+      offsets[k + 1] === offsets[k]
+        ? undefined
+        : bisectTransition(tzName, probes[k], ms, offsets[k])
+    )
+    .filter((ms): ms is number => ms !== undefined)
+    .map((ms) => transitionAt(tzName, ms));
+};
+
+/* first transition strictly after `after`, searching up to `horizon` ahead */
+export const nextTransition = (
+  tzName: string,
+  after: Instant,
+  horizon: Duration = { ms: TRANSITION_HORIZON_MS }
+): ZoneTransition | undefined =>
+  getTransitions(
+    tzName,
+    { epochMs: after.epochMs + 1 },
+    { epochMs: after.epochMs + horizon.ms }
+  )[0];
+
+/* last transition at or before `before`, searching up to `horizon` back */
+export const previousTransition = (
+  tzName: string,
+  before: Instant,
+  horizon: Duration = { ms: TRANSITION_HORIZON_MS }
+): ZoneTransition | undefined => {
+  const found = getTransitions(
+    tzName,
+    { epochMs: before.epochMs - horizon.ms },
+    { epochMs: before.epochMs + 1 }
+  );
+  return found[found.length - 1];
 };
 
 /* ------------------------------------------------------------------ *
@@ -188,40 +443,59 @@ export const zfmap =
 /* ------------------------------------------------------------------ *
  *  4.  CALENDAR  ALGEBRA
  * ------------------------------------------------------------------ */
-export type Calendar = 'gregory' | 'iso8601' | 'buddhist' | 'persian';
+export type Calendar =
+  | 'gregory'
+  | 'iso8601'
+  | 'buddhist'
+  | 'persian'
+  | 'islamic-civil'
+  | 'islamic-umalqura'
+  | 'hebrew';
+
+const HIJRI_MONTHS = [
+  'Muharram',
+  'Safar',
+  'Rabiʻ I',
+  'Rabiʻ II',
+  'Jumada I',
+  'Jumada II',
+  'Rajab',
+  'Shaʻban',
+  'Ramadan',
+  'Shawwal',
+  'Dhuʻl-Qiʻdah',
+  'Dhuʻl-Hijjah',
+];
 
 export const calendars: Record<
   Calendar,
-  { readonly firstDay: number; readonly monthNames: readonly string[] }
+  {
+    readonly firstDay: number;
+    readonly monthNames: readonly string[];
+    readonly era: string;
+  }
 > = {
   gregory: {
     firstDay: 1,
     monthNames: Array.from({ length: 12 }, (_, i) =>
       new Date(2020, i).toLocaleString('en', { month: 'long' })
     ),
+    era: 'AD',
   },
   iso8601: {
     firstDay: 1,
     monthNames: Array.from({ length: 12 }, (_, i) =>
       new Date(2020, i).toLocaleString('en', { month: 'long' })
     ),
+    era: 'AD',
   },
+  /* Thai solar calendar: Gregorian months, Buddhist Era years */
   buddhist: {
     firstDay: 1,
-    monthNames: [
-      'Poson',
-      'Āsāḷha',
-      'Sāvana',
-      'Bhādrapada',
-      'Āśvina',
-      'Kārttika',
-      'Mārgaśīrṣa',
-      'Pauṣa',
-      'Māgha',
-      'Phālguna',
-      'Caitra',
-      'Vaiśākha',
-    ],
+    monthNames: Array.from({ length: 12 }, (_, i) =>
+      new Date(2020, i).toLocaleString('en', { month: 'long' })
+    ),
+    era: 'BE',
   },
   persian: {
     firstDay: 1,
@@ -239,11 +513,89 @@ export const calendars: Record<
       'Bahman',
       'Esfand',
     ],
+    era: 'AP',
+  },
+  'islamic-civil': { firstDay: 1, monthNames: HIJRI_MONTHS, era: 'AH' },
+  'islamic-umalqura': { firstDay: 1, monthNames: HIJRI_MONTHS, era: 'AH' },
+  /* month names run Tishri to Elul with both Adars, then the common
+   * year's Adar */
+  hebrew: {
+    firstDay: 1,
+    monthNames: [
+      'Tishri',
+      'Heshvan',
+      'Kislev',
+      'Tevet',
+      'Shevat',
+      'Adar I',
+      'Adar II',
+      'Nisan',
+      'Iyar',
+      'Sivan',
+      'Tamuz',
+      'Av',
+      'Elul',
+      'Adar',
+    ],
+    era: 'AM',
   },
 };
 
+/* A date in a calendar system; `m` is the month's position in its year */
+export type CalendarDate = PlainDate &
+  Readonly<{ readonly calendar: Calendar }>;
+
+const calendarSystems: Record<Calendar, CalendarSystem> = {
+  gregory: gregorian,
+  iso8601: gregorian,
+  buddhist,
+  persian,
+  'islamic-civil': islamicCivil,
+  'islamic-umalqura': islamicUmalqura,
+  hebrew,
+};
+
+/* calendars whose months are the Gregorian ones, named through Intl */
+const GREGORIAN_MONTHS: ReadonlySet<Calendar> = new Set<Calendar>([
+  'gregory',
+  'iso8601',
+  'buddhist',
+]);
+
+const clamp = (n: number, lo: number, hi: number) =>
+  Math.min(Math.max(n, lo), hi);
+
+export const isCalendarLeapYear = (calendar: Calendar, y: number): boolean =>
+  calendarSystems[calendar].isLeapYear(y);
+
+export const monthsInCalendarYear = (calendar: Calendar, y: number): number =>
+  calendarSystems[calendar].monthsInYear(y);
+
+export const daysInCalendarMonth = (
+  calendar: Calendar,
+  y: number,
+  m: number
+): number => calendarSystems[calendar].daysInMonth(y, m);
+
+/* the date of a (Gregorian) PlainDate in `calendar` */
+export const toCalendarDate =
+  (calendar: Calendar) =>
+  (d: PlainDate): CalendarDate => ({
+    calendar,
+    ...calendarSystems[calendar].fromDays(daysFromCivil(d.y, d.m, d.d)),
+  });
+
+/* back to a (Gregorian) PlainDate; out-of-range months and days are
+ * clamped to the calendar's year and month */
+export const fromCalendarDate = (cd: CalendarDate): PlainDate => {
+  const system = calendarSystems[cd.calendar];
+  const m = clamp(cd.m, 1, system.monthsInYear(cd.y));
+  const d = clamp(cd.d, 1, system.daysInMonth(cd.y, m));
+  return civilFromDays(system.toDays({ y: cd.y, m, d }));
+};
+
 /* ------------------------------------------------------------------ *
- *  5.  LOCALE  &  FORMATTING
+ *  5.  LOCALE,  FORMATTING  &  PARSING
  * ------------------------------------------------------------------ */
 export type Locale = string;
 export type FormatToken =
@@ -271,80 +623,760 @@ export type FormatToken =
   | 'a'
   | 'A'
   | 'Z'
-  | 'ZZ';
+  | 'ZZ'
+  | 'X'
+  | 'XXX'
+  | 'z'
+  | 'zzzz'
+  | 'VV'
+  | 'G'
+  | 'GGGG'
+  | 'WW'
+  | 'W'
+  | 'gggg'
+  | 'ww'
+  | 'w'
+  | 'E'
+  | 'DDD'
+  | 'Q';
+
+/* longest tokens first so that e.g. 'ZZ' is not read as two 'Z's; text in
+ * square brackets is a literal */
+const FORMAT_TOKENS =
+  /(\[[^\]]*\]|YYYY|YY|MMMM|MMM|MM|M|DDD|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|SS|S|a|A|ZZ|Z|XXX|X|zzzz|z|VV|GGGG|G|WW|W|gggg|ww|w|E|Q)/g;
+
+/* "[W]" to "W" */
+const literal = (part: string): string => part.replace(/^\[(.*)\]$/, '$1');
+
+/* "+05:30" (or "+0530" without separator) for minutes east of UTC */
+export const formatOffset = (
+  offsetMinutes: number,
+  separator = ':'
+): string => {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  const hh = Math.floor(abs / 60)
+    .toString()
+    .padStart(2, '0');
+  const mm = (abs % 60).toString().padStart(2, '0');
+  return `${sign}${hh}${separator}${mm}`;
+};
+
+/* localized zone name ("EDT", "Eastern Daylight Time", "Eastern Time") */
+export const timeZoneName = (
+  tzName: string,
+  i: Instant,
+  style: 'short' | 'long' | 'shortGeneric' | 'longGeneric' = 'short',
+  locale: Locale = 'en'
+): string | undefined => {
+  try {
+    return new Intl.DateTimeFormat(locale, {
+      timeZone: tzName,
+      // the generic styles ("Eastern Time") are ES2021, newer than our lib
+      timeZoneName: style as Intl.DateTimeFormatOptions['timeZoneName'],
+    })
+      .formatToParts(new Date(i.epochMs))
+      .find((part) => part.type === 'timeZoneName')?.value;
+  } catch {
+    return undefined;
+  }
+};
+
+/* UTC-anchored Date for name lookups (immune to the host zone's DST gaps) */
+const utcDate = (pdt: PlainDateTime): Date => {
+  const d = new Date(
+    Date.UTC(2000, pdt.m - 1, pdt.d, pdt.h, pdt.min, pdt.s, pdt.ms)
+  );
+  d.setUTCFullYear(pdt.y);
+  return d;
+};
+
+const MAX_CACHED_NAMES = 1000;
+const monthNameLists = new Map<string, readonly string[]>(); // "calendar locale width"
+
+/* month names of a calendar with its own months, in the order of its
+ * `monthNames`, localized where Intl knows the calendar. Each name is read
+ * off the 15th of a month that carries it (within three years, which
+ * covers the Hebrew leap month) */
+const calendarMonthNames = (
+  calendar: Calendar,
+  locale: Locale,
+  width: 'long' | 'short'
+): readonly string[] => {
+  const key = `${calendar} ${locale} ${width}`;
+  const cached = monthNameLists.get(key);
+  if (cached) return cached;
+  const system = calendarSystems[calendar];
+  const base = toCalendarDate(calendar)(EPOCH).y;
+  const names = calendars[calendar].monthNames.map((fallback, index) => {
+    const y =
+      [base, base + 1, base + 2].find(
+        (year) =>
+          system.nameIndex(year, system.monthOfName(year, index)) === index
+      ) ?? base;
+    const date = fromCalendarDate({
+      calendar,
+      y,
+      m: system.monthOfName(y, index),
+      d: 15,
+    });
+    try {
+      return new Intl.DateTimeFormat(`${locale}-u-ca-${calendar}`, {
+        month: width,
+        timeZone: 'UTC',
+      }).format(utcDate({ ...date, h: 0, min: 0, s: 0, ms: 0 }));
+    } catch {
+      return fallback;
+    }
+  });
+  if (monthNameLists.size >= MAX_CACHED_NAMES) monthNameLists.clear();
+  monthNameLists.set(key, names);
+  return names;
+};
+
+/* month name in a calendar whose months are not the Gregorian ones */
+const calendarMonthName = (
+  calendar: Calendar,
+  date: PlainDate,
+  locale: Locale,
+  width: 'long' | 'short'
+): string =>
+  calendarMonthNames(calendar, locale, width)[
+    calendarSystems[calendar].nameIndex(date.y, date.m)
+  ] ?? date.m.toString();
+
+/* era of a date ("AD", "BE", "AP"), localized where Intl knows it */
+const eraName = (
+  calendar: Calendar,
+  pdt: PlainDateTime,
+  locale: Locale
+): string => {
+  try {
+    return (
+      new Intl.DateTimeFormat(`${locale}-u-ca-${calendar}`, {
+        era: 'short',
+        timeZone: 'UTC',
+      })
+        .formatToParts(utcDate(pdt))
+        .find((part) => part.type === 'era')?.value ?? calendars[calendar].era
+    );
+  } catch {
+    return calendars[calendar].era;
+  }
+};
 
 export const formatToken = (
   token: FormatToken,
   pdt: PlainDateTime,
-  locale: Locale
+  locale: Locale,
+  tz: TimeZone = UTC,
+  calendar: Calendar = 'gregory'
 ): string => {
-  const d = new Date(pdt.y, pdt.m - 1, pdt.d, pdt.h, pdt.min, pdt.s, pdt.ms);
+  // year, month and day tokens render the date in `calendar`
+  const date: PlainDate =
+    calendarSystems[calendar] === gregorian
+      ? pdt
+      : toCalendarDate(calendar)(pdt);
+  const intlMonths = GREGORIAN_MONTHS.has(calendar);
   switch (token) {
     case 'YYYY':
-      return d.getFullYear().toString();
+      return date.y.toString();
     case 'YY':
-      return d.getFullYear().toString().slice(-2);
+      return date.y.toString().slice(-2);
     case 'MMMM':
-      return d.toLocaleString(locale, { month: 'long' });
+      return intlMonths
+        ? utcDate(pdt).toLocaleString(locale, {
+            month: 'long',
+            timeZone: 'UTC',
+          })
+        : calendarMonthName(calendar, date, locale, 'long');
     case 'MMM':
-      return d.toLocaleString(locale, { month: 'short' });
+      return intlMonths
+        ? utcDate(pdt).toLocaleString(locale, {
+            month: 'short',
+            timeZone: 'UTC',
+          })
+        : calendarMonthName(calendar, date, locale, 'short');
     case 'MM':
-      return (d.getMonth() + 1).toString().padStart(2, '0');
+      return date.m.toString().padStart(2, '0');
     case 'M':
-      return (d.getMonth() + 1).toString();
+      return date.m.toString();
     case 'DD':
-      return d.getDate().toString().padStart(2, '0');
+      return date.d.toString().padStart(2, '0');
     case 'D':
-      return d.getDate().toString();
+      return date.d.toString();
     case 'dddd':
-      return d.toLocaleString(locale, { weekday: 'long' });
+      return utcDate(pdt).toLocaleString(locale, {
+        weekday: 'long',
+        timeZone: 'UTC',
+      });
     case 'ddd':
-      return d.toLocaleString(locale, { weekday: 'short' });
+      return utcDate(pdt).toLocaleString(locale, {
+        weekday: 'short',
+        timeZone: 'UTC',
+      });
     case 'HH':
-      return d.getHours().toString().padStart(2, '0');
+      return pdt.h.toString().padStart(2, '0');
     case 'H':
-      return d.getHours().toString();
+      return pdt.h.toString();
     case 'hh':
-      return (d.getHours() % 12 || 12).toString().padStart(2, '0');
+      return (pdt.h % 12 || 12).toString().padStart(2, '0');
     case 'h':
-      return (d.getHours() % 12 || 12).toString();
+      return (pdt.h % 12 || 12).toString();
     case 'mm':
-      return d.getMinutes().toString().padStart(2, '0');
+      return pdt.min.toString().padStart(2, '0');
     case 'm':
-      return d.getMinutes().toString();
+      return pdt.min.toString();
     case 'ss':
-      return d.getSeconds().toString().padStart(2, '0');
+      return pdt.s.toString().padStart(2, '0');
     case 's':
-      return d.getSeconds().toString();
+      return pdt.s.toString();
     case 'SSS':
-      return d.getMilliseconds().toString().padStart(3, '0');
+      return pdt.ms.toString().padStart(3, '0');
     case 'SS':
-      return Math.floor(d.getMilliseconds() / 10)
+      return Math.floor(pdt.ms / 10)
         .toString()
         .padStart(2, '0');
     case 'S':
-      return Math.floor(d.getMilliseconds() / 100).toString();
+      return Math.floor(pdt.ms / 100).toString();
     case 'a':
-      return d.getHours() < 12 ? 'am' : 'pm';
+      return pdt.h < 12 ? 'am' : 'pm';
     case 'A':
-      return d.getHours() < 12 ? 'AM' : 'PM';
+      return pdt.h < 12 ? 'AM' : 'PM';
     case 'Z':
-      return '+00:00'; // UTC offset placeholder
+      return formatOffset(tz.offsetMinutes);
     case 'ZZ':
-      return '+0000'; // UTC offset placeholder
+      return formatOffset(tz.offsetMinutes, '');
+    case 'X':
+      return tz.offsetMinutes === 0
+        ? 'Z'
+        : tz.offsetMinutes % 60 === 0
+        ? formatOffset(tz.offsetMinutes).slice(0, 3)
+        : formatOffset(tz.offsetMinutes, '');
+    case 'XXX':
+      return tz.offsetMinutes === 0 ? 'Z' : formatOffset(tz.offsetMinutes);
+    case 'z':
+      return (
+        tz.abbreviation ??
+        timeZoneName(tz.name, localInstant(pdt, tz), 'short', locale) ??
+        `GMT${formatOffset(tz.offsetMinutes)}`
+      );
+    case 'zzzz':
+      return (
+        timeZoneName(tz.name, localInstant(pdt, tz), 'long', locale) ??
+        `GMT${formatOffset(tz.offsetMinutes)}`
+      );
+    case 'VV':
+      return tz.name;
+    case 'G':
+      return eraName(calendar, pdt, locale);
+    case 'GGGG':
+      return isoWeekYear(pdt).toString();
+    case 'WW':
+      return isoWeek(pdt).toString().padStart(2, '0');
+    case 'W':
+      return isoWeek(pdt).toString();
+    case 'gggg':
+      return weekYear(pdt, localeWeekRule(locale)).toString();
+    case 'ww':
+      return weekOfYear(pdt, localeWeekRule(locale))
+        .toString()
+        .padStart(2, '0');
+    case 'w':
+      return weekOfYear(pdt, localeWeekRule(locale)).toString();
+    case 'E':
+      return dayOfWeek(pdt).toString();
+    case 'DDD':
+      return dayOfYear(pdt).toString().padStart(3, '0');
+    case 'Q':
+      return quarter(pdt).toString();
     default:
-      return token;
+      return literal(token);
   }
 };
 
+/* instant of a wall-clock reading at the zone's (known) offset */
+const localInstant = (pdt: PlainDateTime, tz: TimeZone): Instant =>
+  instant(fromPlain(pdt).epochMs - tz.offsetMinutes * MILLIS.MINUTE);
+
+const isZoned = (
+  value: PlainDateTime | ZDT<PlainDateTime>
+): value is ZDT<PlainDateTime> => 'payload' in value;
+
+/* format a wall-clock reading; the zone comes from `tz` or from a ZDT
+ * value, and the date is rendered in `calendar` */
 export const format = (
   pattern: string,
-  pdt: PlainDateTime,
-  locale = 'en'
+  value: PlainDateTime | ZDT<PlainDateTime>,
+  locale = 'en',
+  tz?: TimeZone,
+  calendar: Calendar = 'gregory'
+): string => {
+  const pdt = isZoned(value) ? value.payload : value;
+  const z = tz ?? (isZoned(value) ? value.zone : UTC);
+  return pattern.replace(FORMAT_TOKENS, (t) =>
+    formatToken(t as FormatToken, pdt, locale, z, calendar)
+  );
+};
+
+/* Parsing mirrors `format`: each token reads back what it renders */
+type ParsedFields = {
+  readonly y?: number;
+  readonly m?: number;
+  readonly d?: number;
+  /* position in the calendar's month names (MMMM, MMM), resolved against
+   * the year once it is known */
+  readonly monthName?: number;
+  /* week date (GGGG/gggg, WW/ww, E) and ordinal date (DDD) fields */
+  readonly weekYear?: number;
+  readonly week?: number;
+  readonly weekday?: number;
+  readonly weekRule?: WeekRule;
+  readonly dayOfYear?: number;
+  readonly h?: number;
+  readonly min?: number;
+  readonly s?: number;
+  readonly ms?: number;
+  readonly pm?: boolean;
+  readonly offsetMinutes?: number;
+  readonly zoneName?: string;
+};
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/* the names `formatToken` renders, indexed from January / Sunday (from
+ * the calendar's first month for calendars with their own months) */
+const localizedNames = (
+  token: 'MMMM' | 'MMM' | 'dddd' | 'ddd',
+  locale: Locale,
+  calendar: Calendar = 'gregory'
+): readonly string[] =>
+  token === 'dddd' || token === 'ddd'
+    ? Array.from({ length: 7 }, (_, i) =>
+        formatToken(token, dateTime(2000, 1, 2 + i, 0, 0, 0, 0), locale)
+      )
+    : GREGORIAN_MONTHS.has(calendar)
+    ? Array.from({ length: 12 }, (_, i) =>
+        formatToken(token, dateTime(2000, i + 1, 1, 0, 0, 0, 0), locale)
+      )
+    : calendarMonthNames(calendar, locale, token === 'MMMM' ? 'long' : 'short');
+
+/* the eras `G` renders (or accepts) for a calendar */
+const eraNames = (calendar: Calendar, locale: Locale): readonly string[] => [
+  eraName(calendar, EPOCH, locale),
+  calendars[calendar].era,
+];
+
+const namesSource = (names: readonly string[]): string =>
+  [...names]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+
+const tokenSource = (
+  token: FormatToken,
+  locale: Locale,
+  calendar: Calendar
+): string => {
+  switch (token) {
+    case 'YYYY':
+    case 'GGGG':
+    case 'gggg':
+      return '[+-]?\\d{1,6}';
+    case 'MMMM':
+    case 'MMM':
+    case 'dddd':
+    case 'ddd':
+      return namesSource(localizedNames(token, locale, calendar));
+    case 'G':
+      return namesSource(eraNames(calendar, locale));
+    case 'YY':
+    case 'MM':
+    case 'DD':
+    case 'WW':
+    case 'ww':
+    case 'HH':
+    case 'hh':
+    case 'mm':
+    case 'ss':
+    case 'SS':
+      return '\\d{2}';
+    case 'M':
+    case 'D':
+    case 'W':
+    case 'w':
+    case 'H':
+    case 'h':
+    case 'm':
+    case 's':
+      return '\\d{1,2}';
+    case 'SSS':
+    case 'DDD':
+      return '\\d{3}';
+    case 'E':
+      return '[1-7]';
+    case 'Q':
+      return '[1-4]';
+    case 'S':
+      return '\\d';
+    case 'a':
+    case 'A':
+      return '[ap]m';
+    case 'Z':
+      return '[+-]\\d{2}:\\d{2}';
+    case 'ZZ':
+      return '[+-]\\d{4}';
+    case 'X':
+      return 'Z|[+-]\\d{2}(?:\\d{2})?';
+    case 'XXX':
+      return 'Z|[+-]\\d{2}:\\d{2}';
+    case 'z':
+      return '[a-z][a-z0-9+:-]*';
+    case 'zzzz':
+      return "[a-z][a-z .'-]*?";
+    case 'VV':
+      return '[a-z_]+(?:/[a-z0-9_+-]+)*';
+    default:
+      return escapeRegExp(literal(token));
+  }
+};
+
+/* "+05:30", "-0400", "+05" or "Z" to minutes east of UTC */
+const parseOffset = (text: string): number => {
+  if (text.toUpperCase() === 'Z') return 0;
+  const digits = text.slice(1).replace(':', '');
+  const minutes =
+    Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || '0');
+  return text[0] === '-' ? -minutes : minutes;
+};
+
+const nameIndex = (names: readonly string[], text: string): number =>
+  names.findIndex((n) => n.toLowerCase() === text.toLowerCase());
+
+/* two-digit years fall in the hundred calendar years from 1969 CE */
+const fullYear = (yy: number, calendar: Calendar): number => {
+  const first = toCalendarDate(calendar)({ y: 1969, m: 7, d: 1 }).y;
+  return first + mod(yy - first, 100);
+};
+
+const applyToken = (
+  fields: ParsedFields,
+  token: FormatToken,
+  text: string,
+  locale: Locale,
+  calendar: Calendar
+): ParsedFields => {
+  switch (token) {
+    case 'YYYY':
+      return { ...fields, y: Number(text) };
+    case 'YY':
+      return { ...fields, y: fullYear(Number(text), calendar) };
+    case 'MMMM':
+    case 'MMM':
+      return GREGORIAN_MONTHS.has(calendar)
+        ? {
+            ...fields,
+            m: nameIndex(localizedNames(token, locale, calendar), text) + 1,
+          }
+        : {
+            ...fields,
+            monthName: nameIndex(localizedNames(token, locale, calendar), text),
+          };
+    case 'MM':
+    case 'M':
+      return { ...fields, m: Number(text) };
+    case 'DD':
+    case 'D':
+      return { ...fields, d: Number(text) };
+    case 'DDD':
+      return { ...fields, dayOfYear: Number(text) };
+    case 'GGGG':
+      return { ...fields, weekYear: Number(text), weekRule: ISO_WEEK };
+    case 'WW':
+    case 'W':
+      return { ...fields, week: Number(text), weekRule: ISO_WEEK };
+    case 'gggg':
+      return {
+        ...fields,
+        weekYear: Number(text),
+        weekRule: localeWeekRule(locale),
+      };
+    case 'ww':
+    case 'w':
+      return {
+        ...fields,
+        week: Number(text),
+        weekRule: localeWeekRule(locale),
+      };
+    case 'E':
+      return { ...fields, weekday: Number(text) };
+    case 'HH':
+    case 'H':
+    case 'hh':
+    case 'h':
+      return { ...fields, h: Number(text) };
+    case 'mm':
+    case 'm':
+      return { ...fields, min: Number(text) };
+    case 'ss':
+    case 's':
+      return { ...fields, s: Number(text) };
+    case 'SSS':
+      return { ...fields, ms: Number(text) };
+    case 'SS':
+      return { ...fields, ms: Number(text) * 10 };
+    case 'S':
+      return { ...fields, ms: Number(text) * 100 };
+    case 'a':
+    case 'A':
+      return { ...fields, pm: text.toLowerCase() === 'pm' };
+    case 'Z':
+    case 'ZZ':
+    case 'X':
+    case 'XXX':
+      return { ...fields, offsetMinutes: parseOffset(text) };
+    case 'VV':
+      return { ...fields, zoneName: text };
+    default:
+      // weekday, era, quarter and zone names carry no information beyond
+      // the other fields
+      return fields;
+  }
+};
+
+const EPOCH: PlainDateTime = Object.freeze({
+  y: 1970,
+  m: 1,
+  d: 1,
+  h: 0,
+  min: 0,
+  s: 0,
+  ms: 0,
+});
+
+const isOffsetToken = (part: string): boolean =>
+  part === 'Z' || part === 'ZZ' || part === 'X' || part === 'XXX';
+
+/* `pattern` split into literals (even indices) and tokens (odd indices) */
+const patternSource = (
+  parts: readonly string[],
+  locale: Locale,
+  calendar: Calendar
 ): string =>
-  pattern.replace(
-    /(YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|SS|S|a|A|Z|ZZ)/g,
-    (t) => formatToken(t as FormatToken, pdt, locale)
+  parts
+    .map((part, i) =>
+      i % 2 === 1
+        ? `(${tokenSource(part as FormatToken, locale, calendar)})`
+        : escapeRegExp(part)
+    )
+    .join('');
+
+/* where a pattern stops matching: the first part whose prefix fails */
+const patternFailure = (
+  input: string,
+  parts: readonly string[],
+  locale: Locale,
+  calendar: Calendar
+): ReamError => {
+  const prefixMatch = (k: number) =>
+    new RegExp(
+      `^${patternSource(parts.slice(0, k), locale, calendar)}`,
+      'i'
+    ).exec(input);
+  const failing = parts.findIndex((_, k) => !prefixMatch(k + 1));
+  const position =
+    failing === -1 ? input.length : prefixMatch(failing)?.[0].length ?? 0;
+  return failing !== -1 && isOffsetToken(parts[failing])
+    ? { kind: 'malformed-offset', input, position }
+    : { kind: 'malformed', input, position };
+};
+
+/* wall-clock fields of `input` read with `pattern` */
+const readPattern = (
+  input: string,
+  pattern: string,
+  locale: Locale,
+  calendar: Calendar
+): Result<ParsedFields> => {
+  const text = input.trim();
+  const parts = pattern.split(FORMAT_TOKENS);
+  const tokens = parts.filter((_, i) => i % 2 === 1) as readonly FormatToken[];
+  const match = new RegExp(
+    `^${patternSource(parts, locale, calendar)}$`,
+    'i'
+  ).exec(text);
+  return match
+    ? ok(
+        tokens.reduce<ParsedFields>(
+          (fields, token, i) =>
+            applyToken(fields, token, match[i + 1], locale, calendar),
+          {}
+        )
+      )
+    : err(patternFailure(text, parts, locale, calendar));
+};
+
+const MAX_OFFSET_MINUTES = 18 * 60;
+
+/* first field of `pdt` outside its calendar range, if any */
+export const validateDateTime = (pdt: PlainDateTime): Result<PlainDateTime> => {
+  const dim =
+    pdt.m >= 1 && pdt.m <= 12
+      ? daysInMonth[pdt.m - 1] + (pdt.m === 2 && isLeap(pdt.y) ? 1 : 0)
+      : 31;
+  const ranges: readonly (readonly [keyof PlainDateTime, number, number])[] = [
+    ['y', -271820, 275759],
+    ['m', 1, 12],
+    ['d', 1, dim],
+    ['h', 0, 23],
+    ['min', 0, 59],
+    ['s', 0, 59],
+    ['ms', 0, 999],
+  ];
+  const bad = ranges.find(
+    ([field, lo, hi]) =>
+      !Number.isInteger(pdt[field]) || pdt[field] < lo || pdt[field] > hi
+  );
+  return bad
+    ? err({ kind: 'out-of-range', field: bad[0], value: pdt[bad[0]] })
+    : ok(pdt);
+};
+
+/* parsed calendar fields re-expressed as Gregorian ones */
+const toGregorianFields = (
+  fields: ParsedFields,
+  calendar: Calendar
+): Result<ParsedFields> => {
+  if (calendarSystems[calendar] === gregorian) return ok(fields);
+  const base = toCalendarDate(calendar)(EPOCH);
+  const y = fields.y ?? base.y;
+  const m =
+    fields.monthName === undefined
+      ? fields.m ?? base.m
+      : calendarSystems[calendar].monthOfName(y, fields.monthName);
+  const d = fields.d ?? base.d;
+  if (!Number.isInteger(m) || m < 1 || m > monthsInCalendarYear(calendar, y))
+    return err({ kind: 'out-of-range', field: 'm', value: m });
+  if (!Number.isInteger(d) || d < 1 || d > daysInCalendarMonth(calendar, y, m))
+    return err({ kind: 'out-of-range', field: 'd', value: d });
+  return ok({ ...fields, ...fromCalendarDate({ calendar, y, m, d }) });
+};
+
+/* week-date and ordinal fields resolved to a calendar date */
+const resolveWeekFields = (fields: ParsedFields): Result<ParsedFields> => {
+  const rule = fields.weekRule ?? ISO_WEEK;
+  if (fields.week !== undefined || fields.weekYear !== undefined) {
+    const y = fields.weekYear ?? fields.y ?? EPOCH.y;
+    const week = fields.week ?? 1;
+    if (week < 1 || week > weeksInYear(y, rule))
+      return err({ kind: 'out-of-range', field: 'week', value: week });
+    const weekday = fields.weekday ?? rule.firstDay;
+    if (weekday < 1 || weekday > 7)
+      return err({ kind: 'out-of-range', field: 'weekday', value: weekday });
+    return ok({ ...fields, ...fromWeekDate(y, week, weekday, rule) });
+  }
+  if (fields.dayOfYear !== undefined) {
+    const y = fields.y ?? EPOCH.y;
+    if (fields.dayOfYear < 1 || fields.dayOfYear > (isLeap(y) ? 366 : 365))
+      return err({
+        kind: 'out-of-range',
+        field: 'dayOfYear',
+        value: fields.dayOfYear,
+      });
+    return ok({ ...fields, ...fromOrdinalDate(y, fields.dayOfYear) });
+  }
+  return ok(fields);
+};
+
+const toDateTime = (fields: ParsedFields): Result<PlainDateTime> => {
+  const h12 = fields.h ?? 12;
+  if (fields.pm !== undefined && (h12 < 1 || h12 > 12))
+    return err({ kind: 'out-of-range', field: 'h', value: h12 });
+  if (
+    fields.offsetMinutes !== undefined &&
+    Math.abs(fields.offsetMinutes) > MAX_OFFSET_MINUTES
+  )
+    return err({
+      kind: 'out-of-range',
+      field: 'offset',
+      value: fields.offsetMinutes,
+    });
+  return validateDateTime(
+    dateTime(
+      fields.y ?? EPOCH.y,
+      fields.m ?? EPOCH.m,
+      fields.d ?? EPOCH.d,
+      fields.pm === undefined
+        ? fields.h ?? 0
+        : (h12 % 12) + (fields.pm ? 12 : 0),
+      fields.min ?? 0,
+      fields.s ?? 0,
+      fields.ms ?? 0
+    )
+  );
+};
+
+/* parse `input` laid out as `pattern` (the same tokens `format` renders);
+ * the wall clock is read in `zoneName` unless the input carries an offset
+ * or an IANA id (`VV`), and its date in `calendar`. An offset fixes the
+ * instant, which is then shown on the zone's wall clock; an offset the
+ * input's own zone id doesn't have at that instant is out of range. */
+export const tryParse = (
+  input: string,
+  pattern: string,
+  locale: Locale = 'en',
+  zoneName?: string,
+  calendar: Calendar = 'gregory'
+): Result<ZDT<PlainDateTime>> => {
+  const read = readPattern(input, pattern, locale, calendar);
+  if (!read.ok) return read;
+  const calendarFields = toGregorianFields(read.value, calendar);
+  if (!calendarFields.ok) return calendarFields;
+  const fields = resolveWeekFields(calendarFields.value);
+  if (!fields.ok) return fields;
+  const pdt = toDateTime(fields.value);
+  if (!pdt.ok) return pdt;
+  const { offsetMinutes } = fields.value;
+  const name = fields.value.zoneName ?? zoneName;
+  if (name && !isValidTimezone(name))
+    return err({ kind: 'unknown-zone', zone: name });
+  const i =
+    offsetMinutes !== undefined
+      ? instant(fromPlain(pdt.value).epochMs - offsetMinutes * MILLIS.MINUTE)
+      : name
+      ? fromZonedPlain(pdt.value, zone(name, fromPlain(pdt.value)))
+      : fromPlain(pdt.value);
+  const tz = name
+    ? zone(name, i)
+    : offsetMinutes
+    ? fixedZone(offsetMinutes)
+    : UTC;
+  if (
+    offsetMinutes !== undefined &&
+    fields.value.zoneName !== undefined &&
+    offsetMinutes !== tz.offsetMinutes
+  )
+    return err({ kind: 'out-of-range', field: 'offset', value: offsetMinutes });
+  return ok(
+    zdt(
+      i,
+      tz,
+      offsetMinutes !== undefined && name ? toZonedPlain(i, tz) : pdt.value
+    )
+  );
+};
+
+/* total `tryParse`: unparseable input yields the epoch in UTC */
+export const parse = (
+  input: string,
+  pattern: string,
+  locale: Locale = 'en',
+  zoneName?: string,
+  calendar: Calendar = 'gregory'
+): ZDT<PlainDateTime> =>
+  getOrElse(zdt(instant(0), UTC, EPOCH))(
+    tryParse(input, pattern, locale, zoneName, calendar)
   );
 
 /* ------------------------------------------------------------------ *
@@ -367,6 +1399,221 @@ export const durations = {
   weeks: (n: number): Duration => ({ ms: n * MILLIS.WEEK }),
 };
 
+export type DurationUnit = keyof typeof durations;
+
+const DURATION_UNITS: readonly DurationUnit[] = [
+  'weeks',
+  'days',
+  'hours',
+  'minutes',
+  'seconds',
+  'milliseconds',
+];
+
+export const negate = (d: Duration): Duration => ({ ms: 0 - d.ms });
+export const abs = (d: Duration): Duration => ({ ms: Math.abs(d.ms) });
+export const multiply = (d: Duration, n: number): Duration => ({
+  ms: d.ms * n,
+});
+
+type Divide = {
+  (d: Duration, n: number): Duration;
+  (d: Duration, by: Duration): number;
+};
+
+/* a duration divided by a number is a duration, by a duration a ratio */
+export const divide: Divide = ((d: Duration, by: number | Duration) =>
+  typeof by === 'number' ? { ms: d.ms / by } : d.ms / by.ms) as Divide;
+
+export const compareDurations = (a: Duration, b: Duration): -1 | 0 | 1 =>
+  a.ms < b.ms ? -1 : a.ms > b.ms ? 1 : 0;
+export const minDuration = (a: Duration, b: Duration): Duration =>
+  b.ms < a.ms ? b : a;
+export const maxDuration = (a: Duration, b: Duration): Duration =>
+  b.ms > a.ms ? b : a;
+
+/* the duration in `unit`s, fractional */
+export const total = (d: Duration, unit: DurationUnit): number =>
+  d.ms / durations[unit](1).ms;
+
+/* How a value between two increments is rounded (as in Temporal): toward
+ * +/- infinity (ceil/floor), away from or toward zero (expand/trunc), or
+ * to the nearest, with ties going one of those ways or to even */
+export type RoundingMode =
+  | 'ceil'
+  | 'floor'
+  | 'expand'
+  | 'trunc'
+  | 'halfCeil'
+  | 'halfFloor'
+  | 'halfExpand'
+  | 'halfTrunc'
+  | 'halfEven';
+
+const roundNumber = (x: number, mode: RoundingMode): number => {
+  const lower = Math.floor(x);
+  const upper = Math.ceil(x);
+  const away = x < 0 ? lower : upper;
+  const toward = x < 0 ? upper : lower;
+  const tie = x - lower === 0.5;
+  switch (mode) {
+    case 'ceil':
+      return upper;
+    case 'floor':
+      return lower;
+    case 'expand':
+      return away;
+    case 'trunc':
+      return toward;
+    case 'halfCeil':
+      return tie ? upper : Math.round(x);
+    case 'halfFloor':
+      return tie ? lower : Math.round(x);
+    case 'halfExpand':
+      return tie ? away : Math.round(x);
+    case 'halfTrunc':
+      return tie ? toward : Math.round(x);
+    case 'halfEven':
+      return tie ? (lower % 2 === 0 ? lower : upper) : Math.round(x);
+  }
+};
+
+/* the multiple of `increment` that `mode` rounds `d` to */
+export const roundDuration = (
+  d: Duration,
+  increment: Duration,
+  mode: RoundingMode = 'halfExpand'
+): Duration => ({
+  ms: 0 + roundNumber(d.ms / increment.ms, mode) * increment.ms,
+});
+
+/* `d` split into units from `largest` down to `smallest` (as a Period, all
+ * fields carrying the sign of `d`); what is left below `smallest` is
+ * dropped, so round first to keep it */
+export const balance = (
+  d: Duration,
+  largest: DurationUnit = 'days',
+  smallest: DurationUnit = 'milliseconds'
+): Period => {
+  const units = DURATION_UNITS.slice(
+    DURATION_UNITS.indexOf(largest),
+    DURATION_UNITS.indexOf(smallest) + 1
+  );
+  const sign = d.ms < 0 ? -1 : 1;
+  const [fields] = units.reduce<readonly [Partial<Period>, number]>(
+    ([acc, rest], unit) => {
+      const size = durations[unit](1).ms;
+      const n = Math.floor(rest / size);
+      return [{ ...acc, [unit]: 0 + sign * n }, rest - n * size];
+    },
+    [{}, Math.abs(d.ms)]
+  );
+  return period(fields);
+};
+
+const PERIOD_FIELDS: readonly (keyof Period)[] = [
+  'years',
+  'months',
+  'weeks',
+  'days',
+  'hours',
+  'minutes',
+  'seconds',
+  'milliseconds',
+];
+
+export const period = (fields: Partial<Period> = {}): Period =>
+  Object.freeze({
+    years: 0,
+    months: 0,
+    weeks: 0,
+    days: 0,
+    hours: 0,
+    minutes: 0,
+    seconds: 0,
+    milliseconds: 0,
+    ...fields,
+  });
+
+/* the exact (hours and below) part of a period */
+const periodTimeMs = (p: Period): number =>
+  p.hours * MILLIS.HOUR +
+  p.minutes * MILLIS.MINUTE +
+  p.seconds * MILLIS.SECOND +
+  p.milliseconds;
+
+/* ISO 8601 duration: "P1Y2M10DT2H30M", "P2W", "PT0.5S" or "-P1D" (signed
+ * fields as in "P1M-1D" are read too); fractions only on seconds */
+const ISO_PERIOD =
+  /^([+-])?P(?:([+-]?\d+)Y)?(?:([+-]?\d+)M)?(?:([+-]?\d+)W)?(?:([+-]?\d+)D)?(?:T(?:([+-]?\d+)H)?(?:([+-]?\d+)M)?(?:([+-]?\d+)(?:[.,](\d{1,9}))?S)?)?/i;
+
+export const tryParsePeriod = (text: string): Result<Period> => {
+  const input = text.trim();
+  const match = ISO_PERIOD.exec(input);
+  if (!match) return err({ kind: 'malformed', input, position: 0 });
+  const [prefix, sign, y, mo, w, d, h, min, s, frac] = match;
+  const complete =
+    prefix.length === input.length &&
+    [y, mo, w, d, h, min, s].some((f) => f !== undefined) &&
+    !/T$/i.test(prefix);
+  if (!complete)
+    return err({ kind: 'malformed', input, position: prefix.length });
+  const k = sign === '-' ? -1 : 1;
+  const n = (field?: string) => 0 + k * Number(field ?? 0); // never -0
+  const secondsSign = (s ?? '').startsWith('-') ? -1 : 1;
+  const fraction = Number((frac ?? '0').slice(0, 3).padEnd(3, '0'));
+  return ok(
+    period({
+      years: n(y),
+      months: n(mo),
+      weeks: n(w),
+      days: n(d),
+      hours: n(h),
+      minutes: n(min),
+      seconds: n(s),
+      milliseconds: 0 + k * secondsSign * fraction,
+    })
+  );
+};
+
+/* total `tryParsePeriod`: invalid input yields the empty period */
+export const parsePeriod = (text: string): Period =>
+  getOrElse(period())(tryParsePeriod(text));
+
+/* "1.5" for 1500 ms */
+const isoSeconds = (ms: number): string => {
+  const fraction = Math.abs(ms % MILLIS.SECOND);
+  return `${ms < 0 ? '-' : ''}${Math.trunc(Math.abs(ms) / MILLIS.SECOND)}${
+    fraction === 0
+      ? ''
+      : `.${fraction.toString().padStart(3, '0').replace(/0+$/, '')}`
+  }`;
+};
+
+/* ISO 8601 form of a period; milliseconds are folded into fractional
+ * seconds and an all-negative period gets a leading "-" */
+export const formatPeriod = (p: Period): string => {
+  const negative =
+    PERIOD_FIELDS.some((f) => p[f] < 0) &&
+    PERIOD_FIELDS.every((f) => p[f] <= 0);
+  const k = negative ? -1 : 1;
+  const part = (n: number, unit: string) => (n === 0 ? '' : `${k * n}${unit}`);
+  const ms = k * (p.seconds * MILLIS.SECOND + p.milliseconds);
+  const date = [
+    part(p.years, 'Y'),
+    part(p.months, 'M'),
+    part(p.weeks, 'W'),
+    part(p.days, 'D'),
+  ].join('');
+  const time = [
+    part(p.hours, 'H'),
+    part(p.minutes, 'M'),
+    ms === 0 ? '' : `${isoSeconds(ms)}S`,
+  ].join('');
+  const body = `${date}${time ? `T${time}` : ''}`;
+  return body ? `${negative ? '-' : ''}P${body}` : 'PT0S';
+};
+
 /* ------------------------------------------------------------------ *
  *  7.  UTILITY FUNCTIONS
  * ------------------------------------------------------------------ */
@@ -410,31 +1657,102 @@ export const toPlain = (i: Instant): PlainDateTime => {
   };
 };
 
-export const parseISO = (isoString: string): PlainDateTime => {
-  const d = new Date(isoString);
-  if (isNaN(d.getTime())) {
-    // Return epoch instead of throwing
-    return {
-      y: 1970,
-      m: 1,
-      d: 1,
-      h: 0,
-      min: 0,
-      s: 0,
-      ms: 0,
-    };
-  }
-  return {
-    y: d.getUTCFullYear(),
-    m: d.getUTCMonth() + 1,
-    d: d.getUTCDate(),
-    h: d.getUTCHours(),
-    min: d.getUTCMinutes(),
-    s: d.getUTCSeconds(),
-    ms: d.getUTCMilliseconds(),
-  };
+/* ISO 8601 calendar date, optional time and offset; each group is optional
+ * from the right, so a failed parse still matches the longest valid prefix */
+const ISO_PREFIX =
+  /^([+-]\d{6}|\d{4})(?:-(\d{2})(?:-(\d{2})(?:[T ](\d{2})(?::(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?)?(Z|[+-]\d{2}(?::?\d{2})?)?)?)?)?/i;
+
+/* ISO 8601 week ("2024-W05-3", Monday if the day is left out) and ordinal
+ * ("2024-035") dates */
+const ISO_WEEK_OR_ORDINAL =
+  /^([+-]\d{6}|\d{4})-(?:W(\d{2})(?:-(\d))?|(\d{3}))(?![\d-])/i;
+
+/* a week or ordinal date, then whatever time and offset follow it */
+const tryParseWeekOrOrdinal = (
+  input: string,
+  match: RegExpExecArray
+): Result<PlainDateTime> => {
+  const [prefix, y, week, weekday, ordinal] = match;
+  const fields = resolveWeekFields(
+    ordinal === undefined
+      ? {
+          weekYear: Number(y),
+          week: Number(week),
+          weekday: Number(weekday ?? 1),
+        }
+      : { y: Number(y), dayOfYear: Number(ordinal) }
+  );
+  if (!fields.ok) return fields;
+  // the time of day (and offset) is read on the epoch day, then moved
+  const epochDay = '1970-01-01';
+  const time = tryParseISO(epochDay + input.slice(prefix.length));
+  if (!time.ok)
+    return time.error.kind === 'malformed' ||
+      time.error.kind === 'malformed-offset'
+      ? err({
+          ...time.error,
+          input,
+          position: time.error.position - epochDay.length + prefix.length,
+        })
+      : time;
+  const { y: year = EPOCH.y, m = EPOCH.m, d = EPOCH.d } = fields.value;
+  return ok(
+    toPlain(
+      instant(
+        fromPlain(time.value).epochMs + daysFromCivil(year, m, d) * MILLIS.DAY
+      )
+    )
+  );
+};
+
+export const tryParseISO = (isoString: string): Result<PlainDateTime> => {
+  const input = isoString.trim();
+  const weekOrOrdinal = ISO_WEEK_OR_ORDINAL.exec(input);
+  if (weekOrOrdinal) return tryParseWeekOrOrdinal(input, weekOrOrdinal);
+  const match = ISO_PREFIX.exec(input);
+  if (!match) return err({ kind: 'malformed', input, position: 0 });
+  const [prefix, y, m, d, h, min, s, frac, offset] = match;
+  const complete =
+    prefix.length === input.length &&
+    d !== undefined &&
+    (h === undefined || min !== undefined);
+  if (!complete)
+    return offset !== undefined
+      ? err({
+          kind: 'malformed-offset',
+          input,
+          position: prefix.length - offset.length,
+        })
+      : /^[+-]/.test(input.slice(prefix.length)) && min !== undefined
+      ? err({ kind: 'malformed-offset', input, position: prefix.length })
+      : err({ kind: 'malformed', input, position: prefix.length });
+  const offsetMinutes = offset === undefined ? 0 : parseOffset(offset);
+  if (Math.abs(offsetMinutes) > MAX_OFFSET_MINUTES)
+    return err({ kind: 'out-of-range', field: 'offset', value: offsetMinutes });
+  const pdt = validateDateTime(
+    dateTime(
+      Number(y),
+      Number(m),
+      Number(d),
+      Number(h ?? 0),
+      Number(min ?? 0),
+      Number(s ?? 0),
+      Number((frac ?? '0').slice(0, 3).padEnd(3, '0'))
+    )
+  );
+  return pdt.ok
+    ? ok(
+        toPlain(
+          instant(fromPlain(pdt.value).epochMs - offsetMinutes * MILLIS.MINUTE)
+        )
+      )
+    : pdt;
 };
 
+/* total `tryParseISO`: invalid input yields the epoch */
+export const parseISO = (isoString: string): PlainDateTime =>
+  getOrElse(EPOCH)(tryParseISO(isoString));
+
 export const addDuration =
   (dur: Duration) =>
   (i: Instant): Instant =>
@@ -445,13 +1763,48 @@ export const addDuration =
  * ------------------------------------------------------------------ */
 const mod = (n: number, m: number) => ((n % m) + m) % m;
 
+/* year and month `n` months after (y, m) in a calendar system */
+const shiftMonth = (
+  system: CalendarSystem,
+  y: number,
+  m: number,
+  n: number
+): readonly [number, number] => {
+  const target = m + n;
+  if (target > system.monthsInYear(y))
+    return shiftMonth(system, y + 1, 1, target - system.monthsInYear(y) - 1);
+  if (target < 1)
+    return shiftMonth(system, y - 1, system.monthsInYear(y - 1), target);
+  return [y, target];
+};
+
+/* calendar arithmetic in a non-Gregorian calendar, day clamped */
+const inCalendar =
+  (calendar: Calendar, years: number, months: number) =>
+  (d: PlainDate): PlainDate => {
+    const system = calendarSystems[calendar];
+    const cd = toCalendarDate(calendar)(d);
+    // a whole-year move keeps the month's name (Adar I becomes Adar)
+    const month = system.monthOfName(
+      cd.y + years,
+      system.nameIndex(cd.y, cd.m)
+    );
+    const [y, m] = shiftMonth(system, cd.y + years, month, months);
+    return fromCalendarDate({ calendar, y, m, d: cd.d });
+  };
+
 export const addYears =
-  (n: number) =>
-  (d: PlainDate): PlainDate => ({ ...d, y: d.y + n });
+  (n: number, calendar: Calendar = 'gregory') =>
+  (d: PlainDate): PlainDate =>
+    calendarSystems[calendar] === gregorian
+      ? { ...d, y: d.y + n }
+      : inCalendar(calendar, n, 0)(d);
 
 export const addMonths =
-  (n: number) =>
+  (n: number, calendar: Calendar = 'gregory') =>
   (d: PlainDate): PlainDate => {
+    if (calendarSystems[calendar] !== gregorian)
+      return inCalendar(calendar, 0, n)(d);
     const total = d.m - 1 + n;
     const y = d.y + Math.floor(total / 12);
     const m = mod(total, 12) + 1;
@@ -495,13 +1848,63 @@ export const addMilliseconds =
     return toPlain(instant(ms));
   };
 
+/* a wall-clock reading as milliseconds on a uniform (UTC) time line */
+const wallMs = (pdt: PlainDateTime): number => fromPlain(pdt).epochMs;
+
+/* months from `from` to `to` on the wall clock, fractional. Whole months
+ * are stepped from the earlier reading with the day clamped, so Jan 31 to
+ * Feb 29 is one month either way round; the rest is the fraction of the
+ * next month's step. */
+const monthsBetween = (from: PlainDateTime, to: PlainDateTime): number => {
+  if (wallMs(to) < wallMs(from)) return -monthsBetween(to, from);
+  const target = wallMs(to);
+  const anchor = (n: number) => wallMs({ ...from, ...addMonths(n)(from) });
+  const guess = (to.y - from.y) * 12 + (to.m - from.m);
+  const whole = target >= anchor(guess) ? guess : guess - 1;
+  const start = anchor(whole);
+  return whole + (target - start) / (anchor(whole + 1) - start);
+};
+
+/* `to` - `from` in `unit`: years and months as `monthsBetween`, weeks and
+ * days as wall-clock days (a 23-hour DST day is one day) */
+const calendarDiff = (
+  from: PlainDateTime,
+  to: PlainDateTime,
+  unit: 'years' | 'months' | 'weeks' | 'days'
+): number =>
+  unit === 'years'
+    ? monthsBetween(from, to) / 12
+    : unit === 'months'
+    ? monthsBetween(from, to)
+    : (wallMs(to) - wallMs(from)) / durations[unit](1).ms;
+
+const isDateTime = (d: PlainDate): d is PlainDateTime => 'h' in d;
+
+const datePart = ({ y, m, d }: PlainDate): PlainDate => ({ y, m, d });
+
+/* Years and months first (day clamped to the month, as `addMonths`), then
+ * weeks and days, then the exact part on the wall clock. A PlainDate takes
+ * the exact part in whole days only. */
+export const addPeriod =
+  (p: Period, calendar: Calendar = 'gregory') =>
+  <A extends PlainDate>(d: A): A => {
+    const months =
+      calendarSystems[calendar] === gregorian
+        ? addMonths(p.years * 12 + p.months)(d)
+        : inCalendar(calendar, p.years, p.months)(d);
+    const date = datePart(addDays(p.weeks * 7 + p.days)(months));
+    const exact = periodTimeMs(p);
+    return isDateTime(d)
+      ? { ...d, ...addMilliseconds(exact)({ ...d, ...date }) }
+      : { ...d, ...datePart(addDays(Math.trunc(exact / MILLIS.DAY))(date)) };
+  };
+
 /* ------------------------------------------------------------------ *
  *  9.  DAY-OF-WEEK / WEEK-BASED  YEAR
  * ------------------------------------------------------------------ */
-export const dayOfWeek = (d: PlainDate): number => {
-  const t = new Date(d.y, d.m - 1, d.d).getDay();
-  return t === 0 ? 7 : t;
-};
+/* ISO weekday: 1 = Monday ... 7 = Sunday (1970-01-01 was a Thursday) */
+export const dayOfWeek = (d: PlainDate): number =>
+  mod(daysFromCivil(d.y, d.m, d.d) + 3, 7) + 1;
 
 export const startOfWeek = (d: PlainDate, startOn = 1): PlainDate => {
   const dow = dayOfWeek(d);
@@ -509,6 +1912,169 @@ export const startOfWeek = (d: PlainDate, startOn = 1): PlainDate => {
   return addDays(-diff)(d);
 };
 
+/* Units `startOf`/`endOf` snap to; `week` starts on a chosen weekday,
+ * `isoWeek` always on Monday */
+export type StartOfUnit =
+  | 'year'
+  | 'quarter'
+  | 'month'
+  | 'isoWeek'
+  | 'week'
+  | 'day'
+  | 'hour'
+  | 'minute';
+
+const midnight = (d: PlainDate): PlainDateTime => ({
+  ...datePart(d),
+  h: 0,
+  min: 0,
+  s: 0,
+  ms: 0,
+});
+
+/* first wall-clock reading of the `unit` containing `d`; `firstDay` is the
+ * weekday (1 = Monday ... 7 = Sunday) a `week` starts on, Sunday as in
+ * `DEFAULT_WEEK` unless given */
+export const startOf =
+  (unit: StartOfUnit, firstDay = DEFAULT_WEEK.firstDay) =>
+  (d: PlainDateTime): PlainDateTime =>
+    unit === 'year'
+      ? midnight({ y: d.y, m: 1, d: 1 })
+      : unit === 'quarter'
+      ? midnight({ y: d.y, m: quarter(d) * 3 - 2, d: 1 })
+      : unit === 'month'
+      ? midnight({ y: d.y, m: d.m, d: 1 })
+      : unit === 'isoWeek'
+      ? midnight(startOfWeek(d, 1))
+      : unit === 'week'
+      ? midnight(startOfWeek(d, firstDay))
+      : unit === 'day'
+      ? midnight(d)
+      : unit === 'hour'
+      ? { ...d, min: 0, s: 0, ms: 0 }
+      : { ...d, s: 0, ms: 0 };
+
+/* `n` of a unit as a period */
+const unitPeriod = (unit: StartOfUnit, n = 1): Period =>
+  period(
+    unit === 'year'
+      ? { years: n }
+      : unit === 'quarter'
+      ? { months: 3 * n }
+      : unit === 'month'
+      ? { months: n }
+      : unit === 'isoWeek' || unit === 'week'
+      ? { weeks: n }
+      : unit === 'day'
+      ? { days: n }
+      : unit === 'hour'
+      ? { hours: n }
+      : { minutes: n }
+  );
+
+/* first wall-clock reading of the `unit` after the one containing `d` */
+const startOfNext =
+  (unit: StartOfUnit, firstDay: number) =>
+  (d: PlainDateTime): PlainDateTime =>
+    addPeriod(unitPeriod(unit))(startOf(unit, firstDay)(d));
+
+/* last wall-clock reading (to the millisecond) of the `unit` containing `d` */
+export const endOf =
+  (unit: StartOfUnit, firstDay = DEFAULT_WEEK.firstDay) =>
+  (d: PlainDateTime): PlainDateTime =>
+    addMilliseconds(-1)(startOfNext(unit, firstDay)(d));
+
+/* 1 for January 1st */
+export const dayOfYear = (d: PlainDate): number =>
+  daysFromCivil(d.y, d.m, d.d) - daysFromCivil(d.y, 1, 1) + 1;
+
+export const quarter = (d: PlainDate): number => Math.ceil(d.m / 3);
+
+/* date of the `n`-th day of year `y` (days past the year's end roll over) */
+export const fromOrdinalDate = (y: number, n: number): PlainDate =>
+  civilFromDays(daysFromCivil(y, 1, 1) + n - 1);
+
+/* How weeks are numbered: the weekday they start on (1 = Monday ...
+ * 7 = Sunday) and how many days of the new year week 1 needs */
+export type WeekRule = Readonly<{
+  readonly firstDay: number;
+  readonly minDays: number;
+}>;
+
+/* ISO 8601: weeks start on Monday, week 1 holds the year's first Thursday */
+export const ISO_WEEK: WeekRule = { firstDay: 1, minDays: 4 };
+
+/* The rule `week` means when no rule or locale is given: weeks start on
+ * Sunday and week 1 holds January 1st. Fixed, where a locale's rule
+ * depends on the runtime's week data */
+export const DEFAULT_WEEK: WeekRule = { firstDay: 7, minDays: 1 };
+
+/* the locale's week rule (CLDR week data through Intl.Locale), ISO where
+ * the runtime does not expose it */
+export const localeWeekRule = (locale: Locale): WeekRule => {
+  type WeekInfo = Readonly<{
+    readonly firstDay: number;
+    readonly minimalDays: number;
+  }>;
+  const { Locale: IntlLocale } = Intl as {
+    readonly Locale?: new (tag: string) => {
+      readonly weekInfo?: WeekInfo;
+      readonly getWeekInfo?: () => WeekInfo;
+    };
+  };
+  try {
+    const loc = IntlLocale ? new IntlLocale(locale) : undefined;
+    const info = loc?.getWeekInfo?.() ?? loc?.weekInfo;
+    return info
+      ? { firstDay: info.firstDay, minDays: info.minimalDays }
+      : ISO_WEEK;
+  } catch {
+    return ISO_WEEK;
+  }
+};
+
+/* epoch day on which week 1 of week-year `y` starts */
+const weekOneStart = (y: number, rule: WeekRule): number => {
+  const jan1 = daysFromCivil(y, 1, 1);
+  const before = mod(dayOfWeek({ y, m: 1, d: 1 }) - rule.firstDay, 7);
+  return jan1 - before + (7 - before >= rule.minDays ? 0 : 7);
+};
+
+/* the year the week containing `d` is numbered in */
+export const weekYear = (d: PlainDate, rule: WeekRule = ISO_WEEK): number => {
+  const day = daysFromCivil(d.y, d.m, d.d);
+  return day < weekOneStart(d.y, rule)
+    ? d.y - 1
+    : day >= weekOneStart(d.y + 1, rule)
+    ? d.y + 1
+    : d.y;
+};
+
+export const weekOfYear = (d: PlainDate, rule: WeekRule = ISO_WEEK): number =>
+  Math.floor(
+    (daysFromCivil(d.y, d.m, d.d) - weekOneStart(weekYear(d, rule), rule)) / 7
+  ) + 1;
+
+/* 52 or 53 */
+export const weeksInYear = (y: number, rule: WeekRule = ISO_WEEK): number =>
+  (weekOneStart(y + 1, rule) - weekOneStart(y, rule)) / 7;
+
+export const isoWeekYear = (d: PlainDate): number => weekYear(d, ISO_WEEK);
+
+export const isoWeek = (d: PlainDate): number => weekOfYear(d, ISO_WEEK);
+
+/* date of `weekday` (1 = Monday ... 7 = Sunday) in week `week` of
+ * week-year `y`; weeks past the year's last roll over */
+export const fromWeekDate = (
+  y: number,
+  week: number,
+  weekday = 1,
+  rule: WeekRule = ISO_WEEK
+): PlainDate =>
+  civilFromDays(
+    weekOneStart(y, rule) + (week - 1) * 7 + mod(weekday - rule.firstDay, 7)
+  );
+
 /* ------------------------------------------------------------------ *
  *  10.  TIMEZONE  SUPPORT
  * ------------------------------------------------------------------ */
@@ -518,48 +2084,230 @@ export const zone = (name: string, instant: Instant = now()): TimeZone => {
   return getTimezoneInfo(name, instant);
 };
 
+/* a zone with a constant offset (e.g. from "+05:30" in parsed input) */
+export const fixedZone = (offsetMinutes: number): TimeZone =>
+  offsetMinutes === 0
+    ? UTC
+    : {
+        name: formatOffset(offsetMinutes),
+        offsetMinutes,
+        dst: false,
+        abbreviation: `GMT${formatOffset(offsetMinutes)}`,
+      };
+
+/* offset of a zone at an instant; non-IANA zones keep their fixed offset */
+const zoneOffsetAt = (tz: TimeZone, i: Instant): number =>
+  isValidTimezone(tz.name) ? tzOffset(tz.name, i) : tz.offsetMinutes;
+
+/* wall-clock fields of an instant, using the zone's offset at that instant */
+export const toZonedPlain = (i: Instant, tz: TimeZone): PlainDateTime =>
+  toPlain(instant(i.epochMs + zoneOffsetAt(tz, i) * MILLIS.MINUTE));
+
+/* How to pick an instant for a wall-clock reading that a DST transition
+ * skipped (gap) or repeated (overlap); the names follow Temporal:
+ * - compatible: earlier instant in an overlap, later one in a gap
+ * - earlier / later: that instant in both cases
+ * - reject: fail with `nonexistent-time` / `ambiguous-time` */
+export type Disambiguation = 'compatible' | 'earlier' | 'later' | 'reject';
+
+export type WallClockResolution = Readonly<{
+  readonly instant: Instant;
+  readonly offsetMinutes: number;
+  readonly kind: 'exact' | 'gap' | 'overlap';
+}>;
+
+const resolveIn = (
+  pdt: PlainDateTime,
+  tz: TimeZone,
+  disambiguation: Disambiguation
+): Result<WallClockResolution> => {
+  const local = fromPlain(pdt).epochMs;
+  const at = (offsetMinutes: number) =>
+    instant(local - offsetMinutes * MILLIS.MINUTE);
+  // offsets either side of the (at most one) transition near this reading
+  const before = zoneOffsetAt(tz, instant(local - MILLIS.DAY));
+  const after = zoneOffsetAt(tz, instant(local + MILLIS.DAY));
+  const candidates = [...new Set([before, after])]
+    .filter((o) => zoneOffsetAt(tz, at(o)) === o)
+    .map((o) => ({ instant: at(o), offsetMinutes: o }))
+    .sort((a, b) => a.instant.epochMs - b.instant.epochMs);
+  if (candidates.length === 1) return ok({ ...candidates[0], kind: 'exact' });
+  if (candidates.length > 1) {
+    const [earlier, later] = candidates;
+    return disambiguation === 'reject'
+      ? err({
+          kind: 'ambiguous-time',
+          zone: tz.name,
+          dateTime: pdt,
+          earlier: earlier.instant,
+          later: later.instant,
+        })
+      : ok({
+          ...(disambiguation === 'later' ? later : earlier),
+          kind: 'overlap',
+        });
+  }
+  // gap: shift by the jump, forwards using the offset from before it
+  // (compatible/later) or backwards using the offset from after it (earlier)
+  if (disambiguation === 'reject')
+    return err({ kind: 'nonexistent-time', zone: tz.name, dateTime: pdt });
+  const o = disambiguation === 'earlier' ? after : before;
+  return ok({
+    instant: at(o),
+    offsetMinutes: zoneOffsetAt(tz, at(o)),
+    kind: 'gap',
+  });
+};
+
+/* instant of a wall-clock reading in an IANA zone, reporting whether the
+ * reading was unique, skipped by a gap or repeated by an overlap */
+export const resolveWallClock = (
+  pdt: PlainDateTime,
+  zoneName: string,
+  disambiguation: Disambiguation = 'compatible'
+): Result<WallClockResolution> =>
+  isValidTimezone(zoneName)
+    ? resolveIn(pdt, zone(zoneName, fromPlain(pdt)), disambiguation)
+    : err({ kind: 'unknown-zone', zone: zoneName });
+
+/* total `resolveWallClock` for a zone (never rejects) */
+export const fromZonedPlain = (
+  pdt: PlainDateTime,
+  tz: TimeZone,
+  disambiguation: Exclude<Disambiguation, 'reject'> = 'compatible'
+): Instant => {
+  const resolved = resolveIn(pdt, tz, disambiguation);
+  return resolved.ok ? resolved.value.instant : fromPlain(pdt);
+};
+
+/* `zone` that reports unknown names instead of falling back to UTC */
+export const tryZone = (
+  name: string,
+  instant: Instant = now()
+): Result<TimeZone> =>
+  isValidTimezone(name)
+    ? ok(getTimezoneInfo(name, instant))
+    : err({ kind: 'unknown-zone', zone: name });
+
+/* a wall-clock reading in a zone; a reading a DST gap skips resolves per
+ * `disambiguation`, and its payload is the wall clock at that instant */
 export const withZone =
-  (z: TimeZone) =>
-  (dt: PlainDateTime): ZDT<PlainDateTime> =>
-    zdt(fromPlain(dt), z, dt);
+  (
+    z: TimeZone,
+    disambiguation: Exclude<Disambiguation, 'reject'> = 'compatible'
+  ) =>
+  (dt: PlainDateTime): ZDT<PlainDateTime> => {
+    const instant = fromZonedPlain(dt, z, disambiguation);
+    const tz = isValidTimezone(z.name) ? zone(z.name, instant) : z;
+    return zdt(instant, tz, toZonedPlain(instant, tz));
+  };
 
 export const withZoneName =
-  (zoneName: string) =>
-  (dt: PlainDateTime): ZDT<PlainDateTime> => {
-    const instant = fromPlain(dt);
-    const tz = zone(zoneName, instant);
-    return zdt(instant, tz, dt);
+  (
+    zoneName: string,
+    disambiguation: Exclude<Disambiguation, 'reject'> = 'compatible'
+  ) =>
+  (dt: PlainDateTime): ZDT<PlainDateTime> =>
+    withZone(zone(zoneName, fromPlain(dt)), disambiguation)(dt);
+
+/* `addPeriod` in a zone: the calendar part moves the wall clock (so a day
+ * across a DST change keeps the local time), the exact part the instant */
+export const addZonedPeriod =
+  (
+    p: Period,
+    disambiguation: Exclude<Disambiguation, 'reject'> = 'compatible'
+  ) =>
+  (z: ZDT<PlainDateTime>): ZDT<PlainDateTime> => {
+    const calendarPart = period({
+      years: p.years,
+      months: p.months,
+      weeks: p.weeks,
+      days: p.days,
+    });
+    const moved = fromZonedPlain(
+      addPeriod(calendarPart)(z.payload),
+      z.zone,
+      disambiguation
+    );
+    const i = instant(moved.epochMs + periodTimeMs(p));
+    const tz = isValidTimezone(z.zone.name) ? zone(z.zone.name, i) : z.zone;
+    return zdt(i, tz, toZonedPlain(i, tz));
   };
 
+/* an instant with the wall clock and zone info in force at it */
+const rezoned = (i: Instant, tz: TimeZone): ZDT<PlainDateTime> => {
+  const at = isValidTimezone(tz.name) ? zone(tz.name, i) : tz;
+  return zdt(i, at, toZonedPlain(i, at));
+};
+
+/* first instant whose wall clock is at or after `pdt`: the reading itself,
+ * the earlier one if it repeats, or the transition if a gap skipped it */
+const firstInstantFrom = (pdt: PlainDateTime, tz: TimeZone): Instant => {
+  const earlier = fromZonedPlain(pdt, tz, 'earlier');
+  const later = fromZonedPlain(pdt, tz, 'later');
+  const skipped = wallMs(toZonedPlain(earlier, tz)) < wallMs(pdt);
+  const transition = skipped
+    ? getTransitions(tz.name, earlier, instant(later.epochMs + 1))[0]
+    : undefined;
+  return !skipped ? earlier : transition ? transition.instant : later;
+};
+
+/* `startOf` in a zone. Days and longer start at their first valid instant
+ * (01:00 when a DST gap skips midnight); hours and minutes keep the offset
+ * when they can, so the repeated hour of an overlap starts in its own */
+export const startOfZoned =
+  (unit: StartOfUnit, firstDay = DEFAULT_WEEK.firstDay) =>
+  (z: ZDT<PlainDateTime>): ZDT<PlainDateTime> => {
+    const wall = startOf(unit, firstDay)(z.payload);
+    const sameOffset = instant(
+      z.instant.epochMs - (wallMs(z.payload) - wallMs(wall))
+    );
+    const keepsOffset =
+      (unit === 'hour' || unit === 'minute') &&
+      wallMs(toZonedPlain(sameOffset, z.zone)) === wallMs(wall);
+    return rezoned(
+      keepsOffset ? sameOffset : firstInstantFrom(wall, z.zone),
+      z.zone
+    );
+  };
+
+/* `endOf` in a zone: the last millisecond before the next unit starts */
+export const endOfZoned =
+  (unit: StartOfUnit, firstDay = DEFAULT_WEEK.firstDay) =>
+  (z: ZDT<PlainDateTime>): ZDT<PlainDateTime> => {
+    const next =
+      unit === 'hour' || unit === 'minute'
+        ? startOfZoned(unit)(
+            rezoned(
+              instant(
+                startOfZoned(unit)(z).instant.epochMs +
+                  (unit === 'hour' ? MILLIS.HOUR : MILLIS.MINUTE)
+              ),
+              z.zone
+            )
+          ).instant
+        : firstInstantFrom(startOfNext(unit, firstDay)(z.payload), z.zone);
+    return rezoned(instant(next.epochMs - 1), z.zone);
+  };
+
+/* same instant, re-expressed as UTC wall clock */
 export const toUTC = (zdtObj: ZDT<PlainDateTime>): ZDT<PlainDateTime> =>
-  zdt(
-    instant(zdtObj.instant.epochMs - zdtObj.zone.offsetMinutes * 60_000),
-    UTC,
-    zdtObj.payload
-  );
+  zdt(zdtObj.instant, UTC, toPlain(zdtObj.instant));
 
+/* same instant, re-expressed as wall clock in another zone */
 export const toZone =
   (zoneName: string) =>
   (zdtObj: ZDT<PlainDateTime>): ZDT<PlainDateTime> => {
     const newZone = zone(zoneName, zdtObj.instant);
-    const adjustedMs =
-      zdtObj.instant.epochMs +
-      (newZone.offsetMinutes - zdtObj.zone.offsetMinutes) * 60_000;
-    return zdt(instant(adjustedMs), newZone, zdtObj.payload);
+    return zdt(zdtObj.instant, newZone, toZonedPlain(zdtObj.instant, newZone));
   };
 
 export const offset = (zdtObj: ZDT<PlainDateTime>): Duration =>
   duration(zdtObj.zone.offsetMinutes * 60_000);
 
 /* Timezone utility functions */
-export const isValidTimezone = (tzName: string): boolean => {
-  try {
-    new Intl.DateTimeFormat('en', { timeZone: tzName });
-    return true;
-  } catch {
-    return false;
-  }
-};
+export const isValidTimezone = (tzName: string): boolean =>
+  activeProvider.isValid(tzName);
 
 export const getTimezoneOffset = (
   tzName: string,
@@ -576,55 +2324,396 @@ export const isDST = (tzName: string, instant: Instant = now()): boolean => {
 /* ------------------------------------------------------------------ *
  *  11.  RANGE / INTERVAL  (functor)
  * ------------------------------------------------------------------ */
-export type Interval<A> = { readonly start: ZDT<A>; readonly end: ZDT<A> };
-export const interval = <A>(s: ZDT<A>, e: ZDT<A>): Interval<A> => ({
-  start: s,
-  end: e,
-});
+/* Whether an interval holds its end instant: half-open `[)` (the
+ * default, so back-to-back bookings do not overlap) or closed `[]` */
+export type IntervalBounds = '[)' | '[]';
+
+export type Interval<A> = {
+  readonly start: ZDT<A>;
+  readonly end: ZDT<A>;
+  readonly bounds: IntervalBounds;
+};
+
+/* `start` ... `end`, or `invalid-interval` if `end` is before `start` */
+export const tryInterval = <A>(
+  s: ZDT<A>,
+  e: ZDT<A>,
+  bounds: IntervalBounds = '[)'
+): Result<Interval<A>> =>
+  e.instant.epochMs < s.instant.epochMs
+    ? err({ kind: 'invalid-interval', start: s.instant, end: e.instant })
+    : ok({ start: s, end: e, bounds });
+
+/* total `tryInterval`: reversed endpoints are swapped */
+export const interval = <A>(
+  s: ZDT<A>,
+  e: ZDT<A>,
+  bounds: IntervalBounds = '[)'
+): Interval<A> =>
+  e.instant.epochMs < s.instant.epochMs
+    ? { start: e, end: s, bounds }
+    : { start: s, end: e, bounds };
+
 export const durationOfInterval = <A>(iv: Interval<A>): Duration =>
   duration(iv.end.instant.epochMs - iv.start.instant.epochMs);
 
+/* Functor map over both endpoints */
+export const mapInterval =
+  <A, B>(f: (a: A) => B) =>
+  (iv: Interval<A>): Interval<B> => ({
+    ...iv,
+    start: zfmap(f)(iv.start),
+    end: zfmap(f)(iv.end),
+  });
+
+const startMs = <A>(iv: Interval<A>): number => iv.start.instant.epochMs;
+const endMs = <A>(iv: Interval<A>): number => iv.end.instant.epochMs;
+
+/* `i` lies in the interval (its end only if closed) */
+export const includes = <A>(iv: Interval<A>, i: Instant): boolean =>
+  startMs(iv) <= i.epochMs &&
+  (iv.bounds === '[]' ? i.epochMs <= endMs(iv) : i.epochMs < endMs(iv));
+
+/* Allen's thirteen relations between two intervals, read "a <relation> b".
+ * They compare endpoints only, and are exclusive for non-empty intervals */
+export type AllenRelation =
+  | 'before'
+  | 'meets'
+  | 'overlaps'
+  | 'starts'
+  | 'during'
+  | 'finishes'
+  | 'equals'
+  | 'finishedBy'
+  | 'contains'
+  | 'startedBy'
+  | 'overlappedBy'
+  | 'metBy'
+  | 'after';
+
+export const before = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  endMs(a) < startMs(b);
+export const meets = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  endMs(a) === startMs(b);
+export const overlaps = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  startMs(a) < startMs(b) && startMs(b) < endMs(a) && endMs(a) < endMs(b);
+export const starts = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  startMs(a) === startMs(b) && endMs(a) < endMs(b);
+export const during = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  startMs(b) < startMs(a) && endMs(a) < endMs(b);
+export const finishes = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  endMs(a) === endMs(b) && startMs(b) < startMs(a);
+export const equals = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  startMs(a) === startMs(b) && endMs(a) === endMs(b);
+export const finishedBy = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  finishes(b, a);
+export const contains = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  during(b, a);
+export const startedBy = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  starts(b, a);
+export const overlappedBy = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  overlaps(b, a);
+export const metBy = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  meets(b, a);
+export const after = <A, B>(a: Interval<A>, b: Interval<B>): boolean =>
+  before(b, a);
+
+const ALLEN_RELATIONS: readonly (readonly [
+  AllenRelation,
+  <A, B>(a: Interval<A>, b: Interval<B>) => boolean
+])[] = [
+  ['equals', equals],
+  ['before', before],
+  ['meets', meets],
+  ['overlaps', overlaps],
+  ['starts', starts],
+  ['during', during],
+  ['finishes', finishes],
+  ['finishedBy', finishedBy],
+  ['contains', contains],
+  ['startedBy', startedBy],
+  ['overlappedBy', overlappedBy],
+  ['metBy', metBy],
+  ['after', after],
+];
+
+/* the relation of `a` to `b` (for an empty interval, the first that holds) */
+export const allenRelation = <A, B>(
+  a: Interval<A>,
+  b: Interval<B>
+): AllenRelation =>
+  (ALLEN_RELATIONS.find(([, holds]) => holds(a, b)) ?? ALLEN_RELATIONS[0])[0];
+
+/* the bounds of an end at `ms` taken from `a` or `b`: those of the
+ * interval ending there; when both do, closed if both are (`shared`) or
+ * if either is */
+const boundsAt = <A>(
+  ms: number,
+  a: Interval<A>,
+  b: Interval<A>,
+  shared: boolean
+): IntervalBounds => {
+  const closed = (iv: Interval<A>) => endMs(iv) === ms && iv.bounds === '[]';
+  return (shared ? closed(a) && closed(b) : closed(a) || closed(b))
+    ? '[]'
+    : '[)';
+};
+
+/* the instants in both, if any: closed intervals that meet share one */
+export const intersection = <A>(
+  a: Interval<A>,
+  b: Interval<A>
+): Interval<A> | undefined => {
+  const start = startMs(b) > startMs(a) ? b.start : a.start;
+  const end = endMs(b) < endMs(a) ? b.end : a.end;
+  const bounds = boundsAt(end.instant.epochMs, a, b, endMs(a) === endMs(b));
+  return start.instant.epochMs < end.instant.epochMs ||
+    (bounds === '[]' && start.instant.epochMs === end.instant.epochMs)
+    ? { start, end, bounds }
+    : undefined;
+};
+
+/* one interval if `a` and `b` overlap or meet, otherwise both, in order */
+export const union = <A>(
+  a: Interval<A>,
+  b: Interval<A>
+): readonly Interval<A>[] =>
+  startMs(b) <= endMs(a) && startMs(a) <= endMs(b)
+    ? [
+        {
+          start: startMs(b) < startMs(a) ? b.start : a.start,
+          end: endMs(b) > endMs(a) ? b.end : a.end,
+          bounds: boundsAt(Math.max(endMs(a), endMs(b)), a, b, false),
+        },
+      ]
+    : startMs(b) < startMs(a)
+    ? [b, a]
+    : [a, b];
+
+/* the parts of `a` outside `b` (none, one or two); a part ending where
+ * `b` starts is half-open. Starts are always closed, so after a closed
+ * `b` the part starts at `b`'s end, which both then hold */
+export const difference = <A>(
+  a: Interval<A>,
+  b: Interval<A>
+): readonly Interval<A>[] =>
+  endMs(b) < startMs(a) || endMs(a) < startMs(b)
+    ? [a]
+    : [
+        ...(startMs(a) < startMs(b)
+          ? [{ start: a.start, end: b.start, bounds: '[)' as const }]
+          : []),
+        ...(endMs(b) < endMs(a) ||
+        (endMs(b) === endMs(a) && a.bounds === '[]' && b.bounds === '[)')
+          ? [{ start: b.end, end: a.end, bounds: a.bounds }]
+          : []),
+      ];
+
+/* the time between two intervals that neither overlap nor meet */
+export const gap = <A>(
+  a: Interval<A>,
+  b: Interval<A>
+): Interval<A> | undefined =>
+  endMs(a) < startMs(b)
+    ? { start: a.end, end: b.start, bounds: '[)' }
+    : endMs(b) < startMs(a)
+    ? { start: b.end, end: a.start, bounds: '[)' }
+    : undefined;
+
+/* pieces between consecutive cut instants; the last keeps the bounds */
+const cutAt = (
+  iv: Interval<PlainDateTime>,
+  cuts: readonly number[]
+): readonly Interval<PlainDateTime>[] => {
+  const inside = cuts.filter(
+    (ms, k) => startMs(iv) < ms && ms < endMs(iv) && ms !== cuts[k - 1]
+  );
+  const points = [
+    iv.start,
+    ...inside.map((ms) => rezoned(instant(ms), iv.start.zone)),
+    iv.end,
+  ];
+  return points.slice(1).map((end, k) => ({
+    start: points[k],
+    end,
+    bounds: k === points.length - 2 ? iv.bounds : '[)',
+  }));
+};
+
+/* shortest length of a unit, to bound how many boundaries an interval has */
+const MIN_UNIT_MS: Readonly<Record<StartOfUnit, number>> = {
+  year: 365 * MILLIS.DAY,
+  quarter: 89 * MILLIS.DAY,
+  month: 28 * MILLIS.DAY,
+  isoWeek: 6 * MILLIS.DAY,
+  week: 6 * MILLIS.DAY,
+  day: 0.5 * MILLIS.DAY,
+  hour: 0.5 * MILLIS.HOUR,
+  minute: MILLIS.MINUTE,
+};
+
+/* Pieces of at most `step` from the start, or pieces cut at the `unit`
+ * boundaries of the start's zone (a day across a DST change is one piece,
+ * and the first and last pieces may be partial). `week` starts on Sunday */
+export const splitBy =
+  (step: Duration | StartOfUnit) =>
+  (iv: Interval<PlainDateTime>): readonly Interval<PlainDateTime>[] => {
+    const length = endMs(iv) - startMs(iv);
+    if (typeof step !== 'string')
+      return step.ms > 0
+        ? cutAt(
+            iv,
+            Array.from(
+              { length: Math.ceil(length / step.ms) },
+              (_, k) => startMs(iv) + k * step.ms
+            )
+          )
+        : [iv];
+    const count = Math.ceil(length / MIN_UNIT_MS[step]) + 1;
+    if (step === 'hour' || step === 'minute') {
+      const first = startOfZoned(step)(iv.start).instant.epochMs;
+      const unitMs = step === 'hour' ? MILLIS.HOUR : MILLIS.MINUTE;
+      return cutAt(
+        iv,
+        Array.from({ length: count }, (_, k) => first + k * unitMs)
+      );
+    }
+    const first = startOf(step)(iv.start.payload);
+    return cutAt(
+      iv,
+      Array.from(
+        { length: count },
+        (_, k) =>
+          firstInstantFrom(
+            addPeriod(unitPeriod(step, k + 1))(first),
+            iv.start.zone
+          ).epochMs
+      )
+    );
+  };
+
+/* `n` pieces of equal length (to the millisecond) */
+export const divideEqually =
+  (n: number) =>
+  (iv: Interval<PlainDateTime>): readonly Interval<PlainDateTime>[] => {
+    const pieces = Math.max(1, Math.floor(n));
+    const length = endMs(iv) - startMs(iv);
+    return cutAt(
+      iv,
+      Array.from(
+        { length: pieces },
+        (_, k) => startMs(iv) + Math.round((k * length) / pieces)
+      )
+    );
+  };
+
 /* ------------------------------------------------------------------ *
  *  12.  RECURRENCE  GENERATORS
  * ------------------------------------------------------------------ */
+/* a rule's occurrences from the origin on, in order; given `from`, a rule
+ * may skip ahead and leave out some or all occurrences before it */
 export type RecurrenceRule = (
-  origin: ZDT<PlainDateTime>
+  origin: ZDT<PlainDateTime>,
+  from?: Instant
 ) => Generator<ZDT<PlainDateTime>, void, unknown>;
 
-export const every = (dur: Duration): RecurrenceRule =>
-  function* (origin) {
-    const generateNext = (
-      cur: number
-    ): Generator<ZDT<PlainDateTime>, void, unknown> => {
-      return (function* () {
-        yield { ...origin, instant: instant(cur) };
-        yield* generateNext(cur + dur.ms);
-      })();
-    };
-    yield* generateNext(origin.instant.epochMs);
-  };
+/* how a fixed step moves: 'exact' adds milliseconds on the time line,
+ * 'wall' adds them to the origin's wall clock and resolves each reading
+ * in its zone, so a daily 09:00 stays at 09:00 across DST changes */
+export type RecurrenceClock = 'exact' | 'wall';
 
-export const everyDay = every(durations.days(1));
-export const everyWeek = every(durations.weeks(1));
-export const everyMonth = (n = 1): RecurrenceRule =>
-  function* (origin) {
-    const generateNext = (
-      p: PlainDateTime
-    ): Generator<ZDT<PlainDateTime>, void, unknown> => {
-      return (function* () {
-        yield { ...origin, payload: p };
-        const newDate = addMonths(n)(p);
-        const newDateTime = {
-          ...newDate,
-          h: p.h,
-          min: p.min,
-          s: p.s,
-          ms: p.ms,
-        };
-        yield* generateNext(newDateTime);
-      })();
-    };
-    yield* generateNext(origin.payload);
+export type RecurrenceOptions = Readonly<{
+  readonly clock?: RecurrenceClock;
+}>;
+
+/* the values `step` yields from `seed` on, lazily: each step gives the
+ * values that come next and the state after them, or undefined to end.
+ * A generator has to keep its state between yields, so this holds the
+ * one loop the lazy sequences share; the steps themselves stay pure. */
+export const generate = function* <S, A>(
+  seed: S,
+  step: (state: S) => readonly [readonly A[], S] | undefined
+): Generator<A, void, undefined> {
+  // eslint-disable-next-line functional/no-let, functional/no-loop-statement
+  for (let s = step(seed); s !== undefined; s = step(s[1])) yield* s[0];
+};
+
+/* runs a recurrence period by period: `period(k)` lists the k-th period's
+ * occurrences in order, or is undefined once the recurrence has ended.
+ * Periods are computed from their index rather than from the previous
+ * one, so iterating takes constant stack and constant work per step and
+ * never accumulates clamping. Stops after `limit` occurrences; starting
+ * at a later period `first` skips the ones before it (and their count).
+ * `next(k)` may jump past periods known to hold no occurrences. */
+export const recurrence = (
+  period: (k: number) => readonly ZDT<PlainDateTime>[] | undefined,
+  limit = Infinity,
+  first = 0,
+  next: (k: number) => number = (k) => k + 1
+): Generator<ZDT<PlainDateTime>, void, undefined> =>
+  generate<
+    Readonly<{ readonly k: number; readonly emitted: number }>,
+    ZDT<PlainDateTime>
+  >({ k: first, emitted: 0 }, ({ k, emitted }) => {
+    const occurrences = emitted < limit ? period(k) : undefined;
+    if (occurrences === undefined) return undefined;
+    const taken = occurrences.slice(0, limit - emitted);
+    return [taken, { k: next(k), emitted: emitted + taken.length }];
+  });
+
+/* a wall-clock reading early enough that every occurrence whose reading
+ * precedes it falls before `from`, whatever the zone's offset */
+export const seekReading = (from: Instant): PlainDateTime =>
+  toPlain(instant(from.epochMs - MILLIS.DAY));
+
+export const every = (
+  dur: Duration,
+  options: RecurrenceOptions = {}
+): RecurrenceRule =>
+  options.clock === 'wall'
+    ? (origin, from) => {
+        const start = fromPlain(origin.payload).epochMs;
+        const first = from
+          ? Math.floor((fromPlain(seekReading(from)).epochMs - start) / dur.ms)
+          : 0;
+        return recurrence(
+          (k) => [withZone(origin.zone)(toPlain(instant(start + k * dur.ms)))],
+          Infinity,
+          dur.ms > 0 ? Math.max(0, first) : 0
+        );
+      }
+    : (origin, from) => {
+        const start = origin.instant.epochMs;
+        const first = from ? Math.floor((from.epochMs - start) / dur.ms) : 0;
+        return recurrence(
+          (k) => [rezoned(instant(start + k * dur.ms), origin.zone)],
+          Infinity,
+          dur.ms > 0 ? Math.max(0, first) : 0
+        );
+      };
+
+export const everyDay = every(durations.days(1), { clock: 'wall' });
+export const everyWeek = every(durations.weeks(1), { clock: 'wall' });
+
+/* the origin's day and time every `n` months, clamped to shorter months
+ * without carrying the clamp into later ones */
+export const everyMonth =
+  (n = 1): RecurrenceRule =>
+  (origin, from) => {
+    const month = (d: PlainDate) => d.y * 12 + d.m;
+    const first = from
+      ? Math.floor((month(seekReading(from)) - month(origin.payload)) / n)
+      : 0;
+    return recurrence(
+      (k) => [
+        withZone(origin.zone)({
+          ...origin.payload,
+          ...addMonths(k * n)(origin.payload),
+        }),
+      ],
+      Infinity,
+      n > 0 ? Math.max(0, first) : 0
+    );
   };
 
 /* ------------------------------------------------------------------ *
@@ -652,6 +2741,14 @@ export type ReamDate = {
   readonly date: () => number;
   readonly day: () => number;
   readonly weekday: () => number;
+  readonly isoWeek: () => number;
+  readonly isoWeekYear: () => number;
+  /* week number and week-year under a locale's (or an explicit) rule,
+   * `DEFAULT_WEEK` when none is given */
+  readonly week: (rule?: Locale | WeekRule) => number;
+  readonly weekYear: (rule?: Locale | WeekRule) => number;
+  readonly dayOfYear: () => number;
+  readonly quarter: () => number;
   readonly hour: () => number;
   readonly minute: () => number;
   readonly second: () => number;
@@ -659,8 +2756,29 @@ export type ReamDate = {
   /* Mutators (return new instance) */
   readonly add: (value: number, unit: keyof typeof durations) => ReamDate;
   readonly subtract: (value: number, unit: keyof typeof durations) => ReamDate;
+  /* start and end of the year ... minute containing the instance, in its
+   * zone; `week` starts on a weekday (1 = Monday ... 7 = Sunday) or on a
+   * locale's (or rule's) first day, on Sunday when none is given */
+  readonly startOf: (
+    unit: StartOfUnit,
+    weekStart?: number | Locale | WeekRule
+  ) => ReamDate;
+  readonly endOf: (
+    unit: StartOfUnit,
+    weekStart?: number | Locale | WeekRule
+  ) => ReamDate;
+  /* Difference */
+  readonly diff: (
+    other: ReamDate,
+    unit?: DiffUnit,
+    options?: DiffOptions
+  ) => number;
   /* Formatters */
-  readonly format: (pattern?: string, locale?: Locale) => string;
+  readonly format: (
+    pattern?: string,
+    locale?: Locale,
+    calendar?: Calendar
+  ) => string;
   readonly toISOString: () => string;
   readonly toLocaleString: (locale?: Locale) => string;
   /* Timezone */
@@ -673,6 +2791,17 @@ export type ReamDate = {
   readonly valueOf: () => number;
 };
 
+/* `diff` units: calendar ones (years, months, weeks, days) are counted on
+ * the wall clock of the instance's zone, the others exactly */
+export type DiffUnit = 'years' | 'months' | DurationUnit;
+
+/* a fractional result (`float`), or one rounded to a whole number of units
+ * (toward zero unless `rounding` says otherwise) */
+export type DiffOptions = Readonly<{
+  readonly float?: boolean;
+  readonly rounding?: RoundingMode;
+}>;
+
 /* ------------------------------------------------------------------ *
  *  15.  PLUG-IN  SYSTEM
  * ------------------------------------------------------------------ */
@@ -689,10 +2818,9 @@ export const extend =
  *  16.  FACTORY AND IMPLEMENTATION
  * ------------------------------------------------------------------ */
 /* Factory */
-const ream = (
-  input?: string | number | Date | PlainDateTime,
-  zoneName = 'UTC'
-): ReamDate => {
+type ReamInput = string | number | Date | PlainDateTime;
+
+const create = (input?: ReamInput, zoneName = 'UTC'): ReamDate => {
   const instant: Instant = (() => {
     if (typeof input === 'string') {
       const parsed = parseISO(input);
@@ -703,49 +2831,134 @@ const ream = (
     if (input) return fromPlain(input);
     return now();
   })();
-  const timeZone = zoneName === 'UTC' ? UTC : zone(zoneName);
-  return makeReam(instant, timeZone);
-};
-
-const makeReam = (instant: Instant, timeZone: TimeZone): ReamDate => ({
-  clone: () => makeReam(instant, timeZone),
-
-  /* getters */
-  year: () => toPlain(instant).y,
-  month: () => toPlain(instant).m,
-  date: () => toPlain(instant).d,
-  day: () => dayOfWeek(toPlain(instant)),
-  weekday: () => dayOfWeek(toPlain(instant)),
-  hour: () => toPlain(instant).h,
-  minute: () => toPlain(instant).min,
-  second: () => toPlain(instant).s,
-  millisecond: () => toPlain(instant).ms,
-
-  /* mutators */
-  add: (v, unit) =>
-    makeReam(addDuration(durations[unit](v))(instant), timeZone),
-  subtract: (v, unit) =>
-    makeReam(addDuration(durations[unit](-v))(instant), timeZone),
-
-  /* formatters */
-  format: (p = 'YYYY-MM-DDTHH:mm:ss.SSSZ', l = 'en') =>
-    format(p, toPlain(instant), l),
-  toISOString: () => {
-    const d = new Date(instant.epochMs);
-    return d.toISOString();
-  },
-  toLocaleString: (l = 'en') =>
-    format('dddd, MMMM D, YYYY h:mm A', toPlain(instant), l),
+  return makeReam(instant, resolveZone(zoneName, instant));
+};
 
-  /* timezone */
-  tz: (name) => makeReam(instant, zone(name, instant)),
-  utc: () => makeReam(instant, UTC),
-  timezone: () => timeZone,
-  isDST: () => timeZone.dst,
-  offset: () => timeZone.offsetMinutes,
+/* `create` that reports bad input instead of substituting a fallback */
+const strict = (input?: ReamInput, zoneName = 'UTC'): Result<ReamDate> => {
+  const parsed = ((): Result<Instant> => {
+    if (typeof input === 'string') {
+      const pdt = tryParseISO(input);
+      return pdt.ok ? ok(fromPlain(pdt.value)) : pdt;
+    }
+    if (typeof input === 'number')
+      return Number.isFinite(input)
+        ? ok(instant(input))
+        : err({ kind: 'out-of-range', field: 'epochMs', value: input });
+    if (input instanceof Date)
+      return Number.isNaN(input.getTime())
+        ? err({ kind: 'out-of-range', field: 'epochMs', value: NaN })
+        : ok(instant(input.getTime()));
+    if (input) {
+      const pdt = validateDateTime(input);
+      return pdt.ok ? ok(fromPlain(pdt.value)) : pdt;
+    }
+    return ok(now());
+  })();
+  if (!parsed.ok) return parsed;
+  const tz = zoneName === UTC.name ? ok(UTC) : tryZone(zoneName, parsed.value);
+  return tz.ok ? ok(makeReam(parsed.value, tz.value)) : tz;
+};
 
-  valueOf: () => instant.epochMs,
-});
+const ream = Object.assign(
+  (input?: ReamInput, zoneName?: string) => create(input, zoneName),
+  { strict }
+);
+
+const asWeekRule = (rule: Locale | WeekRule): WeekRule =>
+  typeof rule === 'string' ? localeWeekRule(rule) : rule;
+
+const asFirstDay = (start: number | Locale | WeekRule): number =>
+  typeof start === 'number' ? start : asWeekRule(start).firstDay;
+
+/* zone info valid at the given instant (offset and DST flag are per-instant) */
+const resolveZone = (zoneName: string, i: Instant): TimeZone =>
+  zoneName === UTC.name ? UTC : zone(zoneName, i);
+
+const makeReam = (instant: Instant, timeZone: TimeZone): ReamDate => {
+  const local = (): PlainDateTime => toZonedPlain(instant, timeZone);
+  const shift = (ms: number): ReamDate => {
+    const next = addDuration(duration(ms))(instant);
+    return makeReam(next, resolveZone(timeZone.name, next));
+  };
+  return {
+    clone: () => makeReam(instant, timeZone),
+
+    /* getters (wall clock in the instance's zone) */
+    year: () => local().y,
+    month: () => local().m,
+    date: () => local().d,
+    day: () => dayOfWeek(local()),
+    weekday: () => dayOfWeek(local()),
+    isoWeek: () => isoWeek(local()),
+    isoWeekYear: () => isoWeekYear(local()),
+    week: (r = DEFAULT_WEEK) => weekOfYear(local(), asWeekRule(r)),
+    weekYear: (r = DEFAULT_WEEK) => weekYear(local(), asWeekRule(r)),
+    dayOfYear: () => dayOfYear(local()),
+    quarter: () => quarter(local()),
+    hour: () => local().h,
+    minute: () => local().min,
+    second: () => local().s,
+    millisecond: () => local().ms,
+
+    /* mutators */
+    add: (v, unit) => shift(durations[unit](v).ms),
+    subtract: (v, unit) => shift(durations[unit](-v).ms),
+
+    /* unit boundaries (wall clock in the instance's zone) */
+    startOf: (unit, w = DEFAULT_WEEK) => {
+      const z = startOfZoned(
+        unit,
+        asFirstDay(w)
+      )(zdt(instant, timeZone, local()));
+      return makeReam(z.instant, z.zone);
+    },
+    endOf: (unit, w = DEFAULT_WEEK) => {
+      const z = endOfZoned(
+        unit,
+        asFirstDay(w)
+      )(zdt(instant, timeZone, local()));
+      return makeReam(z.instant, z.zone);
+    },
+
+    /* difference (this - other) */
+    diff: (other, unit = 'milliseconds', options = {}) => {
+      const value =
+        unit === 'years' ||
+        unit === 'months' ||
+        unit === 'weeks' ||
+        unit === 'days'
+          ? calendarDiff(
+              toZonedPlain({ epochMs: other.valueOf() }, timeZone),
+              local(),
+              unit
+            )
+          : (instant.epochMs - other.valueOf()) / durations[unit](1).ms;
+      return options.float
+        ? value
+        : 0 + roundNumber(value, options.rounding ?? 'trunc');
+    },
+
+    /* formatters */
+    format: (p = 'YYYY-MM-DDTHH:mm:ss.SSSZ', l = 'en', c = 'gregory') =>
+      format(p, local(), l, timeZone, c),
+    toISOString: () => {
+      const d = new Date(instant.epochMs);
+      return d.toISOString();
+    },
+    toLocaleString: (l = 'en') =>
+      format('dddd, MMMM D, YYYY h:mm A', local(), l),
+
+    /* timezone */
+    tz: (name) => makeReam(instant, zone(name, instant)),
+    utc: () => makeReam(instant, UTC),
+    timezone: () => timeZone,
+    isDST: () => timeZone.dst,
+    offset: () => timeZone.offsetMinutes,
+
+    valueOf: () => instant.epochMs,
+  };
+};
 
 export default ream;
 
@@ -760,13 +2973,3 @@ const relative = (rd: ReamDate) => ({
 export const relativePlugin: Plugin = {
   install: (rd) => ({ ...rd, ...relative(rd) }),
 };
-
-/* Plugin:  business days */
-const business = (rd: ReamDate) => ({
-  nextBusinessDay: () =>
-    rd.day() === 6 || rd.day() === 0 ? rd.add(1, 'days') : rd,
-});
-
-export const businessPlugin: Plugin = {
-  install: (rd) => ({ ...rd, ...business(rd) }),
-};
@@ -0,0 +1,173 @@
+import test from 'ava';
+
+import {
+  dateTime,
+  durations,
+  every,
+  everyDay,
+  everyMonth,
+  format,
+  instant,
+  parseISO,
+  PlainDateTime,
+  RecurrenceRule,
+  UTC,
+  withZoneName,
+  zdt,
+  ZDT,
+} from './ream';
+import {
+  between,
+  except,
+  filter,
+  include,
+  merge,
+  nth,
+  occurrencesBetween,
+  take,
+  until,
+} from './recurrence';
+import { rrule } from './rrule';
+
+const origin = withZoneName('America/New_York')(
+  parseISO('2024-03-01T09:00:00')
+);
+
+const at = (iso: string) => instant(Date.parse(iso));
+
+const days = (occurrences: Iterable<ZDT<PlainDateTime>>) =>
+  Array.from(occurrences, (z) => format('MM-DD HH:mm', z.payload));
+
+const firstOf = (n: number, rule: RecurrenceRule) =>
+  days(take(n)(rule)(origin));
+
+test('take, until and nth bound an infinite rule', (t) => {
+  t.deepEqual(days(take(3)(everyDay)(origin)), [
+    '03-01 09:00',
+    '03-02 09:00',
+    '03-03 09:00',
+  ]);
+  t.deepEqual(days(take(0)(everyDay)(origin)), []);
+  t.deepEqual(days(until(at('2024-03-03T14:00:00Z'))(everyDay)(origin)), [
+    '03-01 09:00',
+    '03-02 09:00',
+    '03-03 09:00',
+  ]);
+  t.is(nth(9)(everyDay)(origin)?.payload.d, 10);
+  t.is(nth(5)(take(3)(everyDay))(origin), undefined);
+  t.is(nth(-1)(everyDay)(origin), undefined);
+});
+
+test('between honours inclusivity', (t) => {
+  const [from, to] = [at('2024-03-02T14:00:00Z'), at('2024-03-04T14:00:00Z')];
+
+  t.deepEqual(days(between(from, to)(everyDay)(origin)), [
+    '03-02 09:00',
+    '03-03 09:00',
+  ]);
+  t.deepEqual(days(between(from, to, '()')(everyDay)(origin)), ['03-03 09:00']);
+  t.deepEqual(days(between(from, to, '[]')(everyDay)(origin)), [
+    '03-02 09:00',
+    '03-03 09:00',
+    '03-04 09:00',
+  ]);
+});
+
+test('filter, except and include edit the occurrences', (t) => {
+  const weekdays = filter(
+    (z) => new Date(z.instant.epochMs).getUTCDay() % 6 !== 0
+  );
+
+  t.deepEqual(firstOf(3, weekdays(everyDay)), [
+    '03-01 09:00',
+    '03-04 09:00',
+    '03-05 09:00',
+  ]);
+  // EXDATE as an instant or an occurrence
+  t.deepEqual(
+    firstOf(3, except([at('2024-03-02T14:00:00Z'), origin])(everyDay)),
+    ['03-03 09:00', '03-04 09:00', '03-05 09:00']
+  );
+  // EXRULE: every other day from the same origin
+  t.deepEqual(
+    firstOf(3, except(every(durations.days(2), { clock: 'wall' }))(everyDay)),
+    ['03-02 09:00', '03-04 09:00', '03-06 09:00']
+  );
+  // RDATEs are read in the origin's zone; a duplicate is produced once
+  t.deepEqual(
+    firstOf(
+      4,
+      include([at('2024-03-02T20:30:00Z'), at('2024-03-02T14:00:00Z')])(
+        everyDay
+      )
+    ),
+    ['03-01 09:00', '03-02 09:00', '03-02 15:30', '03-03 09:00']
+  );
+});
+
+test('merge interleaves rules chronologically', (t) => {
+  const mornings = everyDay;
+  const afternoons = filter((z) => z.payload.h === 14)(
+    every(durations.hours(1), { clock: 'wall' })
+  );
+
+  t.deepEqual(firstOf(5, merge(afternoons, mornings, mornings)), [
+    '03-01 09:00',
+    '03-01 14:00',
+    '03-02 09:00',
+    '03-02 14:00',
+    '03-03 09:00',
+  ]);
+});
+
+test('occurrencesBetween seeks to a distant window', (t) => {
+  const epoch = zdt(instant(0), UTC, dateTime(1970, 1, 1, 0, 0, 0, 0));
+  const window = (rule: RecurrenceRule) =>
+    occurrencesBetween(
+      at('2024-06-01T00:00:00Z'),
+      at('2024-06-01T00:03:00Z')
+    )(rule)(epoch).map((z) => z.instant.epochMs);
+
+  // some 28 million minutes from the origin
+  t.deepEqual(window(every(durations.minutes(1))), [
+    Date.parse('2024-06-01T00:00:00Z'),
+    Date.parse('2024-06-01T00:01:00Z'),
+    Date.parse('2024-06-01T00:02:00Z'),
+  ]);
+  t.is(window(every(durations.minutes(1), { clock: 'wall' })).length, 3);
+  t.deepEqual(window(rrule({ freq: 'MINUTELY', interval: 2 })), [
+    Date.parse('2024-06-01T00:00:00Z'),
+    Date.parse('2024-06-01T00:02:00Z'),
+  ]);
+});
+
+test('occurrencesBetween agrees with iterating from the origin', (t) => {
+  const rules: readonly RecurrenceRule[] = [
+    everyMonth(1),
+    everyMonth(5),
+    every(durations.hours(7), { clock: 'wall' }),
+    rrule({
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: [{ weekday: 'TU' }, { weekday: 'SU' }],
+    }),
+    rrule({ freq: 'MONTHLY', byDay: [{ weekday: 'FR', n: -1 }] }),
+    rrule({
+      freq: 'YEARLY',
+      byMonth: [3, 11],
+      byDay: [{ weekday: 'SU', n: 1 }],
+    }),
+    rrule({ freq: 'DAILY', count: 400 }),
+  ];
+  const [from, to] = [at('2025-02-27T00:00:00Z'), at('2025-04-02T00:00:00Z')];
+  const scanned = (rule: RecurrenceRule) =>
+    days(
+      filter((z) => z.instant.epochMs >= from.epochMs)(
+        until(instant(to.epochMs - 1))(rule)
+      )(origin)
+    );
+
+  rules.forEach((rule) =>
+    t.deepEqual(days(occurrencesBetween(from, to)(rule)(origin)), scanned(rule))
+  );
+});
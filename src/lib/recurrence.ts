@@ -0,0 +1,221 @@
+/*********************************************************************
+ *  RECURRENCE  COMBINATORS
+ *  Transformers over RecurrenceRule: limiting, windows, exclusions
+ *  (EXDATE/EXRULE), extra dates (RDATE) and merging. Each returns a
+ *  rule, so they compose and stay lazy; occurrences are compared by
+ *  instant, and the ones sharing an instant are produced once.
+ ********************************************************************/
+
+import { Inclusivity } from './compare';
+import {
+  generate,
+  instant,
+  Instant,
+  isValidTimezone,
+  PlainDateTime,
+  RecurrenceRule,
+  toZonedPlain,
+  zdt,
+  ZDT,
+  zone,
+} from './ream';
+
+type Occurrence = ZDT<PlainDateTime>;
+type Occurrences = Generator<Occurrence, void, unknown>;
+
+/* a date given to `except` or `include`: an instant, or an occurrence
+ * with its own zone */
+export type RecurrenceDate = Instant | ZDT<PlainDateTime>;
+
+const epochOf = (d: RecurrenceDate): number =>
+  'epochMs' in d ? d.epochMs : d.instant.epochMs;
+
+/* an instant read on the wall clock of the origin's zone */
+const inZoneOf =
+  (origin: Occurrence) =>
+  (d: RecurrenceDate): Occurrence => {
+    if (!('epochMs' in d)) return d;
+    const tz = isValidTimezone(origin.zone.name)
+      ? zone(origin.zone.name, d)
+      : origin.zone;
+    return zdt(d, tz, toZonedPlain(d, tz));
+  };
+
+/* the later of a seek hint and a window start */
+const laterOf = (from: Instant | undefined, start: Instant): Instant =>
+  from && from.epochMs > start.epochMs ? from : start;
+
+/* the occurrences before the first that `keep` (given its index from 0)
+ * rejects */
+const takeWhile = (
+  occurrences: Occurrences,
+  keep: (z: Occurrence, index: number) => boolean
+): Occurrences =>
+  generate(0, (index) => {
+    const head = occurrences.next();
+    return head.done || !keep(head.value, index)
+      ? undefined
+      : [[head.value], index + 1];
+  });
+
+/* sorted streams merged into one, each instant once; `heads` are the
+ * streams' next results, pulled when first needed */
+const mergeSorted = (streams: readonly Occurrences[]): Occurrences =>
+  generate<
+    Readonly<{
+      readonly heads?: readonly IteratorResult<Occurrence, void>[];
+      readonly last: number;
+    }>,
+    Occurrence
+  >({ last: -Infinity }, ({ heads = streams.map((s) => s.next()), last }) => {
+    const k = heads.reduce(
+      (earliest, head, i) =>
+        !head.done &&
+        (earliest < 0 ||
+          head.value.instant.epochMs <
+            (heads[earliest].value as Occurrence).instant.epochMs)
+          ? i
+          : earliest,
+      -1
+    );
+    if (k < 0) return undefined;
+    const z = heads[k].value as Occurrence;
+    return [
+      z.instant.epochMs > last ? [z] : [],
+      {
+        heads: heads.map((head, i) => (i === k ? streams[k].next() : head)),
+        last: z.instant.epochMs,
+      },
+    ];
+  });
+
+/* the first `n` occurrences */
+export const take =
+  (n: number) =>
+  (rule: RecurrenceRule): RecurrenceRule =>
+  (origin) =>
+    takeWhile(rule(origin), (_, index) => index < n);
+
+/* the occurrences up to and including `end` */
+export const until =
+  (end: RecurrenceDate) =>
+  (rule: RecurrenceRule): RecurrenceRule =>
+  (origin, from) =>
+    takeWhile(rule(origin, from), (z) => z.instant.epochMs <= epochOf(end));
+
+/* the occurrences between `start` and `end`, bounds per `inclusivity` */
+export const between =
+  (
+    start: RecurrenceDate,
+    end: RecurrenceDate,
+    inclusivity: Inclusivity = '[)'
+  ) =>
+  (rule: RecurrenceRule): RecurrenceRule =>
+  (origin, from) => {
+    const [lo, hi] = [epochOf(start), epochOf(end)];
+    const afterStart = (ms: number) =>
+      inclusivity[0] === '[' ? ms >= lo : ms > lo;
+    const beforeEnd = (ms: number) =>
+      inclusivity[1] === ']' ? ms <= hi : ms < hi;
+    return takeWhile(
+      filter((z) => afterStart(z.instant.epochMs))(rule)(
+        origin,
+        laterOf(from, instant(lo))
+      ),
+      (z) => beforeEnd(z.instant.epochMs)
+    );
+  };
+
+/* the occurrences satisfying `predicate` */
+export const filter =
+  (predicate: (z: Occurrence) => boolean) =>
+  (rule: RecurrenceRule): RecurrenceRule =>
+  (origin, from) => {
+    const occurrences = rule(origin, from);
+    return generate(undefined, () => {
+      const head = occurrences.next();
+      return head.done
+        ? undefined
+        : [predicate(head.value) ? [head.value] : [], undefined];
+    });
+  };
+
+/* the occurrences other than the given dates (EXDATE) or another rule's
+ * occurrences from the same origin (EXRULE) */
+export const except =
+  (excluded: readonly RecurrenceDate[] | RecurrenceRule) =>
+  (rule: RecurrenceRule): RecurrenceRule =>
+    typeof excluded === 'function'
+      ? (origin, from) => {
+          const occurrences = rule(origin, from);
+          const exclusions = excluded(origin, from);
+          /* the current occurrence and exclusion, pulled when undefined;
+           * exclusions before the occurrence are skipped one per step */
+          return generate<
+            Readonly<{
+              readonly z?: IteratorResult<Occurrence, void>;
+              readonly x?: IteratorResult<Occurrence, void>;
+            }>,
+            Occurrence
+          >({}, ({ z = occurrences.next(), x = exclusions.next() }) => {
+            if (z.done) return undefined;
+            const ms = z.value.instant.epochMs;
+            if (!x.done && x.value.instant.epochMs < ms) return [[], { z }];
+            return [
+              x.done || x.value.instant.epochMs !== ms ? [z.value] : [],
+              { x },
+            ];
+          });
+        }
+      : (origin, from) => {
+          const skipped = new Set(excluded.map(epochOf));
+          return filter((z) => !skipped.has(z.instant.epochMs))(rule)(
+            origin,
+            from
+          );
+        };
+
+/* the occurrences and the given dates (RDATE), in order; instants are
+ * read on the wall clock of the origin's zone */
+export const include =
+  (dates: readonly RecurrenceDate[]) =>
+  (rule: RecurrenceRule): RecurrenceRule =>
+  (origin, from) =>
+    mergeSorted([
+      rule(origin, from),
+      (function* () {
+        yield* dates
+          .map(inZoneOf(origin))
+          .sort((a, b) => a.instant.epochMs - b.instant.epochMs);
+      })(),
+    ]);
+
+/* every rule's occurrences from the same origin, in chronological order;
+ * the rules are its arguments, `merge(a, b)`, hence the rest parameter */
+export const merge =
+  (
+    // eslint-disable-next-line functional/functional-parameters
+    ...rules: readonly RecurrenceRule[]
+  ): RecurrenceRule =>
+  (origin, from) =>
+    mergeSorted(rules.map((rule) => rule(origin, from)));
+
+/* the k-th occurrence (from 0), if the rule has that many */
+export const nth =
+  (k: number) =>
+  (rule: RecurrenceRule) =>
+  (origin: Occurrence): Occurrence | undefined =>
+    k < 0 ? undefined : Array.from(take(k + 1)(rule)(origin))[k];
+
+/* the occurrences within a window; rules that can seek (every,
+ * everyMonth, rrule without COUNT) start near the window instead of
+ * iterating from the origin */
+export const occurrencesBetween =
+  (
+    start: RecurrenceDate,
+    end: RecurrenceDate,
+    inclusivity: Inclusivity = '[)'
+  ) =>
+  (rule: RecurrenceRule) =>
+  (origin: Occurrence): readonly Occurrence[] =>
+    Array.from(between(start, end, inclusivity)(rule)(origin));
@@ -0,0 +1,366 @@
+import test from 'ava';
+
+import {
+  format,
+  instant,
+  parseISO,
+  PlainDateTime,
+  withZoneName,
+  ZDT,
+} from './ream';
+import { formatRRule, RRule, rrule, tryParseRRule } from './rrule';
+
+const origin = (iso: string, zoneName = 'America/New_York') =>
+  withZoneName(zoneName)(parseISO(iso));
+
+const take = (
+  generator: Generator<ZDT<PlainDateTime>, void, unknown>,
+  n: number
+): readonly ZDT<PlainDateTime>[] => {
+  const next = generator.next();
+  return n === 0 || next.done ? [] : [next.value, ...take(generator, n - 1)];
+};
+
+/* the first `n` occurrences of an RRULE string from `dtstart` in New York */
+const expand = (dtstart: string, value: string, n = 100) => {
+  const parsed = tryParseRRule(value);
+  return parsed.ok
+    ? take(rrule(parsed.value)(origin(dtstart)), n).map((z) =>
+        format('YYYY-MM-DD HH:mm', z.payload)
+      )
+    : [];
+};
+
+test('tryParseRRule reads every rule part', (t) => {
+  t.deepEqual(
+    tryParseRRule(
+      'RRULE:FREQ=MONTHLY;INTERVAL=2;COUNT=10;BYDAY=1SU,-1SU,MO;BYMONTHDAY=1,-1;BYMONTH=1,6;BYSETPOS=-1;BYHOUR=9;BYMINUTE=30;BYSECOND=0;BYYEARDAY=100;WKST=SU'
+    ),
+    {
+      ok: true,
+      value: {
+        freq: 'MONTHLY',
+        interval: 2,
+        count: 10,
+        byDay: [
+          { weekday: 'SU', n: 1 },
+          { weekday: 'SU', n: -1 },
+          { weekday: 'MO' },
+        ],
+        byMonthDay: [1, -1],
+        byMonth: [1, 6],
+        bySetPos: [-1],
+        byHour: [9],
+        byMinute: [30],
+        bySecond: [0],
+        byYearDay: [100],
+        wkst: 'SU',
+      },
+    }
+  );
+  t.deepEqual(tryParseRRule('freq=yearly;byweekno=20,-1'), {
+    ok: true,
+    value: { freq: 'YEARLY', byWeekNo: [20, -1] },
+  });
+});
+
+test('tryParseRRule reads the three UNTIL forms', (t) => {
+  const until = (value: string): unknown => {
+    const parsed = tryParseRRule(`FREQ=DAILY;UNTIL=${value}`);
+    return parsed.ok ? parsed.value.until : undefined;
+  };
+
+  t.deepEqual(until('19971224T000000Z'), instant(Date.UTC(1997, 11, 24)));
+  t.deepEqual(until('19971224T090000'), {
+    y: 1997,
+    m: 12,
+    d: 24,
+    h: 9,
+    min: 0,
+    s: 0,
+    ms: 0,
+  });
+  t.deepEqual(until('19971224'), { y: 1997, m: 12, d: 24 });
+});
+
+test('tryParseRRule reports malformed and out-of-range parts', (t) => {
+  t.deepEqual(tryParseRRule('FREQ=FORTNIGHTLY'), {
+    ok: false,
+    error: { kind: 'malformed', input: 'FREQ=FORTNIGHTLY', position: 5 },
+  });
+  t.deepEqual(tryParseRRule('COUNT=3'), {
+    ok: false,
+    error: { kind: 'malformed', input: 'COUNT=3', position: 7 },
+  });
+  t.deepEqual(tryParseRRule('FREQ=DAILY;COUNT=2;UNTIL=20240101'), {
+    ok: false,
+    error: {
+      kind: 'malformed',
+      input: 'FREQ=DAILY;COUNT=2;UNTIL=20240101',
+      position: 19,
+    },
+  });
+  t.deepEqual(tryParseRRule('FREQ=WEEKLY;BYDAY=1MO'), {
+    ok: false,
+    error: { kind: 'malformed', input: 'FREQ=WEEKLY;BYDAY=1MO', position: 12 },
+  });
+  t.deepEqual(tryParseRRule('FREQ=MONTHLY;BYWEEKNO=3'), {
+    ok: false,
+    error: {
+      kind: 'malformed',
+      input: 'FREQ=MONTHLY;BYWEEKNO=3',
+      position: 13,
+    },
+  });
+  t.deepEqual(tryParseRRule('FREQ=YEARLY;BYMONTH=13'), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'BYMONTH', value: 13 },
+  });
+  t.deepEqual(tryParseRRule('FREQ=YEARLY;BYMONTHDAY=0'), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'BYMONTHDAY', value: 0 },
+  });
+  t.deepEqual(tryParseRRule('FREQ=DAILY;UNTIL=20240230'), {
+    ok: false,
+    error: { kind: 'out-of-range', field: 'd', value: 30 },
+  });
+});
+
+test('formatRRule round-trips parsed rules', (t) => {
+  const rules = [
+    'FREQ=DAILY;COUNT=10',
+    'FREQ=WEEKLY;UNTIL=19971007T000000Z;BYDAY=TU,TH;WKST=SU',
+    'FREQ=MONTHLY;INTERVAL=2;BYDAY=1SU,-1SU',
+    'FREQ=YEARLY;UNTIL=20240101;BYDAY=MO;BYWEEKNO=20',
+    'FREQ=HOURLY;UNTIL=19970902T170000;INTERVAL=3',
+  ];
+  const roundTrip = (value: string) => {
+    const parsed = tryParseRRule(value);
+    return parsed.ok ? formatRRule(parsed.value) : '';
+  };
+
+  t.deepEqual(rules.map(roundTrip), rules);
+  t.is(
+    formatRRule({
+      freq: 'MONTHLY',
+      bySetPos: [-1],
+      byDay: [{ weekday: 'FR' }],
+    }),
+    'FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1'
+  );
+});
+
+test('rrule expands daily and weekly rules (RFC 5545 examples)', (t) => {
+  t.deepEqual(expand('1997-09-02T09:00:00', 'FREQ=DAILY;INTERVAL=10;COUNT=5'), [
+    '1997-09-02 09:00',
+    '1997-09-12 09:00',
+    '1997-09-22 09:00',
+    '1997-10-02 09:00',
+    '1997-10-12 09:00',
+  ]);
+  t.deepEqual(
+    expand(
+      '1997-09-02T09:00:00',
+      'FREQ=WEEKLY;UNTIL=19971007T000000Z;WKST=SU;BYDAY=TU,TH'
+    ),
+    [
+      '1997-09-02 09:00',
+      '1997-09-04 09:00',
+      '1997-09-09 09:00',
+      '1997-09-11 09:00',
+      '1997-09-16 09:00',
+      '1997-09-18 09:00',
+      '1997-09-23 09:00',
+      '1997-09-25 09:00',
+      '1997-09-30 09:00',
+      '1997-10-02 09:00',
+    ]
+  );
+  // WKST decides which days share a week
+  t.deepEqual(
+    expand('1997-08-05T09:00:00', 'FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU'),
+    [
+      '1997-08-05 09:00',
+      '1997-08-10 09:00',
+      '1997-08-19 09:00',
+      '1997-08-24 09:00',
+    ]
+  );
+  t.deepEqual(
+    expand(
+      '1997-08-05T09:00:00',
+      'FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU'
+    ),
+    [
+      '1997-08-05 09:00',
+      '1997-08-17 09:00',
+      '1997-08-19 09:00',
+      '1997-08-31 09:00',
+    ]
+  );
+});
+
+test('rrule expands monthly rules with ordinals and BYSETPOS', (t) => {
+  t.deepEqual(
+    expand(
+      '1997-09-07T09:00:00',
+      'FREQ=MONTHLY;INTERVAL=2;COUNT=6;BYDAY=1SU,-1SU'
+    ),
+    [
+      '1997-09-07 09:00',
+      '1997-09-28 09:00',
+      '1997-11-02 09:00',
+      '1997-11-30 09:00',
+      '1998-01-04 09:00',
+      '1998-01-25 09:00',
+    ]
+  );
+  t.deepEqual(expand('1997-09-28T09:00:00', 'FREQ=MONTHLY;BYMONTHDAY=-3', 4), [
+    '1997-09-28 09:00',
+    '1997-10-29 09:00',
+    '1997-11-28 09:00',
+    '1997-12-29 09:00',
+  ]);
+  t.deepEqual(
+    expand('1998-02-13T09:00:00', 'FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13', 3),
+    ['1998-02-13 09:00', '1998-03-13 09:00', '1998-11-13 09:00']
+  );
+  t.deepEqual(
+    expand(
+      '1997-09-29T09:00:00',
+      'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-2',
+      4
+    ),
+    [
+      '1997-09-29 09:00',
+      '1997-10-30 09:00',
+      '1997-11-27 09:00',
+      '1997-12-30 09:00',
+    ]
+  );
+  // months without a 31st are skipped rather than clamped
+  t.deepEqual(expand('2024-01-31T09:00:00', 'FREQ=MONTHLY;COUNT=3'), [
+    '2024-01-31 09:00',
+    '2024-03-31 09:00',
+    '2024-05-31 09:00',
+  ]);
+});
+
+test('rrule expands yearly rules by year day, week number and weekday', (t) => {
+  t.deepEqual(
+    expand(
+      '1997-01-01T09:00:00',
+      'FREQ=YEARLY;INTERVAL=3;COUNT=4;BYYEARDAY=1,100,200'
+    ),
+    [
+      '1997-01-01 09:00',
+      '1997-04-10 09:00',
+      '1997-07-19 09:00',
+      '2000-01-01 09:00',
+    ]
+  );
+  t.deepEqual(expand('1997-05-19T09:00:00', 'FREQ=YEARLY;BYDAY=20MO', 3), [
+    '1997-05-19 09:00',
+    '1998-05-18 09:00',
+    '1999-05-17 09:00',
+  ]);
+  t.deepEqual(
+    expand('1997-05-12T09:00:00', 'FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO', 3),
+    ['1997-05-12 09:00', '1998-05-11 09:00', '1999-05-17 09:00']
+  );
+  t.deepEqual(
+    expand(
+      '1996-11-05T09:00:00',
+      'FREQ=YEARLY;INTERVAL=4;BYMONTH=11;BYDAY=TU;BYMONTHDAY=2,3,4,5,6,7,8',
+      3
+    ),
+    ['1996-11-05 09:00', '2000-11-07 09:00', '2004-11-02 09:00']
+  );
+});
+
+test('rrule expands times of day and sub-daily frequencies', (t) => {
+  t.deepEqual(
+    expand('1997-09-02T09:00:00', 'FREQ=DAILY;BYHOUR=9,10;BYMINUTE=0,30', 5),
+    [
+      '1997-09-02 09:00',
+      '1997-09-02 09:30',
+      '1997-09-02 10:00',
+      '1997-09-02 10:30',
+      '1997-09-03 09:00',
+    ]
+  );
+  // UNTIL 17:00Z is 13:00 in New York
+  t.deepEqual(
+    expand(
+      '1997-09-02T09:00:00',
+      'FREQ=HOURLY;INTERVAL=3;UNTIL=19970902T170000Z'
+    ),
+    ['1997-09-02 09:00', '1997-09-02 12:00']
+  );
+  t.deepEqual(
+    expand('1997-09-02T09:00:00', 'FREQ=MINUTELY;INTERVAL=20;BYHOUR=9,10', 4),
+    [
+      '1997-09-02 09:00',
+      '1997-09-02 09:20',
+      '1997-09-02 09:40',
+      '1997-09-02 10:00',
+    ]
+  );
+});
+
+test('rrule gives the wall clock of the instant for a reading in a gap', (t) => {
+  const rule: RRule = { freq: 'DAILY', count: 3 };
+  const occurrences = take(rrule(rule)(origin('2024-03-09T02:30:00')), 5);
+
+  t.deepEqual(
+    occurrences.map((z) => format('YYYY-MM-DDTHH:mmZ', z)),
+    [
+      '2024-03-09T02:30-05:00',
+      '2024-03-10T03:30-04:00',
+      '2024-03-11T02:30-04:00',
+    ]
+  );
+  t.is(occurrences[1].instant.epochMs, Date.UTC(2024, 2, 10, 7, 30));
+});
+
+test('rrule keeps the wall-clock time across DST in the origin zone', (t) => {
+  const rule: RRule = { freq: 'DAILY', count: 3 };
+  const occurrences = take(rrule(rule)(origin('2024-03-09T09:00:00')), 5);
+
+  t.deepEqual(
+    occurrences.map((z) => z.payload.h),
+    [9, 9, 9]
+  );
+  t.deepEqual(
+    occurrences.map((z) => z.zone.offsetMinutes),
+    [-300, -240, -240]
+  );
+  t.is(
+    occurrences[1].instant.epochMs - occurrences[0].instant.epochMs,
+    23 * 3_600_000
+  );
+});
+
+test('rrule ends sub-daily rules that can never match', (t) => {
+  t.deepEqual(
+    expand('2024-03-01T09:00:00', 'FREQ=MINUTELY;BYMONTH=2;BYMONTHDAY=30'),
+    []
+  );
+  t.deepEqual(
+    expand('2024-03-01T09:00:00', 'FREQ=HOURLY;INTERVAL=48;BYHOUR=1'),
+    []
+  );
+  t.deepEqual(
+    expand('2024-03-01T09:00:00', 'FREQ=SECONDLY;INTERVAL=2;BYSECOND=1'),
+    []
+  );
+  // sparse matches are reached a day at a time
+  t.deepEqual(
+    expand(
+      '2024-03-01T09:00:00',
+      'FREQ=SECONDLY;BYMONTH=2;BYMONTHDAY=29;BYHOUR=3;BYMINUTE=7;BYSECOND=5,9',
+      3
+    ),
+    ['2028-02-29 03:07', '2028-02-29 03:07', '2032-02-29 03:07']
+  );
+});
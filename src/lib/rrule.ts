@@ -0,0 +1,616 @@
+/*********************************************************************
+ *  RECURRENCE  RULES  (RFC 5545)
+ *  iCalendar RRULE values: a parser, a serializer and an expander into
+ *  a RecurrenceRule. Occurrences are computed on the wall clock of the
+ *  origin (DTSTART) and resolved in its zone, so a 09:00 meeting stays
+ *  at 09:00 across DST changes.
+ ********************************************************************/
+
+import { civilFromDays, daysFromCivil } from './calendars';
+import {
+  dayOfWeek,
+  daysInCalendarMonth,
+  err,
+  fromPlain,
+  Instant,
+  instant,
+  MILLIS,
+  ok,
+  PlainDate,
+  PlainDateTime,
+  ReamError,
+  recurrence,
+  RecurrenceRule,
+  Result,
+  seekReading,
+  toPlain,
+  validateDateTime,
+  weekOfYear,
+  WeekRule,
+  weeksInYear,
+  weekYear,
+  withZone,
+  ZDT,
+} from './ream';
+
+export type Frequency =
+  | 'SECONDLY'
+  | 'MINUTELY'
+  | 'HOURLY'
+  | 'DAILY'
+  | 'WEEKLY'
+  | 'MONTHLY'
+  | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/* A BYDAY entry: every such weekday in the period, or with `n` the n-th
+ * (-1 = last) of the month or year */
+export type ByDay = Readonly<{
+  readonly weekday: Weekday;
+  readonly n?: number;
+}>;
+
+/* An iCalendar DATE-TIME in UTC, a floating DATE-TIME, or a DATE */
+export type DateValue = Instant | PlainDateTime | PlainDate;
+
+/* An RRULE value. `until` is an instant for the UTC form (`...Z`),
+ * otherwise a wall-clock date-time or date in the origin's zone */
+export type RRule = Readonly<{
+  readonly freq: Frequency;
+  readonly interval?: number;
+  readonly count?: number;
+  readonly until?: DateValue;
+  readonly bySecond?: readonly number[];
+  readonly byMinute?: readonly number[];
+  readonly byHour?: readonly number[];
+  readonly byDay?: readonly ByDay[];
+  readonly byMonthDay?: readonly number[];
+  readonly byYearDay?: readonly number[];
+  readonly byWeekNo?: readonly number[];
+  readonly byMonth?: readonly number[];
+  readonly bySetPos?: readonly number[];
+  readonly wkst?: Weekday;
+}>;
+
+const FREQUENCIES: readonly Frequency[] = [
+  'SECONDLY',
+  'MINUTELY',
+  'HOURLY',
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+];
+
+/* in ISO order: WEEKDAYS[dayOfWeek(d) - 1] */
+const WEEKDAYS: readonly Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+/* numeric list parts: rule field and range (signed ones exclude zero) */
+const NUMBER_LISTS = {
+  BYSECOND: ['bySecond', 0, 60],
+  BYMINUTE: ['byMinute', 0, 59],
+  BYHOUR: ['byHour', 0, 23],
+  BYMONTHDAY: ['byMonthDay', -31, 31],
+  BYYEARDAY: ['byYearDay', -366, 366],
+  BYWEEKNO: ['byWeekNo', -53, 53],
+  BYMONTH: ['byMonth', 1, 12],
+  BYSETPOS: ['bySetPos', -366, 366],
+} as const;
+
+type Field = readonly [keyof RRule, RRule[keyof RRule]];
+
+/* ------------------------------------------------------------------ *
+ *  PARSING
+ * ------------------------------------------------------------------ */
+const isWeekday = (s: string): s is Weekday =>
+  (WEEKDAYS as readonly string[]).includes(s);
+
+const inRange = (n: number, lo: number, hi: number): boolean =>
+  n >= lo && n <= hi && (lo >= 0 || n !== 0);
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+/* an iCalendar DATE or DATE-TIME value (as in UNTIL): an Instant in UTC
+ * (`19970714T173000Z`), a floating PlainDateTime (`19970714T133000`) or a
+ * PlainDate (`19970714`); errors point at `position` in `input` */
+export const tryParseDateValue = (
+  value: string,
+  input = value,
+  position = 0
+): Result<DateValue> => {
+  const m = DATE_VALUE.exec(value);
+  if (!m) return err({ kind: 'malformed', input, position });
+  const [y, mo, d, h, min, s] = m.slice(1, 7).map((v) => Number(v ?? 0));
+  const pdt = validateDateTime({ y, m: mo, d, h, min, s, ms: 0 });
+  if (!pdt.ok) return pdt;
+  return m[7]
+    ? ok(fromPlain(pdt.value))
+    : m[4]
+    ? ok(pdt.value)
+    : ok({ y, m: mo, d });
+};
+
+const parseByDay = (
+  input: string,
+  value: string,
+  position: number
+): Result<readonly ByDay[]> => {
+  const items = value
+    .split(',')
+    .map((item) => /^([+-]?\d{1,2})?(\w\w)$/.exec(item));
+  const entries = items.map((m) =>
+    m && isWeekday(m[2])
+      ? m[1] === undefined
+        ? { weekday: m[2] }
+        : { weekday: m[2], n: Number(m[1]) }
+      : undefined
+  );
+  const bad = entries.find((e) => e?.n !== undefined && !inRange(e.n, -53, 53));
+  return entries.includes(undefined)
+    ? err({ kind: 'malformed', input, position })
+    : bad?.n !== undefined
+    ? err({ kind: 'out-of-range', field: 'BYDAY', value: bad.n })
+    : ok(entries as readonly ByDay[]);
+};
+
+const parseNumberList = (
+  input: string,
+  name: keyof typeof NUMBER_LISTS,
+  value: string,
+  position: number
+): Result<readonly number[]> => {
+  const [, lo, hi] = NUMBER_LISTS[name];
+  const items = value.split(',');
+  const numbers = items.map(Number);
+  const bad = numbers.find((n) => !inRange(n, lo, hi));
+  return items.some((item) => !/^[+-]?\d{1,3}$/.test(item))
+    ? err({ kind: 'malformed', input, position })
+    : bad !== undefined
+    ? err({ kind: 'out-of-range', field: name, value: bad })
+    : ok(numbers);
+};
+
+/* one `NAME=value` part, `position` being where it starts in `input` */
+const parsePart = (
+  input: string,
+  part: string,
+  position: number
+): Result<Field> => {
+  const m = /^([A-Z]+)=(.+)$/.exec(part);
+  if (!m) return err({ kind: 'malformed', input, position });
+  const [, name, value] = m;
+  const at = position + name.length + 1;
+  const field = <K extends keyof RRule>(
+    key: K,
+    r: Result<RRule[K]>
+  ): Result<Field> => (r.ok ? ok([key, r.value]) : r);
+  const positive = (key: 'interval' | 'count'): Result<Field> =>
+    !/^\d+$/.test(value)
+      ? err({ kind: 'malformed', input, position: at })
+      : Number(value) < 1
+      ? err({ kind: 'out-of-range', field: name, value: Number(value) })
+      : ok([key, Number(value)]);
+  if (name === 'FREQ')
+    return (FREQUENCIES as readonly string[]).includes(value)
+      ? ok(['freq', value as Frequency])
+      : err({ kind: 'malformed', input, position: at });
+  if (name === 'WKST')
+    return isWeekday(value)
+      ? ok(['wkst', value])
+      : err({ kind: 'malformed', input, position: at });
+  if (name === 'INTERVAL') return positive('interval');
+  if (name === 'COUNT') return positive('count');
+  if (name === 'UNTIL')
+    return field('until', tryParseDateValue(value, input, at));
+  if (name === 'BYDAY') return field('byDay', parseByDay(input, value, at));
+  return name in NUMBER_LISTS
+    ? field(
+        NUMBER_LISTS[name as keyof typeof NUMBER_LISTS][0],
+        parseNumberList(input, name as keyof typeof NUMBER_LISTS, value, at)
+      )
+    : err({ kind: 'malformed', input, position });
+};
+
+/* An RRULE value (with or without the `RRULE:` prefix), case-insensitive.
+ * Rejects repeated parts, a missing FREQ, COUNT with UNTIL, BYWEEKNO
+ * outside YEARLY and BYDAY ordinals outside MONTHLY and YEARLY */
+export const tryParseRRule = (input: string): Result<RRule> => {
+  const upper = input.toUpperCase();
+  const offset = upper.startsWith('RRULE:') ? 'RRULE:'.length : 0;
+  const parts = upper.slice(offset).split(';');
+  const positions = parts.map(
+    (_, k) => offset + parts.slice(0, k).reduce((n, p) => n + p.length + 1, 0)
+  );
+  const fields = parts.map((part, k) => parsePart(input, part, positions[k]));
+  const failed = fields.find((f) => !f.ok);
+  if (failed && !failed.ok) return failed;
+  const keys = fields.map((f) => (f.ok ? f.value[0] : undefined));
+  const rule = fields.reduce<RRule>(
+    (r, f) => (f.ok ? { ...r, [f.value[0]]: f.value[1] } : r),
+    { freq: 'YEARLY' }
+  );
+  const malformedAt = (k: number): Result<never, ReamError> =>
+    err({ kind: 'malformed', input, position: positions[k] });
+  const repeated = keys.findIndex((key, k) => keys.indexOf(key) !== k);
+  if (repeated !== -1) return malformedAt(repeated);
+  if (!keys.includes('freq'))
+    return err({ kind: 'malformed', input, position: input.length });
+  if (keys.includes('count') && keys.includes('until'))
+    return malformedAt(Math.max(keys.indexOf('count'), keys.indexOf('until')));
+  if (rule.byWeekNo && rule.freq !== 'YEARLY')
+    return malformedAt(keys.indexOf('byWeekNo'));
+  if (
+    rule.byDay?.some((d) => d.n !== undefined) &&
+    rule.freq !== 'MONTHLY' &&
+    rule.freq !== 'YEARLY'
+  )
+    return malformedAt(keys.indexOf('byDay'));
+  return ok(rule);
+};
+
+/* ------------------------------------------------------------------ *
+ *  SERIALIZATION
+ * ------------------------------------------------------------------ */
+const pad = (n: number, width = 2): string => String(n).padStart(width, '0');
+
+const isDateTime = (d: PlainDate): d is PlainDateTime => 'h' in d;
+
+/* the iCalendar form of a DATE or DATE-TIME value */
+export const formatDateValue = (value: DateValue): string => {
+  const utc = 'epochMs' in value;
+  const d: PlainDate = 'epochMs' in value ? toPlain(value) : value;
+  const date = `${pad(d.y, 4)}${pad(d.m)}${pad(d.d)}`;
+  return isDateTime(d)
+    ? `${date}T${pad(d.h)}${pad(d.min)}${pad(d.s)}${utc ? 'Z' : ''}`
+    : date;
+};
+
+const list = (xs?: readonly (number | string)[]): string | undefined =>
+  xs && xs.length > 0 ? xs.join(',') : undefined;
+
+/* the rule as an RRULE value (without the `RRULE:` prefix), parts in the
+ * order RFC 5545 lists them */
+export const formatRRule = (rule: RRule): string =>
+  (
+    [
+      ['FREQ', rule.freq],
+      ['UNTIL', rule.until && formatDateValue(rule.until)],
+      ['COUNT', rule.count],
+      ['INTERVAL', rule.interval],
+      ['BYSECOND', list(rule.bySecond)],
+      ['BYMINUTE', list(rule.byMinute)],
+      ['BYHOUR', list(rule.byHour)],
+      ['BYDAY', list(rule.byDay?.map((d) => `${d.n ?? ''}${d.weekday}`))],
+      ['BYMONTHDAY', list(rule.byMonthDay)],
+      ['BYYEARDAY', list(rule.byYearDay)],
+      ['BYWEEKNO', list(rule.byWeekNo)],
+      ['BYMONTH', list(rule.byMonth)],
+      ['BYSETPOS', list(rule.bySetPos)],
+      ['WKST', rule.wkst],
+    ] as const
+  )
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(';');
+
+/* ------------------------------------------------------------------ *
+ *  EXPANSION
+ * ------------------------------------------------------------------ */
+const mod = (a: number, b: number): number => ((a % b) + b) % b;
+
+const range = (from: number, to: number): readonly number[] =>
+  Array.from({ length: Math.max(0, to - from) }, (_, k) => from + k);
+
+const epochDay = (d: PlainDate): number => daysFromCivil(d.y, d.m, d.d);
+
+const wallMs = (pdt: PlainDateTime): number => fromPlain(pdt).epochMs;
+
+/* `n` matches position `k` (1-based) of `length`, counting from the end
+ * when negative */
+const matchesPosition = (
+  ns: readonly number[],
+  k: number,
+  length: number
+): boolean => ns.includes(k) || ns.includes(k - length - 1);
+
+/* periods past this day end an expansion that found nothing */
+const LAST_DAY = daysFromCivil(9999, 12, 31);
+
+/* days searched at a time for one the day parts allow (400 years) */
+const DAY_CHUNK = 146_097;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+const SUB_DAILY: Readonly<Partial<Record<Frequency, number>>> = {
+  HOURLY: MILLIS.HOUR,
+  MINUTELY: MILLIS.MINUTE,
+  SECONDLY: MILLIS.SECOND,
+};
+
+/* wall-clock readings (as UTC-line ms) the rule produces from `start`,
+ * period by period: candidates(k) is the k-th period's, sorted */
+const expander = (rule: RRule, start: PlainDateTime) => {
+  const step = rule.interval ?? 1;
+  const wkst = WEEKDAYS.indexOf(rule.wkst ?? 'MO') + 1;
+  const weekRule: WeekRule = { firstDay: wkst, minDays: 4 };
+  const given = (xs?: readonly unknown[]) => xs !== undefined && xs.length > 0;
+  const noDayParts =
+    !given(rule.byWeekNo) &&
+    !given(rule.byYearDay) &&
+    !given(rule.byMonthDay) &&
+    !given(rule.byDay);
+  // an RRULE with no day parts repeats DTSTART's day in each period
+  const byMonth =
+    rule.freq === 'YEARLY' && noDayParts && !given(rule.byMonth)
+      ? [start.m]
+      : rule.byMonth;
+  const byMonthDay =
+    noDayParts && (rule.freq === 'YEARLY' || rule.freq === 'MONTHLY')
+      ? [start.d]
+      : rule.byMonthDay;
+  const byDay: readonly ByDay[] | undefined =
+    noDayParts && rule.freq === 'WEEKLY'
+      ? [{ weekday: WEEKDAYS[dayOfWeek(start) - 1] }]
+      : rule.byDay;
+  const ordinalsInMonth =
+    rule.freq === 'MONTHLY' || (rule.freq === 'YEARLY' && given(rule.byMonth));
+  const ordinalsInYear = rule.freq === 'YEARLY' && !ordinalsInMonth;
+
+  const dayMatches = (day: number): boolean => {
+    const d = civilFromDays(day);
+    const monthLength = daysInCalendarMonth('gregory', d.y, d.m);
+    const yearDay = day - daysFromCivil(d.y, 1, 1) + 1;
+    const yearLength = daysFromCivil(d.y + 1, 1, 1) - daysFromCivil(d.y, 1, 1);
+    const weekday = WEEKDAYS[dayOfWeek(d) - 1];
+    const nthOf = (k: number, length: number) => (e: ByDay) =>
+      e.n === undefined || !(ordinalsInMonth || ordinalsInYear)
+        ? true
+        : e.n > 0
+        ? e.n === Math.floor((k - 1) / 7) + 1
+        : e.n === -(Math.floor((length - k) / 7) + 1);
+    return (
+      (!given(byMonth) || (byMonth ?? []).includes(d.m)) &&
+      (!given(rule.byWeekNo) ||
+        matchesPosition(
+          rule.byWeekNo ?? [],
+          weekOfYear(d, weekRule),
+          weeksInYear(weekYear(d, weekRule), weekRule)
+        )) &&
+      (!given(rule.byYearDay) ||
+        matchesPosition(rule.byYearDay ?? [], yearDay, yearLength)) &&
+      (!given(byMonthDay) ||
+        matchesPosition(byMonthDay ?? [], d.d, monthLength)) &&
+      (!given(byDay) ||
+        (byDay ?? []).some(
+          (e) =>
+            e.weekday === weekday &&
+            (ordinalsInMonth
+              ? nthOf(d.d, monthLength)(e)
+              : nthOf(yearDay, yearLength)(e))
+        ))
+    );
+  };
+
+  const startDay = epochDay(start);
+  const subDaily = SUB_DAILY[rule.freq];
+
+  /* days of the k-th period, and the reading it starts at */
+  const period = (k: number): readonly [readonly number[], PlainDateTime] => {
+    if (subDaily !== undefined) {
+      const p = toPlain(instant(wallMs(start) + k * step * subDaily));
+      return [[epochDay(p)], p];
+    }
+    if (rule.freq === 'YEARLY') {
+      const y = start.y + k * step;
+      return [range(daysFromCivil(y, 1, 1), daysFromCivil(y + 1, 1, 1)), start];
+    }
+    if (rule.freq === 'MONTHLY') {
+      const index = start.y * 12 + start.m - 1 + k * step;
+      const [y, m] = [Math.floor(index / 12), mod(index, 12) + 1];
+      const first = daysFromCivil(y, m, 1);
+      return [
+        range(first, first + daysInCalendarMonth('gregory', y, m)),
+        start,
+      ];
+    }
+    if (rule.freq === 'WEEKLY') {
+      const first = startDay - mod(dayOfWeek(start) - wkst, 7) + 7 * k * step;
+      return [range(first, first + 7), start];
+    }
+    return [[startDay + k * step], start];
+  };
+
+  /* times of day: expanded from the BY parts coarser than the frequency
+   * allows, limited to the period's own reading otherwise */
+  const times = (p: PlainDateTime): readonly number[] => {
+    const pick = (
+      limit: boolean,
+      by: readonly number[] | undefined,
+      own: number
+    ): readonly number[] =>
+      limit
+        ? !given(by) || (by ?? []).includes(own)
+          ? [own]
+          : []
+        : given(by)
+        ? by ?? []
+        : [own];
+    const hours = pick(subDaily !== undefined, rule.byHour, p.h);
+    const minutes = pick(
+      rule.freq === 'MINUTELY' || rule.freq === 'SECONDLY',
+      rule.byMinute,
+      p.min
+    );
+    const seconds = pick(rule.freq === 'SECONDLY', rule.bySecond, p.s);
+    return ([] as readonly number[])
+      .concat(
+        ...hours.map((h) =>
+          ([] as readonly number[]).concat(
+            ...minutes.map((min) =>
+              seconds.map(
+                (s) =>
+                  h * MILLIS.HOUR +
+                  min * MILLIS.MINUTE +
+                  s * MILLIS.SECOND +
+                  start.ms
+              )
+            )
+          )
+        )
+      )
+      .slice()
+      .sort((a, b) => a - b);
+  };
+
+  const candidates = (k: number): readonly number[] => {
+    const [days, p] = period(k);
+    const dayTimes = times(p);
+    const all = ([] as readonly number[]).concat(
+      ...days
+        .filter(dayMatches)
+        .map((day) => dayTimes.map((t) => day * MILLIS.DAY + t))
+    );
+    return given(rule.bySetPos)
+      ? all.filter((_, i) =>
+          matchesPosition(rule.bySetPos ?? [], i + 1, all.length)
+        )
+      : all;
+  };
+
+  /* the period holding reading `p`; negative before the first */
+  const periodAt = (p: PlainDateTime): number => {
+    const [y, m] = [p.y - start.y, p.m - start.m];
+    if (subDaily !== undefined)
+      return Math.floor((wallMs(p) - wallMs(start)) / (step * subDaily));
+    if (rule.freq === 'YEARLY') return Math.floor(y / step);
+    if (rule.freq === 'MONTHLY') return Math.floor((y * 12 + m) / step);
+    if (rule.freq === 'WEEKLY')
+      return Math.floor(
+        (epochDay(p) - startDay + mod(dayOfWeek(start) - wkst, 7)) / (7 * step)
+      );
+    return Math.floor((epochDay(p) - startDay) / step);
+  };
+
+  /* Sub-daily periods are skipped a day or a time of day at a time, so a
+   * rule such as FREQ=MINUTELY;BYMONTH=2;BYMONTHDAY=30 ends at once
+   * instead of walking minute by minute to LAST_DAY */
+  const stepMs = step * (subDaily ?? MILLIS.DAY);
+  const limitsMinute = subDaily !== undefined && subDaily < MILLIS.HOUR;
+  const limitsSecond = subDaily === MILLIS.SECOND;
+  const timeMatches = (tod: number): boolean =>
+    (!given(rule.byHour) ||
+      (rule.byHour ?? []).includes(Math.floor(tod / MILLIS.HOUR))) &&
+    (!limitsMinute ||
+      !given(rule.byMinute) ||
+      (rule.byMinute ?? []).includes(Math.floor(tod / MILLIS.MINUTE) % 60)) &&
+    (!limitsSecond ||
+      !given(rule.bySecond) ||
+      (rule.bySecond ?? []).includes(Math.floor(tod / MILLIS.SECOND) % 60));
+  const limitsTime =
+    subDaily !== undefined &&
+    (given(rule.byHour) ||
+      (limitsMinute && given(rule.byMinute)) ||
+      (limitsSecond && given(rule.bySecond)));
+  /* times of day the limiting parts allow, at the coarsest unit that
+   * tells them apart */
+  const allowedTimes = (): readonly number[] => {
+    const finest =
+      limitsSecond && given(rule.bySecond)
+        ? MILLIS.SECOND
+        : limitsMinute && given(rule.byMinute)
+        ? MILLIS.MINUTE
+        : MILLIS.HOUR;
+    return range(0, MILLIS.DAY / finest)
+      .map((i) => i * finest)
+      .filter(timeMatches);
+  };
+  // period readings fall on one residue of the day modulo `g`
+  const g = gcd(stepMs, MILLIS.DAY);
+  const reachable =
+    !limitsTime ||
+    range(0, MILLIS.DAY / g).some((i) =>
+      timeMatches(mod(wallMs(start), g) + i * g)
+    );
+  const allowed = limitsTime && reachable ? allowedTimes() : [];
+
+  /* the first day from `day` on the day parts allow */
+  const matchingDay = (day: number): number => {
+    if (day > LAST_DAY) return LAST_DAY + 1;
+    const to = Math.min(day + DAY_CHUNK, LAST_DAY + 1);
+    return range(day, to).find(dayMatches) ?? matchingDay(to);
+  };
+  /* the first period whose reading is at or after `ms` */
+  const periodFrom = (ms: number): number =>
+    Math.ceil((ms - wallMs(start)) / stepMs);
+  const next = (k: number): number => {
+    if (subDaily === undefined) return k + 1;
+    const ms = wallMs(start) + (k + 1) * stepMs;
+    const day = Math.floor(ms / MILLIS.DAY);
+    const tod = ms - day * MILLIS.DAY;
+    if (!dayMatches(day))
+      return Math.max(k + 1, periodFrom(matchingDay(day + 1) * MILLIS.DAY));
+    if (limitsTime && !timeMatches(tod)) {
+      const later = allowed.find((t) => t > tod);
+      return Math.max(
+        k + 1,
+        periodFrom(
+          later === undefined
+            ? (day + 1) * MILLIS.DAY
+            : day * MILLIS.DAY + later
+        )
+      );
+    }
+    return k + 1;
+  };
+
+  return {
+    candidates,
+    periodAt,
+    next,
+    exhausted: (k: number) => !reachable || period(k)[0][0] > LAST_DAY,
+  };
+};
+
+const withinUntil = (
+  until: DateValue | undefined,
+  z: ZDT<PlainDateTime>
+): boolean =>
+  until === undefined
+    ? true
+    : 'epochMs' in until
+    ? z.instant.epochMs <= until.epochMs
+    : 'h' in until
+    ? wallMs(z.payload) <= wallMs(until)
+    : epochDay(z.payload) <= epochDay(until);
+
+/* the rule's occurrences from the origin (DTSTART) on: wall-clock
+ * readings in the origin's zone, up to COUNT or UNTIL */
+export const rrule =
+  (rule: RRule): RecurrenceRule =>
+  (origin, from) => {
+    const { candidates, periodAt, next, exhausted } = expander(
+      rule,
+      origin.payload
+    );
+    const startMs = wallMs(origin.payload);
+    return recurrence(
+      (k) => {
+        if (exhausted(k)) return undefined;
+        const occurrences = candidates(k)
+          .filter((ms) => ms >= startMs)
+          .map((ms) => withZone(origin.zone)(toPlain(instant(ms))));
+        const allowed = occurrences.filter((z) => withinUntil(rule.until, z));
+        // candidates ascend, so one past UNTIL ends the rule
+        return occurrences.length > 0 && allowed.length === 0
+          ? undefined
+          : allowed;
+      },
+      rule.count,
+      // with COUNT every occurrence from the origin on has to be counted
+      from && rule.count === undefined
+        ? Math.max(0, periodAt(seekReading(from)))
+        : 0,
+      next
+    );
+  };
@@ -0,0 +1,87 @@
+import test from 'ava';
+
+import { instant } from './ream';
+import {
+  describeTimezone,
+  getTimezoneCatalog,
+  groupTimezones,
+  searchTimezones,
+  timezoneAliases,
+} from './timezones';
+
+const JAN_2024 = instant(Date.UTC(2024, 0, 15));
+
+test('describeTimezone resolves aliases to the canonical id', (t) => {
+  const kolkata = describeTimezone('Asia/Calcutta', 'en', JAN_2024);
+
+  t.is(kolkata.id, 'Asia/Kolkata');
+  t.deepEqual(kolkata.aliases, ['Asia/Calcutta']);
+  t.is(kolkata.countryCode, 'IN');
+  t.is(kolkata.region, 'Asia');
+  t.is(kolkata.city, 'Kolkata');
+  t.is(kolkata.standardOffsetMinutes, 330);
+  t.is(kolkata.dstOffsetMinutes, undefined);
+  t.is(kolkata.displayName, 'India Standard Time');
+});
+
+test('describeTimezone reports standard and DST offsets', (t) => {
+  const ny = describeTimezone('America/New_York', 'en', JAN_2024);
+  const sydney = describeTimezone('Australia/Sydney', 'en', JAN_2024);
+
+  t.is(ny.standardOffsetMinutes, -300);
+  t.is(ny.dstOffsetMinutes, -240);
+  t.is(ny.city, 'New York');
+  t.is(ny.displayName, 'Eastern Time');
+  t.is(sydney.standardOffsetMinutes, 600);
+  t.is(sydney.dstOffsetMinutes, 660);
+  t.is(
+    describeTimezone('America/Phoenix', 'en', JAN_2024).dstOffsetMinutes,
+    undefined
+  );
+});
+
+test('timezoneAliases lists legacy ids', (t) => {
+  t.true(
+    timezoneAliases('America/Argentina/Buenos_Aires').includes(
+      'America/Buenos_Aires'
+    )
+  );
+  t.deepEqual(timezoneAliases('Asia/Calcutta'), ['Asia/Calcutta']);
+  t.deepEqual(timezoneAliases('Nowhere/City'), []);
+});
+
+const catalog = getTimezoneCatalog('en', JAN_2024);
+
+test('getTimezoneCatalog covers the runtime zones', (t) => {
+  const ids = catalog.map((e) => e.id);
+
+  t.true(catalog.length > 300);
+  t.true(ids.includes('Asia/Kolkata'));
+  t.true(ids.includes('America/Phoenix'));
+  t.false(ids.includes('Asia/Calcutta'));
+});
+
+test('searchTimezones matches cities, aliases and names', (t) => {
+  t.is(searchTimezones('kolkata', catalog)[0].id, 'Asia/Kolkata');
+  t.is(searchTimezones('Calcutta', catalog)[0].id, 'Asia/Kolkata');
+  t.is(searchTimezones('new york', catalog)[0].id, 'America/New_York');
+  t.true(
+    searchTimezones('Eastern Time', catalog).some(
+      (e) => e.id === 'America/Toronto'
+    )
+  );
+  t.deepEqual(searchTimezones('zzzz-no-match', catalog), []);
+});
+
+test('groupTimezones groups by region, country and offset', (t) => {
+  const byRegion = groupTimezones('region', catalog);
+  const byCountry = groupTimezones('country', catalog);
+  const byOffset = groupTimezones('offset', catalog);
+
+  t.true(byRegion.Europe.some((e) => e.id === 'Europe/Paris'));
+  t.true(byCountry.US.some((e) => e.id === 'America/Phoenix'));
+  t.deepEqual(
+    byOffset['+05:30'].map((e) => e.id),
+    ['Asia/Colombo', 'Asia/Kolkata']
+  );
+});
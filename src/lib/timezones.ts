@@ -0,0 +1,123 @@
+/*********************************************************************
+ *  TIME-ZONE  CATALOG
+ *  Every zone the runtime knows, with metadata for zone pickers:
+ *  aliases, country, current offsets and a localized display name.
+ ********************************************************************/
+
+import {
+  canonicalTimezone,
+  formatOffset,
+  getAvailableTimezones,
+  instant,
+  Instant,
+  Locale,
+  now,
+  timeZoneName,
+  tzOffset,
+} from './ream';
+import { ZONE_ALIASES, ZONE_COUNTRIES } from './zonetab';
+
+export type TimezoneEntry = Readonly<{
+  readonly id: string; // canonical IANA id
+  readonly aliases: readonly string[]; // legacy ids resolving to `id`
+  readonly countryCode?: string; // ISO 3166-1 alpha-2
+  readonly region: string; // "America", "Europe", ...
+  readonly city: string; // "New York"
+  readonly standardOffsetMinutes: number;
+  readonly dstOffsetMinutes?: number; // absent when the zone has no DST
+  readonly displayName: string; // "Eastern Time" (localized)
+}>;
+
+export type TimezoneGrouping = 'region' | 'country' | 'offset';
+
+const ALIASES_BY_ZONE: Readonly<Record<string, readonly string[]>> =
+  Object.entries(ZONE_ALIASES).reduce<Record<string, readonly string[]>>(
+    (acc, [alias, id]) => ({ ...acc, [id]: [...(acc[id] ?? []), alias] }),
+    {}
+  );
+
+export const timezoneAliases = (tzName: string): readonly string[] =>
+  ALIASES_BY_ZONE[canonicalTimezone(tzName)] ?? [];
+
+/* standard and DST offsets in the year of `at` (January vs July) */
+const yearOffsets = (tzName: string, at: Instant) => {
+  const year = new Date(at.epochMs).getUTCFullYear();
+  const jan = tzOffset(tzName, instant(Date.UTC(year, 0, 1)));
+  const jul = tzOffset(tzName, instant(Date.UTC(year, 6, 1)));
+  return {
+    standardOffsetMinutes: Math.min(jan, jul),
+    dstOffsetMinutes: jan === jul ? undefined : Math.max(jan, jul),
+  };
+};
+
+/* catalog entry for one zone (any alias is accepted) */
+export const describeTimezone = (
+  tzName: string,
+  locale: Locale = 'en',
+  at: Instant = now()
+): TimezoneEntry => {
+  const id = canonicalTimezone(tzName);
+  const [region, ...rest] = id.split('/');
+  const { standardOffsetMinutes, dstOffsetMinutes } = yearOffsets(id, at);
+  return {
+    id,
+    aliases: timezoneAliases(id),
+    countryCode: ZONE_COUNTRIES[id],
+    region: rest.length ? region : 'Etc',
+    city: (rest[rest.length - 1] ?? region).replace(/_/g, ' '),
+    standardOffsetMinutes,
+    dstOffsetMinutes,
+    displayName:
+      timeZoneName(id, at, 'longGeneric', locale) ??
+      timeZoneName(id, at, 'long', locale) ??
+      id,
+  };
+};
+
+/* every available zone, sorted by id */
+export const getTimezoneCatalog = (
+  locale: Locale = 'en',
+  at: Instant = now()
+): readonly TimezoneEntry[] =>
+  getAvailableTimezones().map((id) => describeTimezone(id, locale, at));
+
+/* case-insensitive match on id, aliases, city, country code and display
+ * name; zones whose city or id starts with the query come first */
+export const searchTimezones = (
+  query: string,
+  catalog: readonly TimezoneEntry[] = getTimezoneCatalog()
+): readonly TimezoneEntry[] => {
+  const q = query.trim().toLowerCase().replace(/ /g, '_');
+  const text = (s: string) => s.toLowerCase().replace(/ /g, '_');
+  const haystack = (e: TimezoneEntry) => [
+    e.id,
+    e.city,
+    e.displayName,
+    e.countryCode ?? '',
+    ...e.aliases,
+  ];
+  const prefix = (e: TimezoneEntry) =>
+    text(e.city).startsWith(q) || text(e.id).startsWith(q) ? 0 : 1;
+  return catalog
+    .filter((e) => haystack(e).some((s) => text(s).includes(q)))
+    .map((e) => [prefix(e), e] as const)
+    .sort(([a, e1], [b, e2]) => a - b || e1.id.localeCompare(e2.id))
+    .map(([, e]) => e);
+};
+
+const groupKey = (by: TimezoneGrouping, e: TimezoneEntry): string =>
+  by === 'region'
+    ? e.region
+    : by === 'country'
+    ? e.countryCode ?? ''
+    : formatOffset(e.standardOffsetMinutes);
+
+/* zones keyed by region, country code ("" when none) or standard offset */
+export const groupTimezones = (
+  by: TimezoneGrouping,
+  catalog: readonly TimezoneEntry[] = getTimezoneCatalog()
+): Readonly<Record<string, readonly TimezoneEntry[]>> =>
+  catalog.reduce<Record<string, readonly TimezoneEntry[]>>((acc, e) => {
+    const key = groupKey(by, e);
+    return { ...acc, [key]: [...(acc[key] ?? []), e] };
+  }, {});
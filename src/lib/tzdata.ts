@@ -0,0 +1,722 @@
+/* Generated by scripts/compile-tzdata.js; do not edit.
+ * tzdata 2025b, zone.tab zones plus UTC and Etc/GMT offsets,
+ * 1970 onwards, packed (see packZone in tzdb.ts). */
+export const TZDATA_VERSION = '2025b';
+
+export const TZDATA: Readonly<Record<string, string>> = {
+  'Africa/Abidjan': '0|GMT 0 0|||GMT0',
+  'Africa/Accra': '0|GMT 0 0|||GMT0',
+  'Africa/Addis_Ababa': '0|EAT 10800 0|||EAT-3',
+  'Africa/Algiers':
+    '0|WET 0 0;WEST 3600 1;CET 3600 0;CEST 7200 1|oot80,7x6o0,2xco40,8n180,7x9g0,9d440,kiqg0,9d440,9q2s0,9cyk0|1012320102|CET-1',
+  'Africa/Asmara': '0|EAT 10800 0|||EAT-3',
+  'Africa/Bamako': '0|GMT 0 0|||GMT0',
+  'Africa/Bangui': '0|WAT 3600 0|||WAT-1',
+  'Africa/Banjul': '0|GMT 0 0|||GMT0',
+  'Africa/Bissau': '0|-01 -3600 0;GMT 0 0|2lxk40|1|GMT0',
+  'Africa/Blantyre': '0|CAT 7200 0|||CAT-2',
+  'Africa/Brazzaville': '0|WAT 3600 0|||WAT-1',
+  'Africa/Bujumbura': '0|CAT 7200 0|||CAT-2',
+  'Africa/Cairo':
+    '0|EET 7200 0;EEST 10800 1|66580,7ves0,awik0,7ves0,ayd80,7ves0,awik0,7ves0,awik0,7ves0,awik0,7ves0,ayd80,7ves0,awik0,7ves0,awik0,7ves0,awik0,7ves0,ayd80,7ves0,awik0,7ves0,f9x80,3i040,eluk0,462s0,ayd80,7ves0,awik0,7ves0,awik0,7ves0,awik0,7ves0,ayd80,7ves0,b5rw0,7m5g0,awik0,7ves0,awik0,7ves0,ayd80,7ves0,awik0,7ves0,awik0,7ves0,aqvs0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7x3w0,asys0,7x3w0,asys0,7k580,b5xg0,6u7w0,bvus0,6h980,c8tg0,64ak0,cyqs0,5anw0,1jms0,12t80,1w22s0,25p80,1sw40,2vmk0,4hbhg0|10101010101010101010101010101010101010101010101010101010101010101010101010101010101010101|EET-2EEST,M4.5.5/0,M10.5.4/24',
+  'Africa/Casablanca':
+    '0|+00 0 0;+01 3600 1;+01 3600 0;+00 0 1|2c3s00,3jp80,va040,4qak0,e1ms0,7pp80,cnms0,3afw0,2xi840,xqqk0,bp56s0,4qak0,e1ms0,45x80,d2g40,51ek0,c8tg0,64ak0,e1sc0,47uo0,1leo0,23xc0,asw00,3lmo0,1qyo0,40g00,7x6o0,4mo00,1stc0,4deo0,7x6o0,3ylc0,1stc0,51hc0,7x6o0,3lmo0,1stc0,5reo0,7k800,2vpc0,25s00,64dc0,7k800,2iqo0,1stc0,6uao0,9q000,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00|10101010201010101010101010101010101010101010123232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232|<+01>-1',
+  'Africa/Ceuta':
+    '0|WET 0 0;WEST 3600 1;CET 3600 0;CEST 7200 1|2c3s00,3jp80,va040,4qak0,e1ms0,7pp80,cnms0,3afw0,2xi840,129us0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010232323232323232323232|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Africa/Conakry': '0|GMT 0 0|||GMT0',
+  'Africa/Dakar': '0|GMT 0 0|||GMT0',
+  'Africa/Dar_es_Salaam': '0|EAT 10800 0|||EAT-3',
+  'Africa/Djibouti': '0|EAT 10800 0|||EAT-3',
+  'Africa/Douala': '0|WAT 3600 0|||WAT-1',
+  'Africa/El_Aaiun':
+    '0|-01 -3600 0;+00 0 0;+01 3600 1;+01 3600 0;+00 0 1|3a22s0,vek0,4qak0,e1ms0,7pp80,cnms0,3afw0,fke5g0,4qak0,e1ms0,45x80,d2g40,51ek0,c8tg0,64ak0,e1sc0,47uo0,1leo0,23xc0,asw00,3lmo0,1qyo0,40g00,7x6o0,4mo00,1stc0,4deo0,7x6o0,3ylc0,1stc0,51hc0,7x6o0,3lmo0,1stc0,5reo0,7k800,2vpc0,25s00,64dc0,7k800,2iqo0,1stc0,6uao0,9q000,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00,g7c00,1stc0,gkao0,1stc0,g7c00,25s00|12121212121212121212121212121212121212121234343434343434343434343434343434343434343434343434343434343434343434343434343434343434343434343434343434343434343434343434343434343434343434343|<+01>-1',
+  'Africa/Freetown': '0|GMT 0 0|||GMT0',
+  'Africa/Gaborone': '0|CAT 7200 0|||CAT-2',
+  'Africa/Harare': '0|CAT 7200 0|||CAT-2',
+  'Africa/Johannesburg': '0|SAST 7200 0|||SAST-2',
+  'Africa/Juba':
+    '0|CAT 7200 0;CAST 10800 1;EAT 10800 0|662g0,8l6k0,a4w40,8n180,a6qs0,8n180,a31g0,8ovw0,a16s0,8qqk0,9zc40,8sl80,9xhg0,8wak0,9ts40,8y580,a4w40,8n180,a31g0,8ovw0,a16s0,8sl80,9xhg0,8ufw0,9vms0,8wak0,9ts40,8y580,a4w40,8ovw0,a16s0,8qqk0,7frw40,azg180|1010101010101010101010101010101020|CAT-2',
+  'Africa/Kampala': '0|EAT 10800 0|||EAT-3',
+  'Africa/Khartoum':
+    '0|CAT 7200 0;CAST 10800 1;EAT 10800 0|662g0,8l6k0,a4w40,8n180,a6qs0,8n180,a31g0,8ovw0,a16s0,8qqk0,9zc40,8sl80,9xhg0,8wak0,9ts40,8y580,a4w40,8n180,a31g0,8ovw0,a16s0,8sl80,9xhg0,8ufw0,9vms0,8wak0,9ts40,8y580,a4w40,8ovw0,a16s0,8qqk0,7frw40,9ac180|1010101010101010101010101010101020|CAT-2',
+  'Africa/Kigali': '0|CAT 7200 0|||CAT-2',
+  'Africa/Kinshasa': '0|WAT 3600 0|||WAT-1',
+  'Africa/Lagos': '0|WAT 3600 0|||WAT-1',
+  'Africa/Libreville': '0|WAT 3600 0|||WAT-1',
+  'Africa/Lome': '0|GMT 0 0|||GMT0',
+  'Africa/Luanda': '0|WAT 3600 0|||WAT-1',
+  'Africa/Lubumbashi': '0|CAT 7200 0|||CAT-2',
+  'Africa/Lusaka': '0|CAT 7200 0|||CAT-2',
+  'Africa/Malabo': '0|WAT 3600 0|||WAT-1',
+  'Africa/Maputo': '0|CAT 7200 0|||CAT-2',
+  'Africa/Maseru': '0|SAST 7200 0|||SAST-2',
+  'Africa/Mbabane': '0|SAST 7200 0|||SAST-2',
+  'Africa/Mogadishu': '0|EAT 10800 0|||EAT-3',
+  'Africa/Monrovia': '0|MMT -2670 0;GMT 0 0|11v0q6|1|GMT0',
+  'Africa/Nairobi': '0|EAT 10800 0|||EAT-3',
+  'Africa/Ndjamena': '0|WAT 3600 0;WAST 7200 1|53sl80,7iak0|10|WAT-1',
+  'Africa/Niamey': '0|WAT 3600 0|||WAT-1',
+  'Africa/Nouakchott': '0|GMT 0 0|||GMT0',
+  'Africa/Ouagadougou': '0|GMT 0 0|||GMT0',
+  'Africa/Porto-Novo': '0|WAT 3600 0|||WAT-1',
+  'Africa/Sao_Tome': '0|GMT 0 0;WAT 3600 0|p1uqs0,irxc0|10|GMT0',
+  'Africa/Tripoli':
+    '0|EET 7200 0;CET 3600 0;CEST 7200 1|69gig0,4mqs0,9et80,9d440,9et80,9eys0,9et80,9mdg0,95jw0,9io40,9cyk0,99es0,9et80,9eys0,9et80,9d440,9et80,b2840,3cf3w0,9kis0,9et80,7vqyw0,75eo0,asw00|121212121212121210120120|EET-2',
+  'Africa/Tunis':
+    '0|CET 3600 0;CEST 7200 1|3tnh80,7k800,b9k00,7vc00,51mw00,5ytc0,9d1c0,9d1c0,b9k00,7thc0,7m0tc0,7tk40,93us0,b5uo0,7k800,b5uo0,7x6o0,asw00|101010101010101010|CET-1',
+  'Africa/Windhoek':
+    '0|SAST 7200 0;CAT 7200 0;WAT 3600 1|ajtx40,235k00,8lho0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0|1212121212121212121212121212121212121212121212121|CAT-2',
+  'America/Adak':
+    '0|BST -39600 0;BDT -36000 1;AHST -36000 0;HST -36000 0;HDT -32400 1|5xys0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,1l940,7rs80,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|101010101010101010101010101234343434343434343434343434343434343434343434343|HST10HDT,M3.2.0,M11.1.0',
+  'America/Anchorage':
+    '0|AHST -36000 0;AHDT -32400 1;YST -32400 0;AKST -32400 0;AKDT -28800 1|5xw00,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,1l940,7rs80,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|101010101010101010101010101234343434343434343434343434343434343434343434343|AKST9AKDT,M3.2.0,M11.1.0',
+  'America/Anguilla': '0|AST -14400 0|||AST4',
+  'America/Antigua': '0|AST -14400 0|||AST4',
+  'America/Araguaina':
+    '0|-03 -10800 0;-02 -7200 1|89jcc0,6u7w0,biw40,5rbw0,d0lg0,5ed80,cyqs0,5ed80,dbpg0,64ak0,2yl440,64ak0,c8tg0,6u7w0,bxpg0,7iak0,biw40,6u7w0,biw40,7k580,biw40,6u7w0,c8tg0,6h980,dbpg0,5ed80,51udg0,64ak0|1010101010101010101010101010|<-03>3',
+  'America/Argentina/Buenos_Aires':
+    '0|-03 -10800 0;-02 -7200 1;-03 -10800 1|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,bvus0,6u7w0,bvus0,6u7w0,bvus0,776k0,3fidg0,7thc0,430lc0,3yik0,b5xg0,7k580|101010101010201010|<-03>3',
+  'America/Argentina/Catamarca':
+    '0|-03 -10800 0;-02 -7200 1;-04 -14400 0;-03 -10800 1|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,bvus0,6u7w0,bvxk0,6u540,bvus0,776k0,3fidg0,7thc0,27s800,z9g0,1u93w0,3yik0|101010121010302010|<-03>3',
+  'America/Argentina/Cordoba':
+    '0|-03 -10800 0;-02 -7200 1;-04 -14400 0;-03 -10800 1|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,bvus0,6u7w0,bvxk0,6u540,bvus0,776k0,3fidg0,7thc0,430lc0,3yik0,b5xg0,7k580|101010121010301010|<-03>3',
+  'America/Argentina/Jujuy':
+    '0|-03 -10800 0;-02 -7200 1;-04 -14400 0;-03 -10800 1|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,c8w80,776k0,ag040,7k2g0,bvus0,776k0,3fidg0,7thc0,430lc0,3yik0|1010123210103010|<-03>3',
+  'America/Argentina/La_Rioja':
+    '0|-03 -10800 0;-02 -7200 1;-04 -14400 0;-03 -10800 1|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,bvus0,6qik0,3g880,8jbw0,6u7w0,bvus0,776k0,3fidg0,7thc0,27s800,z9g0,1u93w0,3yik0|1010101201010302010|<-03>3',
+  'America/Argentina/Mendoza':
+    '0|-03 -10800 0;-02 -7200 1;-04 -14400 0;-03 -10800 1|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,bktk0,71mk0,bqas0,73h80,bvus0,773s0,3fidg0,7thc0,27bk00,6hes0,1p7mk0,3yik0|101012323210302010|<-03>3',
+  'America/Argentina/Rio_Gallegos':
+    '0|-03 -10800 0;-02 -7200 1;-03 -10800 1;-04 -14400 0|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,bvus0,6u7w0,bvus0,6u7w0,bvus0,776k0,3fidg0,7thc0,27s800,z9g0,1u93w0,3yik0|101010101010203010|<-03>3',
+  'America/Argentina/Salta':
+    '0|-03 -10800 0;-02 -7200 1;-04 -14400 0;-03 -10800 1|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,bvus0,6u7w0,bvxk0,6u540,bvus0,776k0,3fidg0,7thc0,430lc0,3yik0|1010101210103010|<-03>3',
+  'America/Argentina/San_Juan':
+    '0|-03 -10800 0;-02 -7200 1;-04 -14400 0;-03 -10800 1|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,bvus0,6qik0,3g880,8jbw0,6u7w0,bvus0,776k0,3fidg0,7thc0,27qdc0,2txg0,1sgak0,3yik0|1010101201010302010|<-03>3',
+  'America/Argentina/San_Luis':
+    '0|-03 -10800 0;-02 -7200 1;-04 -14400 0;-03 -10800 1|24aj00,51ek0,7m2qs0,4tzw0,biw40,7pp80,b2aw0,71mk0,4qg40,4conw0,7thc0,27qdc0,2txg0,1sgak0,14nw0,2gys0,b5xg0,7k580,b5xg0|1010123203020132320|<-03>3',
+  'America/Argentina/Tucuman':
+    '0|-03 -10800 0;-02 -7200 1;-04 -14400 0;-03 -10800 1|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,bvus0,6u7w0,bvxk0,6u540,bvus0,776k0,3fidg0,7thc0,27s800,mas0,1um2k0,3yik0,b5xg0,7k580|10101012101030201010|<-03>3',
+  'America/Argentina/Ushuaia':
+    '0|-03 -10800 0;-02 -7200 1;-03 -10800 1;-04 -14400 0|24aj00,51ek0,7m2qs0,4tzw0,biw40,776k0,bvus0,6u7w0,bvus0,6u7w0,bvus0,776k0,3fidg0,7thc0,27oio0,12ys0,1u93w0,3yik0|101010101010203010|<-03>3',
+  'America/Aruba': '0|AST -14400 0|||AST4',
+  'America/Asuncion':
+    '0|-04 -14400 0;-03 -10800 0;-03 -10800 1|1fnkg0,s4vw0,s6w40,7tek0,b0dg0,7rjw0,b0dg0,7rjw0,b0dg0,9cyk0,9eys0,9et80,9eys0,9cyk0,9eys0,9cyk0,9eys0,9cyk0,9eys0,9et80,9eys0,9cyk0,9eys0,9cyk0,9eys0,9cyk0,9eys0,9et80,9eys0,9cyk0,ahus0,8a2k0,9eys0,9cyk0,9o840,7k580,b7s40,93p80,9gtg0,7nuk0,b42s0,7lzw0,b5xg0,7tek0,b9ms0,776k0,biw40,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,9cyk0,7kas0,b5rw0,7x9g0,ast80,a31g0,7k580,b5xg0,7k580,b5xg0,7k580,biw40,776k0,biw40,776k0,biw40,8zzw0,905g0,9px80,905g0,9px80,9d440,8n180,a31g0,8n180,a31g0,8n180,a31g0,8zzw0,9q2s0,8zzw0,9q2s0,8zzw0,a31g0,8n180,a31g0,8n180,a31g0,8zzw0,9q2s0,8zzw0,9q2s0,8zzw0,9q2s0,8zzw0,a31g0,gl80|102020202020202020202020202020202020202020202020202020202020202020202020202020202020202020202020202021|<-03>3',
+  'America/Atikokan': '0|EST -18000 0|||EST5',
+  'America/Bahia':
+    '0|-03 -10800 0;-02 -7200 1|89jcc0,6u7w0,biw40,5rbw0,d0lg0,5ed80,cyqs0,5ed80,dbpg0,64ak0,cyqs0,64ak0,cls40,5rbw0,dbpg0,51ek0,dbpg0,6h980,c8tg0,6h980,c8tg0,64ak0,c8tg0,6u7w0,bxpg0,7iak0,biw40,6u7w0,biw40,7k580,biw40,6u7w0,c8tg0,6h980,dbpg0,5ed80,4irc40,6u7w0|10101010101010101010101010101010101010|<-03>3',
+  'America/Bahia_Banderas':
+    '0|MST -25200 0;MDT -21600 1;CDT -18000 1;CST -21600 0|dphic0,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,9q2s0,7k580,9q2s0,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,asqg0,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80|101010101010101010101010101023232323232323232323232323|CST6',
+  'America/Barbados':
+    '0|AST -14400 0;ADT -10800 1|3vvnc0,5rbw0,a31g0,8n180,a31g0,8n180,ag040,84ik0|10101010|AST4',
+  'America/Belem':
+    '0|-03 -10800 0;-02 -7200 1|89jcc0,6u7w0,biw40,5rbw0,d0lg0,5ed80|101010|<-03>3',
+  'America/Belize':
+    '0|CST -21600 0;CDT -18000 1|21s0o0,3e580,4mcys0,2vmk0|1010|CST6',
+  'America/Blanc-Sablon': '0|AST -14400 0|||AST4',
+  'America/Boa_Vista':
+    '0|-04 -14400 0;-03 -10800 1|89jf40,6u7w0,biw40,5rbw0,d0lg0,5ed80,62xk40,7k580,biw40,cvw0|1010101010|<-04>4',
+  'America/Bogota': '0|-05 -18000 0;-04 -14400 1|bnnsk0,eefw0|10|<-05>5',
+  'America/Boise':
+    '0|MST -25200 0;MDT -21600 1|5xno0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,51k40,doik0,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101010101010|MST7MDT,M3.2.0,M11.1.0',
+  'America/Cambridge_Bay':
+    '0|MST -25200 0;MDT -21600 1;CST -21600 0;CDT -18000 1;EST -18000 0|17qro0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x6o0,ast80,ct40,7kj40,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101012342101010101010|MST7MDT,M3.2.0,M11.1.0',
+  'America/Campo_Grande':
+    '0|-04 -14400 0;-03 -10800 1|89jf40,6u7w0,biw40,5rbw0,d0lg0,5ed80,cyqs0,5ed80,dbpg0,64ak0,cyqs0,64ak0,cls40,5rbw0,dbpg0,51ek0,dbpg0,6h980,c8tg0,6h980,c8tg0,64ak0,c8tg0,6u7w0,bxpg0,7iak0,biw40,6u7w0,biw40,7k580,biw40,6u7w0,c8tg0,6h980,dbpg0,5ed80,cls40,64ak0,dfes0,5nmk0,c8tg0,6h980,dbpg0,5rbw0,bvus0,6h980,cls40,64ak0,cls40,6h980,c8tg0,6h980,c8tg0,6u7w0,c8tg0,64ak0,cls40,64ak0,cls40,6h980,c8tg0,6h980,c8tg0,6h980,c8tg0,6h980,dbpg0,5ed80|10101010101010101010101010101010101010101010101010101010101010101010|<-04>4',
+  'America/Cancun':
+    '0|CST -21600 0;EST -18000 0;CDT -18000 1;EDT -14400 1|696680,j8d00,6x2wc0,afuk0,8a840,afuk0,8a5c0,64ak0,4bms0,8a840,ast80,7x9g0,ast80,9q2s0,7k580,9q2s0,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,51k40|102021320202020202020202020202020202020201|EST5',
+  'America/Caracas': '0|-04 -14400 0;-0430 -16200 0|jsrss0,4dps00|10|<-04>4',
+  'America/Cayenne': '0|-03 -10800 0|||<-03>3',
+  'America/Cayman': '0|EST -18000 0|||EST5',
+  'America/Chicago':
+    '0|CST -21600 0;CDT -18000 1|5xkw0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101010101010|CST6CDT,M3.2.0,M11.1.0',
+  'America/Chihuahua':
+    '0|CST -21600 0;CDT -18000 1;MDT -21600 1;MST -25200 0|dphfk0,afuk0,8a840,afuk0,8aaw0,afuk0,8a840,ast80,7x9g0,ast80,9q2s0,7k580,9q2s0,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80|101023232323232323232323232323232323232323232323232320|CST6',
+  'America/Ciudad_Juarez':
+    '0|CST -21600 0;CDT -18000 1;MDT -21600 1;MST -25200 0|dphfk0,afuk0,8a840,afuk0,8aaw0,afuk0,8a840,ast80,7x9g0,ast80,9q2s0,7k580,9q2s0,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,77c40,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0,bvp80,1l940|1010232323232323232323232323232323232323232323232323203|MST7MDT,M3.2.0,M11.1.0',
+  'America/Costa_Rica':
+    '0|CST -21600 0;CDT -18000 1|4rxco0,51ek0,doo40,51ek0,5jso40,8drw0,acas0,2xh80|10101010|CST6',
+  'America/Coyhaique':
+    '0|-03 -10800 1;-04 -14400 0;-03 -10800 0|4hcc0,a31g0,7x3w0,asys0,7x3w0,b5xg0,7k580,ag040,8a2k0,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,9cyk0,9d440,7x3w0,asys0,7x3w0,b5xg0,7k580,9q2s0,8zzw0,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,8n180,a31g0,7x3w0,a31g0,9px80,9q2s0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,8n180,a31g0,7x3w0,asys0,8zzw0,9q2s0,ast80,5eis0,cyl80,6hes0,c8nw0,6udg0,bvp80,6udg0,vonw0,4olg0,e1h80,4olg0,e1h80,4olg0,c8nw0,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,7x9g0,b5rw0,7x9g0,9xbw0|1010101010101010101010101010101010101010101010101010101010101010101010101010101010101010101010101010101010102|<-03>3',
+  'America/Creston': '0|MST -25200 0|||MST7',
+  'America/Cuiaba':
+    '0|-04 -14400 0;-03 -10800 1|89jf40,6u7w0,biw40,5rbw0,d0lg0,5ed80,cyqs0,5ed80,dbpg0,64ak0,cyqs0,64ak0,cls40,5rbw0,dbpg0,51ek0,dbpg0,6h980,c8tg0,6h980,c8tg0,64ak0,c8tg0,6u7w0,bxpg0,7iak0,biw40,6u7w0,biw40,7k580,biw40,6u7w0,c8tg0,6h980,dbpg0,5ed80,w5hg0,5nmk0,c8tg0,6h980,dbpg0,5rbw0,bvus0,6h980,cls40,64ak0,cls40,6h980,c8tg0,6h980,c8tg0,6u7w0,c8tg0,64ak0,cls40,64ak0,cls40,6h980,c8tg0,6h980,c8tg0,6h980,c8tg0,6h980,dbpg0,5ed80|101010101010101010101010101010101010101010101010101010101010101010|<-04>4',
+  'America/Curacao': '0|AST -14400 0|||AST4',
+  'America/Danmarkshavn':
+    '0|-03 -10800 0;-02 -7200 1;GMT 0 0|5ct4k0,8zrk0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,53hk0|101010101010101010101010101010102|GMT0',
+  'America/Dawson':
+    '0|YST -32400 0;PST -28800 0;PDT -25200 1;MST -25200 0|1ztvo0,3e2is0,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8ic0|12121212121212121212121212121212121212121212121212121212121212121212121212121212123|MST7',
+  'America/Dawson_Creek':
+    '0|PST -28800 0;PDT -25200 1;MST -25200 0|5xqg0,9cyk0,9d440,9px80,9d440,69uk0|101012|MST7',
+  'America/Denver':
+    '0|MST -25200 0;MDT -21600 1|5xno0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101010101010|MST7MDT,M3.2.0,M11.1.0',
+  'America/Detroit':
+    '0|EST -18000 0;EDT -14400 1|1qgos0,9cyk0,3lpg0,f4d80,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101010|EST5EDT,M3.2.0,M11.1.0',
+  'America/Dominica': '0|AST -14400 0|||AST4',
+  'America/Edmonton':
+    '0|MST -25200 0;MDT -21600 1|17qro0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|1010101010101010101010101010101010101010101010101010101010101010101010|MST7MDT,M3.2.0,M11.1.0',
+  'America/Eirunepe':
+    '0|-05 -18000 0;-04 -14400 1;-04 -14400 0|89jhw0,6u7w0,biw40,5rbw0,d0lg0,5ed80,2yy2s0,6h980,7hg2s0,2t2t80|1010101020|<-05>5',
+  'America/El_Salvador':
+    '0|CST -21600 0;CDT -18000 1|91ojc0,7k580,b5xg0,7k580|1010|CST6',
+  'America/Fort_Nelson':
+    '0|PST -28800 0;PDT -25200 1;MST -25200 0|5xqg0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0|1010101010101010101010101010101010101010101010101010101010101010101010101010101010101010102|MST7',
+  'America/Fortaleza':
+    '0|-03 -10800 0;-02 -7200 1|89jcc0,6u7w0,biw40,5rbw0,d0lg0,5ed80,cyqs0,5ed80,dbpg0,64ak0,514g40,7k580,biw40,puk0,id6s0,6h980|1010101010101010|<-03>3',
+  'America/Glace_Bay':
+    '0|AST -14400 0;ADT -10800 1|17qjc0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|1010101010101010101010101010101010101010101010101010101010101010101010|AST4ADT,M3.2.0,M11.1.0',
+  'America/Goose_Bay':
+    '0|AST -14400 0;ADT -10800 1;ADDT -7200 1|5xfc0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a2lo,afuk0,8a840,asqg0,7xc80,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0|10101010101010101010101010101010101020101010101010101010101010101010101010101010101|AST4ADT,M3.2.0,M11.1.0',
+  'America/Grand_Turk':
+    '0|EST -18000 0;EDT -14400 1;AST -14400 0|4v63g0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,1kj6o0|10101010101010101010101010101010101010101010101010101010101010101010101021|EST5EDT,M3.2.0,M11.1.0',
+  'America/Grenada': '0|AST -14400 0|||AST4',
+  'America/Guadeloupe': '0|AST -14400 0|||AST4',
+  'America/Guatemala':
+    '0|CST -21600 0;CDT -18000 1|219i00,4ofw0,4tidg0,6djw0,3wwas0,8n180,7n5ms0,7x3w0|10101010|CST6',
+  'America/Guayaquil': '0|-05 -18000 0;-04 -14400 1|byetw0,3jp80|10|<-05>5',
+  'America/Guyana':
+    '0|-0345 -13500 0;-03 -10800 0;-04 -14400 0|2wud30,8p0jd0|12|<-04>4',
+  'America/Halifax':
+    '0|AST -14400 0;ADT -10800 1|5xfc0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101010101010|AST4ADT,M3.2.0,M11.1.0',
+  'America/Havana':
+    '0|CST -18000 0;CDT -14400 1|5xck0,9cyk0,9d440,9px80,9d440,8a2k0,ag040,8bx80,ae5g0,8drw0,acas0,9cyk0,9d440,9px80,905g0,9px80,9q2s0,7x3w0,8a840,ast80,7x9g0,ast80,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,8a2k0,ag040,8a2k0,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,905g0,a2vw0,905g0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,9d1c0,9d1c0,9d1c0,9q000,8n400,asw00,7x6o0,b5uo0,7x6o0,asw00,7x6o0,asw00,8a5c0,afxc0,8a5c0,afxc0,7x6o0,1cm000,6uao0,bvs00,779c0,bitc0,6uao0,bvs00,779c0,bvs00,779c0,c8qo0,779c0|101010101010101010101010101010101010101010101010101010101010101010101010101010101|CST5CDT,M3.2.0/0,M11.1.0/1',
+  'America/Hermosillo':
+    '0|MST -25200 0;MDT -21600 1|dphic0,afuk0,8a840,afuk0,8a840,afuk0|101010|MST7',
+  'America/Indiana/Indianapolis':
+    '0|EST -18000 0;EDT -14400 1|5xi40,9cyk0,ihslg0,ast80|1010|EST5EDT,M3.2.0,M11.1.0',
+  'America/Indiana/Knox':
+    '0|CST -21600 0;CDT -18000 1;EST -18000 0|5xkw0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,7j5400,asw00|1010101010101010101010101010101010101010101210|CST6CDT,M3.2.0,M11.1.0',
+  'America/Indiana/Marengo':
+    '0|EST -18000 0;EDT -14400 1;CDT -18000 1|5xi40,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4g00,64dc0,clmk0,fvt9g0,ast80|10101010201010|EST5EDT,M3.2.0,M11.1.0',
+  'America/Indiana/Petersburg':
+    '0|CST -21600 0;CDT -18000 1;EST -18000 0|5xkw0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,eu02o0,asw00,6udg0,c8nw0|10101010101010121012|EST5EDT,M3.2.0,M11.1.0',
+  'America/Indiana/Tell_City':
+    '0|EST -18000 0;EDT -14400 1;CDT -18000 1;CST -21600 0|5xi40,9cyk0,ihslg0,asw00|1023|CST6CDT,M3.2.0,M11.1.0',
+  'America/Indiana/Vevay':
+    '0|EST -18000 0;EDT -14400 1|5xi40,9cyk0,9d440,9px80,9d440,9cyk0,hfzhg0,ast80|10101010|EST5EDT,M3.2.0,M11.1.0',
+  'America/Indiana/Vincennes':
+    '0|EST -18000 0;EDT -14400 1;CDT -18000 1;CST -21600 0|5xi40,9cyk0,ihslg0,asw00,6udg0,c8nw0|102320|EST5EDT,M3.2.0,M11.1.0',
+  'America/Indiana/Winamac':
+    '0|EST -18000 0;EDT -14400 1;CDT -18000 1;CST -21600 0|5xi40,9cyk0,ihslg0,asw00,6udg0|10231|EST5EDT,M3.2.0,M11.1.0',
+  'America/Inuvik':
+    '0|PST -28800 0;PDT -25200 1;MDT -21600 1;MST -25200 0|17qug0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cvs0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|1010101010101023232323232323232323232323232323232323232323232323232323|MST7MDT,M3.2.0,M11.1.0',
+  'America/Iqaluit':
+    '0|EST -18000 0;EDT -14400 1;CST -21600 0;CDT -18000 1|17qm40,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7xc80,ast80,7x6o0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|1010101010101010101010101010101010101010101010101010101230101010101010|EST5EDT,M3.2.0,M11.1.0',
+  'America/Jamaica':
+    '0|EST -18000 0;EDT -14400 1|23fcs0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80|10101010101010101010|EST5',
+  'America/Juneau':
+    '0|PST -28800 0;PDT -25200 1;YDT -28800 1;YST -32400 0;AKST -32400 0;AKDT -28800 1|5xqg0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9d1c0,9d1c0,9cyk0,9d440,9px80,905g0,9px80,1leo0,7rs80,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|101010101010101010102010101345454545454545454545454545454545454545454545454|AKST9AKDT,M3.2.0,M11.1.0',
+  'America/Kentucky/Louisville':
+    '0|EST -18000 0;EDT -14400 1;CDT -18000 1|5xi40,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4g00,64dc0,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010201010101010101010101010101010101010101010101010101010101010101010|EST5EDT,M3.2.0,M11.1.0',
+  'America/Kentucky/Monticello':
+    '0|CST -21600 0;CDT -18000 1;EST -18000 0;EDT -14400 1|5xkw0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x6o0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101012323232323232|EST5EDT,M3.2.0,M11.1.0',
+  'America/Kralendijk': '0|AST -14400 0|||AST4',
+  'America/La_Paz': '0|-04 -14400 0|||<-04>4',
+  'America/Lima':
+    '0|-05 -18000 0;-04 -14400 1|8cmlw0,4ml80,e5c40,4ml80,1fr1g0,4ml80,1yiys0,4ml80|10101010|<-05>5',
+  'America/Los_Angeles':
+    '0|PST -28800 0;PDT -25200 1|5xqg0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101010101010|PST8PDT,M3.2.0,M11.1.0',
+  'America/Lower_Princes': '0|AST -14400 0|||AST4',
+  'America/Maceio':
+    '0|-03 -10800 0;-02 -7200 1|89jcc0,6u7w0,biw40,5rbw0,d0lg0,5ed80,cyqs0,5ed80,dbpg0,64ak0,2yl440,64ak0,1wf1g0,7k580,biw40,puk0,id6s0,6h980|101010101010101010|<-03>3',
+  'America/Managua':
+    '0|CST -21600 0;EST -18000 0;CDT -18000 1|1qkbc0,xqqk0,24p6s0,53980,dmtg0,53980,60itw0,dq240,53es0,235h80,4beis0,8zzw0,at4c0,7x140|10202010102020|CST6',
+  'America/Manaus':
+    '0|-04 -14400 0;-03 -10800 1|89jf40,6u7w0,biw40,5rbw0,d0lg0,5ed80,2yy2s0,6h980|10101010|<-04>4',
+  'America/Marigot': '0|AST -14400 0|||AST4',
+  'America/Martinique': '0|AST -14400 0;ADT -10800 1|5ct1s0,8zzw0|10|AST4',
+  'America/Matamoros':
+    '0|CST -21600 0;CDT -18000 1|9iyww0,ast80,3vppg0,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,9q2s0,7k580,9q2s0,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0|101010101010101010101010101010|CST6CDT,M3.2.0,M11.1.0',
+  'America/Mazatlan':
+    '0|MST -25200 0;MDT -21600 1|dphic0,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,9q2s0,7k580,9q2s0,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80|101010101010101010101010101010101010101010101010101010|MST7',
+  'America/Menominee':
+    '0|EST -18000 0;CDT -18000 1;CST -21600 0|1qgos0,9d1c0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|12121212121212121212121212121212121212121212121212121212121212121212|CST6CDT,M3.2.0,M11.1.0',
+  'America/Merida':
+    '0|CST -21600 0;EST -18000 0;CDT -18000 1|696680,fzuk0,70bes0,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,9q2s0,7k580,9q2s0,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80|10202020202020202020202020202020202020202020202020202020|CST6',
+  'America/Metlakatla':
+    '0|PST -28800 0;PDT -25200 1;AKST -32400 0;AKDT -28800 1|5xqg0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,gpc840,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,3ylc0|101010101010101010101010101023232302|AKST9AKDT,M3.2.0,M11.1.0',
+  'America/Mexico_City':
+    '0|CST -21600 0;CDT -18000 1|dphfk0,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,9q2s0,7k580,9q2s0,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80|101010101010101010101010101010101010101010101010101010|CST6',
+  'America/Miquelon':
+    '0|AST -14400 0;-03 -10800 0;-02 -7200 1|5e3cg0,3m59g0,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|12121212121212121212121212121212121212121|<-03>3<-02>,M3.2.0,M11.1.0',
+  'America/Moncton':
+    '0|AST -14400 0;ADT -10800 1|5xfc0,9cyk0,9d440,9px80,9d440,9cyk0,s36s0,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a2lo,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|101010101010101010101010101010101010101010101010101010101010101010101010|AST4ADT,M3.2.0,M11.1.0',
+  'America/Monterrey':
+    '0|CST -21600 0;CDT -18000 1|9iyww0,ast80,3vppg0,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,9q2s0,7k580,9q2s0,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010|CST6',
+  'America/Montevideo':
+    '0|-03 -10800 0;-02 -7200 1;-0130 -5400 1;-0230 -9000 1|5vcc0,2kik0,yxhg0,4bh80,s36s0,2vl60,905g0,5rg20,51ek0,weqs0,3yik0,e1ms0,4ofw0,erk40,3yik0,2vs40,gk7w0,41iys0,3wnw0,erk40,4bh80,c8tg0,64ak0,c8tg0,6u7w0,c8tg0,6h980,bvus0,6u7w0,614qs0,9q2s0,a31g0,7x3w0,ag040,8a2k0,asys0,7x3w0,asys0,7x3w0,asys0,8a2k0,ag040,8a2k0,ag040,8a2k0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0|101023010101010101010101010101010101010101010101010|<-03>3',
+  'America/Montserrat': '0|AST -14400 0|||AST4',
+  'America/Nassau':
+    '0|EST -18000 0;EDT -14400 1|5xi40,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101010101010|EST5EDT,M3.2.0,M11.1.0',
+  'America/New_York':
+    '0|EST -18000 0;EDT -14400 1|5xi40,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101010101010|EST5EDT,M3.2.0,M11.1.0',
+  'America/Nome':
+    '0|BST -39600 0;BDT -36000 1;YST -32400 0;AKST -32400 0;AKDT -28800 1|5xys0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,1l6c0,7rs80,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|101010101010101010101010101234343434343434343434343434343434343434343434343|AKST9AKDT,M3.2.0,M11.1.0',
+  'America/Noronha':
+    '0|-02 -7200 0;-01 -3600 1|89j9k0,6u7w0,biw40,5rbw0,d0lg0,5ed80,cyqs0,5ed80,dbpg0,64ak0,514g40,7k580,biw40,cvw0,iq5g0,6h980|1010101010101010|<-02>2',
+  'America/North_Dakota/Beulah':
+    '0|MST -25200 0;MDT -21600 1;CST -21600 0|5xno0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0|1010101010101010101010101010101010101010101010101010101010101010101010101010101012|CST6CDT,M3.2.0,M11.1.0',
+  'America/North_Dakota/Center':
+    '0|MST -25200 0;MDT -21600 1;CST -21600 0;CDT -18000 1|5xno0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a5c0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010123232323232323232323232323232|CST6CDT,M3.2.0,M11.1.0',
+  'America/North_Dakota/New_Salem':
+    '0|MST -25200 0;MDT -21600 1;CST -21600 0;CDT -18000 1|5xno0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a5c0,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101012323232|CST6CDT,M3.2.0,M11.1.0',
+  'America/Nuuk':
+    '0|-03 -10800 0;-02 -7200 1;-02 -7200 0|5ct4k0,8zrk0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800|101010101010101010101010101010101010101010101010101010101010101010101010101010101010102|<-02>2<-01>,M3.5.0/-1,M10.5.0/0',
+  'America/Ojinaga':
+    '0|CST -21600 0;CDT -18000 1;MDT -21600 1;MST -25200 0|dphfk0,afuk0,8a840,afuk0,8aaw0,afuk0,8a840,ast80,7x9g0,ast80,9q2s0,7k580,9q2s0,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,77c40,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0,bvp80|101023232323232323232323232323232323232323232323232320|CST6CDT,M3.2.0,M11.1.0',
+  'America/Panama': '0|EST -18000 0|||EST5',
+  'America/Paramaribo': '0|-0330 -12600 0;-03 -10800 0|7p4720|1|<-03>3',
+  'America/Phoenix': '0|MST -25200 0|||MST7',
+  'America/Port-au-Prince':
+    '0|EST -18000 0;EDT -14400 1|6ys5w0,8zzw0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8aaw0,asw00,7x6o0,asw00,7x6o0,asw00,8a5c0,afxc0,8a5c0,afxc0,8a5c0,asw00,7x6o0,asw00,7x6o0,asw00,8a5c0,afxc0,8a5c0,afxc0,3vpjw0,ast80,7x9g0,ast80,2stv00,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,pkg40|1010101010101010101010101010101010101010101|EST5EDT,M3.2.0,M11.1.0',
+  'America/Port_of_Spain': '0|AST -14400 0|||AST4',
+  'America/Porto_Velho':
+    '0|-04 -14400 0;-03 -10800 1|89jf40,6u7w0,biw40,5rbw0,d0lg0,5ed80|101010|<-04>4',
+  'America/Puerto_Rico': '0|AST -14400 0|||AST4',
+  'America/Punta_Arenas':
+    '0|-03 -10800 1;-04 -14400 0;-03 -10800 0|4hcc0,a31g0,7x3w0,asys0,7x3w0,b5xg0,7k580,ag040,8a2k0,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,9cyk0,9d440,7x3w0,asys0,7x3w0,b5xg0,7k580,9q2s0,8zzw0,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,8n180,a31g0,7x3w0,a31g0,9px80,9q2s0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,8n180,a31g0,7x3w0,asys0,8zzw0,9q2s0,ast80,5eis0,cyl80,6hes0,c8nw0,6udg0,bvp80,6udg0,vonw0,4olg0,5rbw0|101010101010101010101010101010101010101010101010101010101010101010101010101010101010101010102|<-03>3',
+  'America/Rankin_Inlet':
+    '0|CST -21600 0;CDT -18000 1;EST -18000 0|17qow0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|1010101010101010101010101010101010101010101010101010101012101010101010|CST6CDT,M3.2.0,M11.1.0',
+  'America/Recife':
+    '0|-03 -10800 0;-02 -7200 1|89jcc0,6u7w0,biw40,5rbw0,d0lg0,5ed80,cyqs0,5ed80,dbpg0,64ak0,514g40,7k580,biw40,cvw0,iq5g0,6h980|1010101010101010|<-03>3',
+  'America/Regina': '0|CST -21600 0|||CST6',
+  'America/Resolute':
+    '0|CST -21600 0;CDT -18000 1;EST -18000 0|17qow0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,6udg0|10101010101010101010101010101010101010101010101010101010121010101010121|CST6CDT,M3.2.0,M11.1.0',
+  'America/Rio_Branco':
+    '0|-05 -18000 0;-04 -14400 1;-04 -14400 0|89jhw0,6u7w0,biw40,5rbw0,d0lg0,5ed80,amves0,2t2t80|10101020|<-05>5',
+  'America/Santarem':
+    '0|-04 -14400 0;-03 -10800 1;-03 -10800 0|89jf40,6u7w0,biw40,5rbw0,d0lg0,5ed80,amves0|1010102|<-03>3',
+  'America/Santiago':
+    '0|-03 -10800 1;-04 -14400 0|4hcc0,a31g0,7x3w0,asys0,7x3w0,b5xg0,7k580,ag040,8a2k0,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,9cyk0,9d440,7x3w0,asys0,7x3w0,b5xg0,7k580,9q2s0,8zzw0,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,8n180,a31g0,7x3w0,a31g0,9px80,9q2s0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,8n180,a31g0,7x3w0,asys0,8zzw0,9q2s0,ast80,5eis0,cyl80,6hes0,c8nw0,6udg0,bvp80,6udg0,vonw0,4olg0,e1h80,4olg0,e1h80,4olg0,c8nw0,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840|10101010101010101010101010101010101010101010101010101010101010101010101010101010101010101010101010101010|<-04>4<-03>,M9.1.6/24,M4.1.6/24',
+  'America/Santo_Domingo':
+    '0|-0430 -16200 1;EST -18000 0;AST -14400 0|2msi0,cnle0,4h2m0,elyq0,47ta0,ei9e0,4bim0,eek20,4dda0,ecpe0,dkmtg0,1stc0|101010101212|AST4',
+  'America/Sao_Paulo':
+    '0|-03 -10800 0;-02 -7200 1|89jcc0,6u7w0,biw40,5rbw0,d0lg0,5ed80,cyqs0,5ed80,dbpg0,64ak0,cyqs0,64ak0,cls40,5rbw0,dbpg0,51ek0,dbpg0,6h980,c8tg0,6h980,c8tg0,64ak0,c8tg0,6u7w0,bxpg0,7iak0,biw40,6u7w0,biw40,7k580,biw40,6u7w0,c8tg0,6h980,dbpg0,5ed80,cls40,64ak0,dfes0,5nmk0,c8tg0,6h980,dbpg0,5rbw0,bvus0,6h980,cls40,64ak0,cls40,6h980,c8tg0,6h980,c8tg0,6u7w0,c8tg0,64ak0,cls40,64ak0,cls40,6h980,c8tg0,6h980,c8tg0,6h980,c8tg0,6h980,dbpg0,5ed80|10101010101010101010101010101010101010101010101010101010101010101010|<-03>3',
+  'America/Scoresbysund':
+    '0|-02 -7200 0;-01 -3600 1;+00 0 1;-01 -3600 0|5ct1s0,902o0,9cvs0,9cyk0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0|1023232323232323232323232323232323232323232323232323232323232323232323232323232323232323|<-02>2<-01>,M3.5.0/-1,M10.5.0/0',
+  'America/Sitka':
+    '0|PST -28800 0;PDT -25200 1;YST -32400 0;AKST -32400 0;AKDT -28800 1|5xqg0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,1leo0,7rs80,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|101010101010101010101010101234343434343434343434343434343434343434343434343|AKST9AKDT,M3.2.0,M11.1.0',
+  'America/St_Barthelemy': '0|AST -14400 0|||AST4',
+  'America/St_Johns':
+    '0|NST -12600 0;NDT -9000 1;NDDT -5400 1|5xdy0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a2lo,afuk0,8a840,asqg0,7xc80,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0|10101010101010101010101010101010101020101010101010101010101010101010101010101010101|NST3:30NDT,M3.2.0,M11.1.0',
+  'America/St_Kitts': '0|AST -14400 0|||AST4',
+  'America/St_Lucia': '0|AST -14400 0|||AST4',
+  'America/St_Thomas': '0|AST -14400 0|||AST4',
+  'America/St_Vincent': '0|AST -14400 0|||AST4',
+  'America/Swift_Current': '0|MST -25200 0;CST -21600 0|17qro0|1|CST6',
+  'America/Tegucigalpa':
+    '0|CST -21600 0;CDT -18000 1|91ojc0,7k580,b5xg0,7k580,96x1g0,4qak0|101010|CST6',
+  'America/Thule':
+    '0|AST -14400 0;ADT -10800 1|b34zc0,9cyk0,9d440,9cyk0,9q2s0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010|AST4ADT,M3.2.0,M11.1.0',
+  'America/Tijuana':
+    '0|PST -28800 0;PDT -25200 1|3an540,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0|10101010101010101010101010101010101010101010101010101010101010101010|PST8PDT,M3.2.0,M11.1.0',
+  'America/Toronto':
+    '0|EST -18000 0;EDT -14400 1|5xi40,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101010101010|EST5EDT,M3.2.0,M11.1.0',
+  'America/Tortola': '0|AST -14400 0|||AST4',
+  'America/Vancouver':
+    '0|PST -28800 0;PDT -25200 1|5xqg0,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|10101010101010101010101010101010101010101010101010101010101010101010101010|PST8PDT,M3.2.0,M11.1.0',
+  'America/Whitehorse':
+    '0|PST -28800 0;PDT -25200 1;MST -25200 0|5dweg0,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6udg0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8nw0,6hes0,c8ic0|1010101010101010101010101010101010101010101010101010101010101010101010101010101012|MST7',
+  'America/Winnipeg':
+    '0|CST -21600 0;CDT -18000 1|5xkw0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,902o0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,902o0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,8a5c0,afxc0,8a5c0,asw00,7x6o0,asw00,7x6o0,asw00,8a5c0,afxc0,8a5c0,afxc0,8a5c0,asw00,7x6o0,asw00,7x6o0,asw00,8a5c0,afxc0,8a5c0,afxc0,8a5c0,afxc0,8a5c0,asw00,7x6o0,asw00,7x6o0,asw00,8a5c0,afxc0,8a5c0,afxc0,8a5c0,asw00,7x6o0,asw00,7x6o0,ast80|10101010101010101010101010101010101010101010101010101010101010101010101010|CST6CDT,M3.2.0,M11.1.0',
+  'America/Yakutat':
+    '0|YST -32400 0;YDT -28800 1;AKST -32400 0;AKDT -28800 1|5xt80,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,3lpg0,f4d80,64g40,clmk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,1lbw0,7rs80,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|101010101010101010101010101023232323232323232323232323232323232323232323232|AKST9AKDT,M3.2.0,M11.1.0',
+  'Antarctica/Casey':
+    '0|+08 28800 0;+11 39600 0|kro7c0,73bo0,uz1o0,60l80,2fnh80,pz9g0,at4c0,89u80,acgc0,80no0,asw1o,89wyc,ag5po,89wyc,ag5po,84lac|1010101010101010|<+08>-8',
+  'Antarctica/Davis':
+    '0|+07 25200 0;+05 18000 0|kroa40,7eqs0,unmk0,60qs0|1010|<+07>-7',
+  'Antarctica/DumontDUrville': '0|+10 36000 0|||<+10>-10',
+  'Antarctica/Macquarie':
+    '0|AEDT 39600 1;AEST 36000 0|3dls0,bvs00,779c0,bvs00,64dc0,clpc0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,7x6o0,b5uo0,7k800,b5uo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,bvs00,7k800,bitc0,7k800,bitc0,779c0,bitc0,779c0,bitc0,7x6o0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,9d1c0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,902o0,7x6o0,asw00,a2yo0,902o0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,9d1c0,9d1c0,902o0,a2yo0,9d1c0,9d1c0,9d1c0,9d1c0,s3400|101010101010101010101010101010101010101010101010101010101010101010101010101010101|AEST-10AEDT,M10.1.0,M4.1.0/3',
+  'Antarctica/Mawson': '0|+06 21600 0;+05 18000 0|krocw0|1|<+05>-5',
+  'Antarctica/McMurdo':
+    '0|NZST 43200 0;NZDT 46800 1|2ivg80,5reo0,clpc0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,b5uo0,8a5c0,afxc0,8a5c0,afxc0,8a5c0,afxc0,8n400,a2yo0,8n400,a2yo0,8n400,a2yo0,8n400,afxc0,8a5c0,afxc0,8a5c0,afxc0,8n400,a2yo0,8n400,a2yo0,8n400,afxc0,8a5c0,afxc0,8a5c0,afxc0,8n400,a2yo0,8n400,a2yo0,8n400,a2yo0,8n400|101010101010101010101010101010101010101010101010101010101010101010|NZST-12NZDT,M9.5.0,M4.1.0/3',
+  'Antarctica/Palmer':
+    '0|-03 -10800 0;-02 -7200 1;-04 -14400 0;-03 -10800 1|24aj00,51ek0,46b6s0,8c2s0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,9cyk0,9d440,7x3w0,asys0,7x3w0,b5xg0,7k580,9q2s0,8zzw0,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,8n180,a31g0,7x3w0,a31g0,9px80,9q2s0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,8n180,a31g0,7x3w0,asys0,8zzw0,9q2s0,ast80,5eis0,cyl80,6hes0,c8nw0,6udg0,bvp80,6udg0,vonw0,4olg0,5rbw0|10232323232323232323232323232323232323232323232323232323232323232323230|<-03>3',
+  'Antarctica/Rothera': '0|-00 0 0;-03 -10800 0|3lxs00|1|<-03>3',
+  'Antarctica/Syowa': '0|+03 10800 0|||<+03>-3',
+  'Antarctica/Troll':
+    '0|-00 0 0;+00 0 0|ibruo0|1|<+00>0<+02>-2,M3.5.0/1,M10.5.0/3',
+  'Antarctica/Vostok':
+    '0|+07 25200 0;-00 0 0;+05 18000 0|cki780,e23g0,f79gs0|102|<+05>-5',
+  'Arctic/Longyearbyen':
+    '0|CET 3600 0;CEST 7200 1|5cstg0,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Asia/Aden': '0|+03 10800 0|||<+03>-3',
+  'Asia/Almaty':
+    '0|+06 21600 0;+07 25200 1;+06 21600 1;+05 18000 0|5vay00,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,a37rs0|10101010101010101010230101010101010101010101010103|<+05>-5',
+  'Asia/Amman':
+    '0|EET 7200 0;EEST 10800 1;+03 10800 0|1sed40,60l80,awo40,7v980,awo40,7v980,ayis0,9gnw0,9b9g0,7v980,autg0,7v980,3e6840,9et80,9io40,9cyk0,9d440,9cyk0,9d440,9px80,ayis0,7rjw0,ag040,8a2k0,9zc40,8drw0,a31g0,8zzw0,9d440,9cyk0,9d440,8n180,ag040,8a5c0,afxc0,8n400,a2yo0,8n400,a2yo0,8n400,epmo0,4deo0,9o5c0,9ew00,9b6o0,9ew00,9d1c0,9d1c0,9d1c0,asw00,7x6o0,afxc0,8n400,9d1c0,9d1c0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,wel80,51k40,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,64dc0,clpc0|10101010101010101010101010101010101010101010101010101010101010101010101010101010101012|<+03>-3',
+  'Asia/Anadyr':
+    '0|+13 46800 0;+14 50400 1;+13 46800 1;+12 43200 0;+12 43200 1;+11 39600 0|5vaek0,9et80,9d440,9ew00,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5xg0,7k800|10232323232323232323453232323232323232323232323232323232323453|<+12>-12',
+  'Asia/Aqtau':
+    '0|+05 18000 0;+06 21600 0;+06 21600 1;+05 18000 1;+04 14400 0|64pws0,9cyk0,9ew00,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0|120202020202020202034020202434343434343434343430|<+05>-5',
+  'Asia/Aqtobe':
+    '0|+05 18000 0;+06 21600 1;+06 21600 0;+05 18000 1;+04 14400 0|5vb0s0,9et80,9d1c0,9ew00,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0|1210101010101010101034010101010101010101010101010|<+05>-5',
+  'Asia/Ashgabat':
+    '0|+05 18000 0;+06 21600 1;+05 18000 1;+04 14400 0|5vb0s0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0|10101010101010101010230|<+05>-5',
+  'Asia/Atyrau':
+    '0|+05 18000 0;+06 21600 0;+06 21600 1;+05 18000 1;+04 14400 0|64pws0,9cyk0,9ew00,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5xg0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0|120202020202020202034020202020202020343434343430|<+05>-5',
+  'Asia/Baghdad':
+    '0|+03 10800 0;+04 14400 1|6fmno0,7v980,9b9g0,9gnw0,9eys0,9et80,9d440,9b9g0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9f1k0,9ew00,9ew00,9ew00,9d1c0,9ew00,9d1c0,9ew00,9d1c0,9ew00,9ew00,9ew00,9d1c0,9ew00,9d1c0,9ew00,9d1c0,9ew00,9ew00,9ew00,9d1c0,9ew00,9d1c0,9ew00,9d1c0,9ew00,9ew00,9ew00,9d1c0,9ew00,9d1c0,9ew00,9d1c0,9ew00|1010101010101010101010101010101010101010101010101010|<+03>-3',
+  'Asia/Bahrain': '0|+04 14400 0;+03 10800 0|19d0w0|1|<+03>-3',
+  'Asia/Baku':
+    '0|+04 14400 0;+05 18000 1;+04 14400 1;+03 10800 0|5vb3k0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,9d1c0,9d1c0,1twdk0,asw00,7x3w0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00|1010101010101010101023201010101010101010101010101010101010101010|<+04>-4',
+  'Asia/Bangkok': '0|+07 25200 0|||<+07>-7',
+  'Asia/Barnaul':
+    '0|+07 25200 0;+08 28800 1;+07 25200 1;+06 21600 0|5vav80,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,38fo0,64og0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0,qnc40|10101010101010101010230101010123232323232323232323232323232323030|<+07>-7',
+  'Asia/Beirut':
+    '0|EET 7200 0;EEST 10800 1|1ag2g0,56yk0,awo40,7v980,awo40,7v980,awo40,7v980,ayis0,7v980,awo40,7v980,autg0,7v980,2wxus0,8n180,a4w40,8n180,a4w40,8n180,a4w40,8n180,bs5g0,71mk0,alk40,86d80,a4w40,8n180,a4w40,8n180,a6qs0,80t80,905g0,9cyk0,9d440,9cyk0,9d440,9cyk0,9q2s0,9cyk0,9d440,9cyk0,9d440,9cyk0|10101010101010101010101010101010101010101010|EET-2EEST,M3.5.0/0,M10.5.0/0',
+  'Asia/Bishkek':
+    '0|+06 21600 0;+07 25200 1;+06 21600 1;+05 18000 0|5vay00,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,7vc00,bkl80,8n180,a31g0,8n180,a31g0,8n180,a31g0,8n180,a31g0,8zzw0,9db20,ast80,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,b5rw0,7kas0,73aa0|10101010101010101010232323232323232323232323232320|<+06>-6',
+  'Asia/Brunei': '0|+08 28800 0|||<+08>-8',
+  'Asia/Chita':
+    '0|+09 32400 0;+10 36000 1;+09 32400 1;+08 28800 0;+10 36000 0|5vapo0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0,qnew0|1010101010101010101023010101010101010101010101010101010101010430|<+09>-9',
+  'Asia/Colombo':
+    '0|+0530 19800 0;+0630 23400 0;+06 21600 0|drxa20,7x5a0,4xvqq0|120|<+0530>-5:30',
+  'Asia/Damascus':
+    '0|EET 7200 0;EEST 10800 1;+03 10800 0|66800,7v980,awo40,7v980,ayis0,7v980,awo40,7v980,awo40,7v980,awo40,7v980,ayis0,7v980,awo40,6bp80,cg840,6bp80,2eh1g0,8zzw0,9ts40,8zzw0,pvk40,c33w0,7cw40,cjrw0,6zxg0,btuk0,7rpg0,9gnw0,9d440,9cyk0,9et80,9et80,9rxg0,91uk0,92040,9et80,9o840,9et80,9d440,9et80,9eys0,9et80,9b9g0,9gnw0,99es0,9iik0,9d440,9et80,9eys0,9et80,9d440,9et80,9d440,9et80,9d440,9et80,9eys0,9et80,9d440,9et80,9d440,8y580,9q2s0,b5rw0,7x9g0,aunw0,7ig40,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,b5rw0|101010101010101010101010101010101010101010101010101010101010101010101010101010101010101010101012|<+03>-3',
+  'Asia/Dhaka': '0|+06 21600 0;+07 25200 1|klhwk0,a1400|10|<+06>-6',
+  'Asia/Dili': '0|+09 32400 0;+08 28800 0|3b0ho0,cpz440|10|<+09>-9',
+  'Asia/Dubai': '0|+04 14400 0|||<+04>-4',
+  'Asia/Dushanbe':
+    '0|+06 21600 0;+07 25200 1;+06 21600 1;+05 18000 0|5vay00,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,8c2s0|1010101010101010101023|<+05>-5',
+  'Asia/Famagusta':
+    '0|EET 7200 0;EEST 10800 1;+03 10800 0|2r67s0,9cyk0,b42s0,7nuk0,8yas0,8zzw0,9q2s0,9et80,9b9g0,9cyk0,9q2s0,8zzw0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9q2s0,9cyk0,9d440,9cyk0,9d440,at4c0,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,8h8w0,leog0|1010101010101010101010101010101010101010101010101010101010101010101010101010101010120|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Asia/Gaza':
+    '0|IST 7200 0;IDT 10800 1;EET 7200 0;EEST 10800 1|2crp40,51ek0,9q2s0,6u7w0,2kjk40,25s00,1weyo0,5reo0,bvs00,776k0,dbpg0,5rbw0,bbhg0,7rjw0,asys0,7k580,c8tg0,6h980,ag040,7x3w0,asys0,8a2k0,asys0,8a2k0,ap9g0,80t80,ap9g0,7nuk0,b2840,80t80,66as0,4vxc0,8n400,a2yo0,8n400,a2yo0,8n400,asw00,9cyk0,9q2s0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,8n400,a2yo0,8ulg0,97ek0,8y580,9ts40,8hms0,a4qk0,7x3w0,asys0,8a5c0,ahs1o,71mic,bzk5o,69uic,cg840,902o0,9q000,9cyk0,9d440,ast80,7z440,ar1c0,7z440,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7vc00,aunw0,7x9g0,asw00,7x6o0,b4000,7nxc0,b42s0,9d440,9cyk0,905g0,9px80,8n6s0,a2vw0,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7x9g0,afuk0,8a840,a2vw0,8n6s0,9cyk0,9d440,8zzw0,9q2s0,8a2k0,2itg0,cvw0,7x9g0,7k580,25us0,12t80,7x9g0,776k0,25us0,1frw0,7x9g0,6h980,2itg0,1sqk0,7x9g0,64ak0,25us0,2vmk0,7kas0,5rbw0,25us0,38l80,7kas0,51ek0,2itg0,3ljw0,7x9g0,4bh80,25us0,4bh80,7x9g0,3ljw0,2itg0,4ofw0,7x9g0,38l80,25us0,5rbw0,7kas0,2vmk0,25us0,64ak0,7kas0,25p80,2itg0,6h980,7x9g0,1frw0,25us0,776k0,7x9g0,puk0,2itg0,7k580,7x9g0,cvw0,2itg0,7x3w0,a31g0,8zzw0,9d440,9cyk0,8n6s0,a2vw0,8a840,afuk0,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,ast80,8a840,a2vw0,8n6s0,9px80,905g0,8zzw0,9q2s0,8n180,25us0,cvw0,7kas0,8a2k0,25us0,puk0,7kas0,7k580,2itg0,12t80,7x9g0,6u7w0,25us0,1sqk0,7x9g0,64ak0,2itg0,25p80,7x9g0,5rbw0,2itg0,2vmk0,7kas0,5ed80,25us0,3ljw0,7kas0,4ofw0,2itg0,3yik0,7x9g0,3yik0,25us0,4ofw0,7x9g0,3ljw0,25us0,51ek0,7x9g0,2vmk0,2itg0,5ed80,7x9g0,2inw0,25us0,6h980,7kas0,1sqk0,2itg0,6u7w0,7kas0,1frw0,2itg0,776k0,7x9g0,puk0,25us0|10101010101010101010101010101023232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323|EET-2EEST,M3.4.4/50,M10.4.4/50',
+  'Asia/Hebron':
+    '0|IST 7200 0;IDT 10800 1;EET 7200 0;EEST 10800 1|2crp40,51ek0,9q2s0,6u7w0,2kjk40,25s00,1weyo0,5reo0,bvs00,776k0,dbpg0,5rbw0,bbhg0,7rjw0,asys0,7k580,c8tg0,6h980,ag040,7x3w0,asys0,8a2k0,asys0,8a2k0,ap9g0,80t80,ap9g0,7nuk0,b2840,80t80,66as0,4vxc0,8n400,a2yo0,8n400,a2yo0,8n400,asw00,9cyk0,9q2s0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,8n400,a2yo0,8ulg0,97ek0,8y580,9ts40,8hms0,a4qk0,82nw0,anes0,8a5c0,afxc0,73h80,bzk5o,69uic,1hs40,1lbw0,9d440,902o0,9q000,9cyk0,9d440,ast80,7z440,ar1c0,7z440,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7vc00,aunw0,7x9g0,asw00,7x6o0,b4000,7nxc0,b42s0,9d440,9cyk0,905g0,9px80,8n6s0,a2vw0,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7x9g0,afuk0,8a840,a2vw0,8n6s0,9cyk0,9d440,8zzw0,9q2s0,8a2k0,2itg0,cvw0,7x9g0,7k580,25us0,12t80,7x9g0,776k0,25us0,1frw0,7x9g0,6h980,2itg0,1sqk0,7x9g0,64ak0,25us0,2vmk0,7kas0,5rbw0,25us0,38l80,7kas0,51ek0,2itg0,3ljw0,7x9g0,4bh80,25us0,4bh80,7x9g0,3ljw0,2itg0,4ofw0,7x9g0,38l80,25us0,5rbw0,7kas0,2vmk0,25us0,64ak0,7kas0,25p80,2itg0,6h980,7x9g0,1frw0,25us0,776k0,7x9g0,puk0,2itg0,7k580,7x9g0,cvw0,2itg0,7x3w0,a31g0,8zzw0,9d440,9cyk0,8n6s0,a2vw0,8a840,afuk0,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,ast80,8a840,a2vw0,8n6s0,9px80,905g0,8zzw0,9q2s0,8n180,25us0,cvw0,7kas0,8a2k0,25us0,puk0,7kas0,7k580,2itg0,12t80,7x9g0,6u7w0,25us0,1sqk0,7x9g0,64ak0,2itg0,25p80,7x9g0,5rbw0,2itg0,2vmk0,7kas0,5ed80,25us0,3ljw0,7kas0,4ofw0,2itg0,3yik0,7x9g0,3yik0,25us0,4ofw0,7x9g0,3ljw0,25us0,51ek0,7x9g0,2vmk0,2itg0,5ed80,7x9g0,2inw0,25us0,6h980,7kas0,1sqk0,2itg0,6u7w0,7kas0,1frw0,2itg0,776k0,7x9g0,puk0,25us0|1010101010101010101010101010102323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323232323|EET-2EEST,M3.4.4/50,M10.4.4/50',
+  'Asia/Ho_Chi_Minh': '0|+08 28800 0;+07 25200 0|2uaps0|1|<+07>-7',
+  'Asia/Hong_Kong':
+    '0|HKT 28800 0;HKST 32400 1|5jni0,9cyk0,9d440,9cyk0,9d440,9px80,9d440,9cyk0,3lpg0,f4d80,9d440,9cyk0,9d440,9cyk0,1c9440,8a2k0|1010101010101010|HKT-8',
+  'Asia/Hovd':
+    '0|+06 21600 0;+07 25200 0;+08 28800 1|46anc0,2qk2k0,9et80,9eys0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9q2s0,9cyk0,9d440,9cyk0,9d440,9cyk0,1ckdo0,7x3w0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,4fio40,9ct00,9d9o0,9ct00|1212121212121212121212121212121212121212121212121|<+07>-7',
+  'Asia/Irkutsk':
+    '0|+08 28800 0;+09 32400 1;+08 28800 1;+07 25200 0;+09 32400 0|5vasg0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0|101010101010101010102301010101010101010101010101010101010101040|<+08>-8',
+  'Asia/Jakarta': '0|WIB 25200 0|||WIB-7',
+  'Asia/Jayapura': '0|WIT 32400 0|||WIT-9',
+  'Asia/Jerusalem':
+    '0|IST 7200 0;IDT 10800 1|2crp40,51ek0,9q2s0,6u7w0,2kjk40,25s00,1weyo0,5reo0,bvs00,776k0,dbpg0,5rbw0,bbhg0,7rjw0,asys0,7k580,c8tg0,6h980,ag040,7x3w0,asys0,8a2k0,asys0,8a2k0,ap9g0,80t80,ap9g0,7nuk0,b2840,80t80,9zc40,9iik0,9kis0,93p80,9mdg0,8qqk0,apf00,7x3w0,biw40,8zx40,9io40,8n180,9kis0,9vh80,8ulg0,9px80,9mdg0,8n180,9tuw0,9tmk0,8wg40,9gnw0,99es0,8qqk0,9zc40,9tmk0,8wg40,9gnw0,99es0,8qqk0,acas0,9gnw0,99es0,93p80|1010101010101010101010101010101010101010101010101010101010101010|IST-2IDT,M3.4.4/26,M10.5.0',
+  'Asia/Kabul': '0|+0430 16200 0|||<+0430>-4:30',
+  'Asia/Kamchatka':
+    '0|+12 43200 0;+13 46800 1;+12 43200 1;+11 39600 0|5vahc0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5xg0,7k800|10101010101010101010230101010101010101010101010101010101010230|<+12>-12',
+  'Asia/Karachi':
+    '0|+05 18000 0;PKT 18000 0;PKST 21600 1|n33g0,g72qo0,9cyk0,2y85g0,7v980,8hms0,aaak0|1212121|PKT-5',
+  'Asia/Kathmandu': '0|+0530 19800 0;+0545 20700 0|8clsq0|1|<+0545>-5:45',
+  'Asia/Khandyga':
+    '0|+09 32400 0;+10 36000 1;+09 32400 1;+08 28800 0;+10 36000 0;+11 39600 1;+11 39600 0|5vapo0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,3fx40,4h6s0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,8ql00,1mlho0|10101010101010101010230101010101010101010101010454545454545454640|<+09>-9',
+  'Asia/Kolkata': '0|IST 19800 0|||IST-5:30',
+  'Asia/Krasnoyarsk':
+    '0|+07 25200 0;+08 28800 1;+07 25200 1;+06 21600 0;+08 28800 0|5vav80,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0|101010101010101010102301010101010101010101010101010101010101040|<+07>-7',
+  'Asia/Kuala_Lumpur': '0|+0730 27000 0;+08 28800 0|69g1s0|1|<+08>-8',
+  'Asia/Kuching': '0|+08 28800 0|||<+08>-8',
+  'Asia/Kuwait': '0|+03 10800 0|||<+03>-3',
+  'Asia/Macau':
+    '0|CST 28800 0;CDT 32400 1|5jni0,9cyk0,9d440,9cyk0,9d440,9px80,9d440,9cyk0,3lpg0,f4d80,9d440,9cyk0,9d440,9cyk0,1c9440,8a2k0|1010101010101010|CST-8',
+  'Asia/Magadan':
+    '0|+11 39600 0;+12 43200 1;+11 39600 1;+10 36000 0;+12 43200 0|5vak40,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0,s39k0|1010101010101010101023010101010101010101010101010101010101010430|<+11>-11',
+  'Asia/Makassar': '0|WITA 28800 0|||WITA-8',
+  'Asia/Manila':
+    '0|PST 28800 0;PDT 32400 1|3rxts0,95jw0,6lv1g0,3jp80|1010|PST-8',
+  'Asia/Muscat': '0|+04 14400 0|||<+04>-4',
+  'Asia/Nicosia':
+    '0|EET 7200 0;EEST 10800 1|2r67s0,9cyk0,b42s0,7nuk0,8yas0,8zzw0,9q2s0,9et80,9b9g0,9cyk0,9q2s0,8zzw0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9q2s0,9cyk0,9d440,9cyk0,9d440|10101010101010101010101010101010101010101010101|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Asia/Novokuznetsk':
+    '0|+07 25200 0;+08 28800 1;+07 25200 1;+06 21600 0|5vav80,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5xg0,7k800|10101010101010101010230101010101010101010101010101010101010230|<+07>-7',
+  'Asia/Novosibirsk':
+    '0|+07 25200 0;+08 28800 1;+07 25200 1;+06 21600 0|5vav80,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,2vh00,6hn40,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0,wrpg0|10101010101010101010230101232323232323232323232323232323232323030|<+07>-7',
+  'Asia/Omsk':
+    '0|+06 21600 0;+07 25200 1;+06 21600 1;+05 18000 0;+07 25200 0|5vay00,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0|101010101010101010102301010101010101010101010101010101010101040|<+06>-6',
+  'Asia/Oral':
+    '0|+05 18000 0;+06 21600 1;+06 21600 0;+05 18000 1;+04 14400 0|5vb0s0,9et80,9d1c0,9ew00,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9q000,9d1c0,9d1c0,5reo0,3ljw0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0|1210101010101010343434034343434343434343434343430|<+05>-5',
+  'Asia/Phnom_Penh': '0|+07 25200 0|||<+07>-7',
+  'Asia/Pontianak': '0|WITA 28800 0;WIB 25200 0|9e5gg0|1|WIB-7',
+  'Asia/Pyongyang': '0|KST 32400 0;KST 30600 0|nt2v00,1f4qo0|10|KST-9',
+  'Asia/Qatar': '0|+04 14400 0;+03 10800 0|19d0w0|1|<+03>-3',
+  'Asia/Qostanay':
+    '0|+05 18000 0;+06 21600 1;+06 21600 0;+05 18000 1;+04 14400 0|5vb0s0,9et80,9d1c0,9ew00,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,a37p00|12101010101010101010340101010101010101010101010120|<+05>-5',
+  'Asia/Qyzylorda':
+    '0|+05 18000 0;+06 21600 1;+06 21600 0;+05 18000 1|5vb0s0,9et80,9d1c0,9ew00,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5rbw0,3ljw0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7dmqc0|12101010101010101010302101010101010101010101010120|<+05>-5',
+  'Asia/Riyadh': '0|+03 10800 0|||<+03>-3',
+  'Asia/Sakhalin':
+    '0|+11 39600 0;+12 43200 1;+11 39600 1;+10 36000 0|5vak40,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asys0,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0,qnc40|1010101010101010101023010101010102323232323232323232323232323030|<+11>-11',
+  'Asia/Samarkand':
+    '0|+05 18000 0;+06 21600 1;+06 21600 0|5vb0s0,9et80,9d1c0,9ew00,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0|1210101010101010101010|<+05>-5',
+  'Asia/Seoul': '0|KST 32400 0;KDT 36000 1|920hw0,7x6o0,asw00,7x6o0|1010|KST-9',
+  'Asia/Shanghai':
+    '0|CST 28800 0;CDT 32400 1|8ixjc0,6u7w0,asys0,7x3w0,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0|101010101010|CST-8',
+  'Asia/Singapore': '0|+0730 27000 0;+08 28800 0|69g1s0|1|<+08>-8',
+  'Asia/Srednekolymsk':
+    '0|+11 39600 0;+12 43200 1;+11 39600 1;+10 36000 0;+12 43200 0|5vak40,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0|101010101010101010102301010101010101010101010101010101010101040|<+11>-11',
+  'Asia/Taipei':
+    '0|CST 28800 0;CDT 32400 1|27rls0,9et80,9d440,9et80,1yf9g0,4qak0|101010|CST-8',
+  'Asia/Tashkent':
+    '0|+06 21600 0;+07 25200 1;+06 21600 1;+05 18000 0|5vay00,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440|1010101010101010101023|<+05>-5',
+  'Asia/Tbilisi':
+    '0|+04 14400 0;+05 18000 1;+04 14400 1;+03 10800 0|5vb3k0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,9cvs0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d1c0,9cyk0,9q2s0,ipzw0,asw00,7x9g0,ast80,7x9g0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7x9g0,ast80,7x9g0,ast80,7x9g0,4ofw0,6hn40,7k800|1010101010101010101023232320101101010101010101230|<+04>-4',
+  'Asia/Tehran':
+    '0|+0330 12600 0;+0430 16200 1;+04 14400 0;+05 18000 1|3rmzi0,ayg00,7z2q0,6uao0,51hc0,a4uq0,5wvw0,9gtg0,9kd80,5ja5g0,7avw0,9d440,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9d440,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9d440,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9d440,9gnw0,1av440,9gnw0,9d440,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9d440,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9d440,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9b9g0,9gnw0,9d440,9gnw0,9b9g0,9gnw0|123201010101010101010101010101010101010101010101010101010101010101010|<+0330>-3:30',
+  'Asia/Thimphu': '0|+0530 19800 0;+06 21600 0|99fa20|1|<+06>-6',
+  'Asia/Tokyo': '0|JST 32400 0|||JST-9',
+  'Asia/Tomsk':
+    '0|+07 25200 0;+08 28800 1;+07 25200 1;+06 21600 0|5vav80,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,1leo0,97k40,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0,tw040|10101010101010101010230101010101010101010101232323232323232323030|<+07>-7',
+  'Asia/Ulaanbaatar':
+    '0|+07 25200 0;+08 28800 0;+09 32400 1|46akk0,2qk2k0,9et80,9eys0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9q2s0,9cyk0,9d440,9cyk0,9d440,9cyk0,1ckdo0,7x3w0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,4fio40,9ct00,9d9o0,9ct00|1212121212121212121212121212121212121212121212121|<+08>-8',
+  'Asia/Urumqi': '0|+06 21600 0|||<+06>-6',
+  'Asia/Ust-Nera':
+    '0|+09 32400 0;+12 43200 1;+11 39600 0;+11 39600 1;+10 36000 0;+12 43200 0|5vapo0,9eno0,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,8ql00,1mlho0|1212121212121212121234212121212121212121212121212121212121212524|<+10>-10',
+  'Asia/Vientiane': '0|+07 25200 0|||<+07>-7',
+  'Asia/Vladivostok':
+    '0|+10 36000 0;+11 39600 1;+10 36000 1;+09 32400 0;+11 39600 0|5vamw0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0|101010101010101010102301010101010101010101010101010101010101040|<+10>-10',
+  'Asia/Yakutsk':
+    '0|+09 32400 0;+10 36000 1;+09 32400 1;+08 28800 0;+10 36000 0|5vapo0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0|101010101010101010102301010101010101010101010101010101010101040|<+09>-9',
+  'Asia/Yangon': '0|+0630 23400 0|||<+0630>-6:30',
+  'Asia/Yekaterinburg':
+    '0|+05 18000 0;+06 21600 1;+05 18000 1;+04 14400 0;+06 21600 0|5vb0s0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0|101010101010101010102301010101010101010101010101010101010101040|<+05>-5',
+  'Asia/Yerevan':
+    '0|+04 14400 0;+05 18000 1;+04 14400 1;+03 10800 0|5vb3k0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,sfzw0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0|101010101010101010102323232320101010101010101010101010101010|<+04>-4',
+  'Atlantic/Azores':
+    '0|-01 -3600 0;+00 0 1;WET 0 0;WEST 3600 1|6dw040,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,4olg0,4ofw0,46000,571c0,9d1c0,9d1c0,9d1c0,9d1c0|101010101010101010101023101010|<-01>1<+00>,M3.5.0/0,M10.5.0/1',
+  'Atlantic/Bermuda':
+    '0|AST -14400 0;ADT -10800 1|296oo0,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9px80,905g0,9px80,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80,8a840,afuk0,8a840,afuk0,8a840,ast80,7x9g0,ast80,7x9g0,ast80|101010101010101010101010101010101010101010101010101010101010101010|AST4ADT,M3.2.0,M11.1.0',
+  'Atlantic/Canary':
+    '0|WET 0 0;WEST 3600 1|5csqo0,905g0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010|WET0WEST,M3.5.0/1,M10.5.0',
+  'Atlantic/Cape_Verde': '0|-02 -7200 0;-01 -3600 0|32t740|1|<-01>1',
+  'Atlantic/Faroe':
+    '0|WET 0 0;WEST 3600 1|5v5xg0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|101010101010101010101010101010|WET0WEST,M3.5.0/1,M10.5.0',
+  'Atlantic/Madeira':
+    '0|WET 0 0;WEST 3600 1|6e8w00,902o0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010101010|WET0WEST,M3.5.0/1,M10.5.0',
+  'Atlantic/Reykjavik': '0|GMT 0 0|||GMT0',
+  'Atlantic/South_Georgia': '0|-02 -7200 0|||<-02>2',
+  'Atlantic/St_Helena': '0|GMT 0 0|||GMT0',
+  'Atlantic/Stanley':
+    '0|-04 -14400 0;-03 -10800 0;-02 -7200 1;-03 -10800 1|6yf4g0,7k580,b5rw0,77c40,biqk0,77c40,b5uo0,7kas0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7kas0,biqk0,77c40,biqk0,7kas0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7kas0,biqk0,7kas0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7kas0,b5rw0,7kas0,b5xg0,77c40,bvp80,6udg0,bvp80,77c40,biqk0,77c40,biqk0,77c40,biqk0,77c40,biqk0,77c40,bvp80,77c40,biqk0,77c40,biqk0,77c40|12121303030303030303030303030303030303030303030303030301|<-03>3',
+  'Australia/Adelaide':
+    '0|ACST 34200 0;ACDT 37800 1|ycgi0,64dc0,clpc0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,779c0,b5uo0,7k800,bitc0,7k800,bitc0,779c0,bitc0,779c0,bitc0,6hc00,c8qo0,7k800,b5uo0,6uao0,c8qo0,779c0,bitc0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7x6o0,asw00,7k800,b5uo0|1010101010101010101010101010101010101010101010101010101010101010101010101|ACST-9:30ACDT,M10.1.0,M4.1.0/3',
+  'Australia/Brisbane':
+    '0|AEST 36000 0;AEDT 39600 1|ycf40,64dc0,97zuo0,6hc00,c8qo0,6hc00,c8qo0,6hc00|10101010|AEST-10',
+  'Australia/Broken_Hill':
+    '0|ACST 34200 0;ACDT 37800 1|ycgi0,64dc0,clpc0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,8a5c0,asw00,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,779c0,b5uo0,7k800,bitc0,7k800,bitc0,779c0,bitc0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7x6o0,asw00,7k800,b5uo0|1010101010101010101010101010101010101010101010101010101010101010101010101|ACST-9:30ACDT,M10.1.0,M4.1.0/3',
+  'Australia/Darwin': '0|ACST 34200 0|||ACST-9:30',
+  'Australia/Eucla':
+    '0|+0845 31500 0;+0945 35100 1|2iiql0,6hc00,4ir9c0,6hc00,40r400,5eg00,7p9hc0,5reo0,b5uo0,7x6o0,asw00,7x6o0|101010101010|<+0845>-8:45',
+  'Australia/Hobart':
+    '0|AEDT 39600 1;AEST 36000 0|3dls0,bvs00,779c0,bvs00,64dc0,clpc0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,7x6o0,b5uo0,7k800,b5uo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,bvs00,7k800,bitc0,7k800,bitc0,779c0,bitc0,779c0,bitc0,7x6o0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,9d1c0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,902o0,7x6o0,asw00,a2yo0,902o0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,9d1c0,9d1c0,902o0|101010101010101010101010101010101010101010101010101010101010101010101010101|AEST-10AEDT,M10.1.0,M4.1.0/3',
+  'Australia/Lindeman':
+    '0|AEST 36000 0;AEDT 39600 1|ycf40,64dc0,97zuo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00|101010101010|AEST-10',
+  'Australia/Lord_Howe':
+    '0|AEST 36000 0;+1030 37800 0;+1130 41400 1;+11 39600 1|5tp880,c8uu0,6u7w0,c8tg0,6h980,c8tg0,6h980,c8tg0,6h980,c8tg0,777y0,b5w20,7k6m0,biuq0,7k6m0,biuq0,777y0,biuq0,6ham0,c8s20,6ham0,c8s20,6ham0,c8s20,6u9a0,c8s20,6ham0,c8s20,6ham0,c8s20,7x5a0,asxe0,7x5a0,asxe0,7x5a0,asxe0,7x5a0,b5w20,7k6m0,7x820,asum0,b5w20,7x5a0,asxe0,7x5a0,asxe0,7x5a0,b5w20,7k6m0,b5w20,7x5a0,asxe0,7k6m0,b5w20|121212121313131313131313131313131313131313131313131313|<+1030>-10:30<+11>-11,M10.1.0,M4.1.0',
+  'Australia/Melbourne':
+    '0|AEST 36000 0;AEDT 39600 1|ycf40,64dc0,clpc0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,779c0,b5uo0,7k800,b5uo0,7x6o0,bitc0,779c0,bitc0,779c0,bitc0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,7x6o0,asw00,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7x6o0,asw00,7k800,b5uo0|1010101010101010101010101010101010101010101010101010101010101010101010101|AEST-10AEDT,M10.1.0,M4.1.0/3',
+  'Australia/Perth':
+    '0|AWST 28800 0;AWDT 32400 1|2iiso0,6hc00,4ir9c0,6hc00,40r400,5eg00,7p9hc0,5reo0,b5uo0,7x6o0,asw00,7x6o0|101010101010|AWST-8',
+  'Australia/Sydney':
+    '0|AEST 36000 0;AEDT 39600 1|ycf40,64dc0,clpc0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,8a5c0,asw00,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,779c0,b5uo0,7k800,bitc0,7k800,bitc0,779c0,bitc0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,7x6o0,asw00,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7x6o0,asw00,7k800,b5uo0|1010101010101010101010101010101010101010101010101010101010101010101010101|AEST-10AEDT,M10.1.0,M4.1.0/3',
+  'Etc/GMT+1': '0|-01 -3600 0|||<-01>1',
+  'Etc/GMT+10': '0|-10 -36000 0|||<-10>10',
+  'Etc/GMT+11': '0|-11 -39600 0|||<-11>11',
+  'Etc/GMT+12': '0|-12 -43200 0|||<-12>12',
+  'Etc/GMT+2': '0|-02 -7200 0|||<-02>2',
+  'Etc/GMT+3': '0|-03 -10800 0|||<-03>3',
+  'Etc/GMT+4': '0|-04 -14400 0|||<-04>4',
+  'Etc/GMT+5': '0|-05 -18000 0|||<-05>5',
+  'Etc/GMT+6': '0|-06 -21600 0|||<-06>6',
+  'Etc/GMT+7': '0|-07 -25200 0|||<-07>7',
+  'Etc/GMT+8': '0|-08 -28800 0|||<-08>8',
+  'Etc/GMT+9': '0|-09 -32400 0|||<-09>9',
+  'Etc/GMT-1': '0|+01 3600 0|||<+01>-1',
+  'Etc/GMT-10': '0|+10 36000 0|||<+10>-10',
+  'Etc/GMT-11': '0|+11 39600 0|||<+11>-11',
+  'Etc/GMT-12': '0|+12 43200 0|||<+12>-12',
+  'Etc/GMT-13': '0|+13 46800 0|||<+13>-13',
+  'Etc/GMT-14': '0|+14 50400 0|||<+14>-14',
+  'Etc/GMT-2': '0|+02 7200 0|||<+02>-2',
+  'Etc/GMT-3': '0|+03 10800 0|||<+03>-3',
+  'Etc/GMT-4': '0|+04 14400 0|||<+04>-4',
+  'Etc/GMT-5': '0|+05 18000 0|||<+05>-5',
+  'Etc/GMT-6': '0|+06 21600 0|||<+06>-6',
+  'Etc/GMT-7': '0|+07 25200 0|||<+07>-7',
+  'Etc/GMT-8': '0|+08 28800 0|||<+08>-8',
+  'Etc/GMT-9': '0|+09 32400 0|||<+09>-9',
+  'Europe/Amsterdam':
+    '0|CET 3600 0;CEST 7200 1|3s9ms0,902o0,9q000,9d1c0,9d1c0,9d1c0,9q000,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Andorra':
+    '0|CET 3600 0;CEST 7200 1|7yf6s0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Astrakhan':
+    '0|+04 14400 0;+05 18000 1;+04 14400 1;+03 10800 0|5vb3k0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9q000,9d1c0,ipzw0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0,qnc40|10101010101010102323023232323232323232323232323232323232323030|<+04>-4',
+  'Europe/Athens':
+    '0|EET 7200 0;EEST 10800 1|2r4d40,bq800,71uw0,9d1c0,902o0,91xc0,9o5c0,905g0,9qgo0,9akg0,9iik0,99980,9dcg0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|101010101010101010101010101010101010101010|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Belgrade':
+    '0|CET 3600 0;CEST 7200 1|6wm2s0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Berlin':
+    '0|CET 3600 0;CEST 7200 1|5cstg0,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Bratislava':
+    '0|CET 3600 0;CEST 7200 1|4tps40,9d1c0,9q000,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Brussels':
+    '0|CET 3600 0;CEST 7200 1|3s9ms0,902o0,9q000,9d1c0,9d1c0,9d1c0,9q000,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Bucharest':
+    '0|EET 7200 0;EEST 10800 1|4wl940,6h980,9q000,905g0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9cvs0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9cyk0,9d440,9cyk0,9q2s0,ast80|101010101010101010101010101010101010|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Budapest':
+    '0|CET 3600 0;CEST 7200 1|5csnw0,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d6w0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Busingen':
+    '0|CET 3600 0;CEST 7200 1|5v5xg0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Chisinau':
+    '0|MSK 10800 0;MSD 14400 1;EEST 10800 1;EET 7200 0|5vb6c0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,25p80,7kdk0,9d1c0,9d1c0,9cvs0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9q2s0,ast80|101010101010101010123232323232323|EET-2EEST,M3.5.0,M10.5.0/3',
+  'Europe/Copenhagen':
+    '0|CET 3600 0;CEST 7200 1|5cstg0,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Dublin':
+    '0|IST 3600 0;GMT 0 1|yd6w0,779c0,bitc0,779c0,bitc0,779c0,bitc0,779c0,bitc0,7k800,b5uo0,7k800,b5uo0,7k800,bitc0,779c0,bitc0,779c0,bitc0,7x3w0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00|1010101010101010101010101010101010101010101010101|IST-1GMT0,M10.5.0,M3.5.0/1',
+  'Europe/Gibraltar':
+    '0|CET 3600 0;CEST 7200 1|6dw040,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Guernsey':
+    '0|BST 3600 0;GMT 0 0;BST 3600 1|yd6w0,779c0,bitc0,779c0,bitc0,779c0,bitc0,779c0,bitc0,7k800,b5uo0,7k800,b5uo0,7k800,bitc0,779c0,bitc0,779c0,bitc0,7x3w0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00|1212121212121212121212121212121212121212121212121|GMT0BST,M3.5.0/1,M10.5.0',
+  'Europe/Helsinki':
+    '0|EET 7200 0;EEST 10800 1|5v5uo0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|101010101010101010101010101010|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Isle_of_Man':
+    '0|BST 3600 0;GMT 0 0;BST 3600 1|yd6w0,779c0,bitc0,779c0,bitc0,779c0,bitc0,779c0,bitc0,7k800,b5uo0,7k800,b5uo0,7k800,bitc0,779c0,bitc0,779c0,bitc0,7x3w0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00|1212121212121212121212121212121212121212121212121|GMT0BST,M3.5.0/1,M10.5.0',
+  'Europe/Istanbul':
+    '0|EET 7200 0;EEST 10800 1;+03 10800 0;+04 14400 1|1s8vw0,7x6o0,7kas0,b5rw0,75hg0,bkl80,77c40,biqk0,7x9g0,a2vw0,8n6s0,4iqc0,2nkw80,38l80,kdes0,8qtc0,8a5c0,9ew00,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,902o0,9q000,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7kdk0,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7m2o0,b4000,7k800,b5uo0,7x6o0,asw00,7z1c0,ar1c0,7x6o0,bitc0,779c0,8fe80|1010101010123201010101010101010101010101010101010101010101010101010101010101012|<+03>-3',
+  'Europe/Jersey':
+    '0|BST 3600 0;GMT 0 0;BST 3600 1|yd6w0,779c0,bitc0,779c0,bitc0,779c0,bitc0,779c0,bitc0,7k800,b5uo0,7k800,b5uo0,7k800,bitc0,779c0,bitc0,779c0,bitc0,7x3w0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00|1212121212121212121212121212121212121212121212121|GMT0BST,M3.5.0/1,M10.5.0',
+  'Europe/Kaliningrad':
+    '0|MSK 10800 0;MSD 14400 1;EEST 10800 1;EET 7200 0;+03 10800 0|5vb6c0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0|10101010101010102323232323232323232323232323232323232323232343|EET-2',
+  'Europe/Kirov':
+    '0|+04 14400 0;+05 18000 1;MSD 14400 1;MSK 10800 0;MSK 14400 0|5vb3k0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9q000,9d1c0,ipzw0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0|1010101010101010232302323232323232323232323232323232323232343|MSK-3',
+  'Europe/Kyiv':
+    '0|MSK 10800 0;MSD 14400 1;EEST 10800 1;EET 7200 0|5vb6c0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,51ek0,neqw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000|101010101010101010123232323232|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Lisbon':
+    '0|CET 3600 0;WET 0 0;WEST 3600 1;CEST 7200 1|3ijk00,9d1c0,9d1c0,9q2s0,9d1c0,9d1c0,9d1c0,9q000,902o0,9cyk0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000|1212121212121212121212121212121203030302|WET0WEST,M3.5.0/1,M10.5.0',
+  'Europe/Ljubljana':
+    '0|CET 3600 0;CEST 7200 1|6wm2s0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/London':
+    '0|BST 3600 0;GMT 0 0;BST 3600 1|yd6w0,779c0,bitc0,779c0,bitc0,779c0,bitc0,779c0,bitc0,7k800,b5uo0,7k800,b5uo0,7k800,bitc0,779c0,bitc0,779c0,bitc0,7x3w0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,asw00|1212121212121212121212121212121212121212121212121|GMT0BST,M3.5.0/1,M10.5.0',
+  'Europe/Luxembourg':
+    '0|CET 3600 0;CEST 7200 1|3s9ms0,902o0,9q000,9d1c0,9d1c0,9d1c0,9q000,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Madrid':
+    '0|CET 3600 0;CEST 7200 1|28g540,905g0,9px80,905g0,8zzw0,9d440,9px80,905g0,9q5k0,9d1c0,9d1c0,9d1c0,9q000,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Malta':
+    '0|CET 3600 0;CEST 7200 1|7pp80,64dc0,c8qo0,6hc00,clpc0,6hc00,9b6o0,9d1c0,ahs00,7m2o0,b45k0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,a4w40,8y580,9q2s0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Mariehamn':
+    '0|EET 7200 0;EEST 10800 1|5v5uo0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|101010101010101010101010101010|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Minsk':
+    '0|MSK 10800 0;MSD 14400 1;EEST 10800 1;EET 7200 0;+03 10800 0|5vb6c0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,sg2o0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800|10101010101010101023232323232323232323232323232323232323234|<+03>-3',
+  'Europe/Monaco':
+    '0|CET 3600 0;CEST 7200 1|396io0,9cyk0,9q5k0,902o0,9q000,9d1c0,9d1c0,9d1c0,9q000,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Moscow':
+    '0|MSK 10800 0;MSD 14400 1;EEST 10800 1;EET 7200 0;MSK 14400 0|5vb6c0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0|101010101010101010102301010101010101010101010101010101010101040|MSK-3',
+  'Europe/Oslo':
+    '0|CET 3600 0;CEST 7200 1|5cstg0,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Paris':
+    '0|CET 3600 0;CEST 7200 1|396io0,9cyk0,9q5k0,902o0,9q000,9d1c0,9d1c0,9d1c0,9q000,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Podgorica':
+    '0|CET 3600 0;CEST 7200 1|6wm2s0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Prague':
+    '0|CET 3600 0;CEST 7200 1|4tps40,9d1c0,9q000,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Riga':
+    '0|MSK 10800 0;MSD 14400 1;EEST 10800 1;EET 7200 0|5vb6c0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d440,asw00,7x6o0,asw00,7x6o0,b5uo0,qaao0|101010101010101023232323232323232323232|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Rome':
+    '0|CET 3600 0;CEST 7200 1|7pp80,64dc0,c8qo0,6hc00,clpc0,6hc00,clpc0,64dc0,c8qo0,6hc00,clpc0,64dc0,clpc0,64dc0,c8qo0,6hc00,clpc0,6hc00,c8qo0,6hc00,9q5k0,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Samara':
+    '0|+04 14400 0;+05 18000 1;+04 14400 1;+03 10800 0;+03 10800 1|5vb3k0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9q000,9d1c0,9d440,12w00,89zs0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5xg0,7k800|10101010101010102323430101010101010101010101010101010101010230|<+04>-4',
+  'Europe/San_Marino':
+    '0|CET 3600 0;CEST 7200 1|7pp80,64dc0,c8qo0,6hc00,clpc0,6hc00,clpc0,64dc0,c8qo0,6hc00,clpc0,64dc0,clpc0,64dc0,c8qo0,6hc00,clpc0,6hc00,c8qo0,6hc00,9q5k0,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Sarajevo':
+    '0|CET 3600 0;CEST 7200 1|6wm2s0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Saratov':
+    '0|+04 14400 0;+05 18000 1;+04 14400 1;+03 10800 0|5vb3k0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9d1c0,9d1c0,9q000,9d1c0,ipzw0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0,13m040|10101010101010232323023232323232323232323232323232323232323030|<+04>-4',
+  'Europe/Simferopol':
+    '0|MSK 10800 0;MSD 14400 1;EET 7200 0;EEST 10800 1;MSK 14400 0|5vb6c0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,eeio0,wrpg0,9d1c0,9d1c0,9d1c0,9d1c0,1sl00,7kdk0,9d1c0,9d1c0,9pug0,at4c0,7x9g0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x3w0,asqg0|101010101010101010232323101010323232323232323232323232323232323240|MSK-3',
+  'Europe/Skopje':
+    '0|CET 3600 0;CEST 7200 1|6wm2s0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Sofia':
+    '0|EET 7200 0;EEST 10800 1|4tph00,9eys0,9o2k0,92040,9o2k0,90880,9pug0,90b00,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9cvs0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9q2s0,ast80|101010101010101010101010101010101010|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Stockholm':
+    '0|CET 3600 0;CEST 7200 1|5cstg0,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Tallinn':
+    '0|MSK 10800 0;MSD 14400 1;EEST 10800 1;EET 7200 0|5vb6c0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asys0,7x6o0,b5uo0,19dc00|101010101010101023232323232323232323232|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Tirane':
+    '0|CET 3600 0;CEST 7200 1|29h980,7rjw0,autg0,7x3w0,ayis0,7x3w0,b5xg0,7k580,b42s0,7lzw0,b42s0,7lzw0,b42s0,7x3w0,ahus0,7x3w0,b5xg0,7x3w0,a4w40,8jbw0,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Ulyanovsk':
+    '0|+04 14400 0;+05 18000 1;+04 14400 1;+03 10800 0;+03 10800 1;+02 7200 0|5vb3k0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9q000,9d1c0,9d440,5reo0,3ljw0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0,qnc40|1010101010101010232345323232323232323232323232323232323232323030|<+04>-4',
+  'Europe/Vaduz':
+    '0|CET 3600 0;CEST 7200 1|5v5xg0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Vatican':
+    '0|CET 3600 0;CEST 7200 1|7pp80,64dc0,c8qo0,6hc00,clpc0,6hc00,clpc0,64dc0,c8qo0,6hc00,clpc0,64dc0,clpc0,64dc0,c8qo0,6hc00,clpc0,6hc00,c8qo0,6hc00,9q5k0,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|1010101010101010101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Vienna':
+    '0|CET 3600 0;CEST 7200 1|5csnw0,8zzw0,9d9o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Vilnius':
+    '0|MSK 10800 0;MSD 14400 1;EEST 10800 1;EET 7200 0;CEST 7200 1;CET 3600 0|5vb6c0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x9g0,asw00,7x6o0,b5uo0,1s3eo0|101010101010101023232323232323232345432|EET-2EEST,M3.5.0/3,M10.5.0/4',
+  'Europe/Volgograd':
+    '0|+04 14400 0;+05 18000 1;MSD 14400 1;MSK 10800 0;MSK 14400 0|5vb3k0,9et80,9d440,9et80,9d440,9et80,9eys0,9d6w0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9d1c0,9d1c0,9q000,9d1c0,ipzw0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,asw00,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,b5uo0,7k800,b5uo0,7k800,b5uo0,7x6o0,asw00,7x6o0,asw00,7x6o0,b5uo0,7k800,1vbzw0,239c40,14oqk0|101010101010102323230232323232323232323232323232323232323234303|MSK-3',
+  'Europe/Warsaw':
+    '0|CET 3600 0;CEST 7200 1|3s9k00,902o0,9q000,9d1c0,9d1c0,9d1c0,9q000,902o0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d440,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Zagreb':
+    '0|CET 3600 0;CEST 7200 1|6wm2s0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|10101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Europe/Zurich':
+    '0|CET 3600 0;CEST 7200 1|5v5xg0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9q000,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0,9d1c0|101010101010101010101010101010|CET-1CEST,M3.5.0,M10.5.0/3',
+  'Indian/Antananarivo': '0|EAT 10800 0|||EAT-3',
+  'Indian/Chagos': '0|+05 18000 0;+06 21600 0|dkgss0|1|<+06>-6',
+  'Indian/Christmas': '0|+07 25200 0|||<+07>-7',
+  'Indian/Cocos': '0|+0630 23400 0|||<+0630>-6:30',
+  'Indian/Comoro': '0|EAT 10800 0|||EAT-3',
+  'Indian/Kerguelen': '0|+05 18000 0|||<+05>-5',
+  'Indian/Mahe': '0|+04 14400 0|||<+04>-4',
+  'Indian/Maldives': '0|+05 18000 0|||<+05>-5',
+  'Indian/Mauritius':
+    '0|+04 14400 0;+05 18000 1|6nykw0,8bx80,dd0wc0,7x3w0|1010|<+04>-4',
+  'Indian/Mayotte': '0|EAT 10800 0|||EAT-3',
+  'Indian/Reunion': '0|+04 14400 0|||<+04>-4',
+  'Pacific/Apia':
+    '0|-11 -39600 0;-10 -36000 1;+14 50400 1;+13 46800 0|l9cp80,9odo0,902o0,4zbk0,4qog0,9d1c0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,902o0,9q000,9d1c0,9q000,902o0,9q000,902o0,9q000|10123232323232323232323|<+13>-13',
+  'Pacific/Auckland':
+    '0|NZST 43200 0;NZDT 46800 1|2ivg80,5reo0,clpc0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,b5uo0,8a5c0,afxc0,8a5c0,afxc0,8a5c0,afxc0,8n400,a2yo0,8n400,a2yo0,8n400,a2yo0,8n400,afxc0,8a5c0,afxc0,8a5c0,afxc0,8n400,a2yo0,8n400,a2yo0,8n400,afxc0,8a5c0,afxc0,8a5c0,afxc0,8n400,a2yo0,8n400,a2yo0,8n400,a2yo0,8n400|101010101010101010101010101010101010101010101010101010101010101010|NZST-12NZDT,M9.5.0,M4.1.0/3',
+  'Pacific/Bougainville': '0|+10 36000 0;+11 39600 0|nh90g0|1|<+11>-11',
+  'Pacific/Chatham':
+    '0|+1245 45900 0;+1345 49500 1|2ivg80,5reo0,clpc0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6hc00,c8qo0,6uao0,c8qo0,6hc00,b5uo0,8a5c0,afxc0,8a5c0,afxc0,8a5c0,afxc0,8n400,a2yo0,8n400,a2yo0,8n400,a2yo0,8n400,afxc0,8a5c0,afxc0,8a5c0,afxc0,8n400,a2yo0,8n400,a2yo0,8n400,afxc0,8a5c0,afxc0,8a5c0,afxc0,8n400,a2yo0,8n400,a2yo0,8n400,a2yo0,8n400|101010101010101010101010101010101010101010101010101010101010101010|<+1245>-12:45<+1345>,M9.5.0/2:45,M4.1.0/3:45',
+  'Pacific/Chuuk': '0|+10 36000 0|||<+10>-10',
+  'Pacific/Easter':
+    '0|-06 -21600 1;-07 -25200 0;-06 -21600 0;-05 -18000 1|4hcc0,a31g0,7x3w0,asys0,7x3w0,b5xg0,7k580,ag040,8a2k0,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,9cyk0,9d440,7x3w0,asys0,7x3w0,b5xg0,7k580,9q2s0,8zzw0,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,8n180,a31g0,7x3w0,a31g0,9px80,9q2s0,7x3w0,b5xg0,7k580,b5xg0,7k580,b5xg0,7k580,b5xg0,7x3w0,asys0,7x3w0,asys0,7x3w0,b5xg0,7k580,b5xg0,8n180,a31g0,7x3w0,asys0,8zzw0,9q2s0,ast80,5eis0,cyl80,6hes0,c8nw0,6udg0,bvp80,6udg0,vonw0,4olg0,e1h80,4olg0,e1h80,4olg0,c8nw0,7x9g0,ast80,7x9g0,ast80,7x9g0,ast80,8a840|10101010101010101010101023232323232323232323232323232323232323232323232323232323232323232323232323232323|<-06>6<-05>,M9.1.6/22,M4.1.6/22',
+  'Pacific/Efate':
+    '0|+11 39600 0;+12 43200 1|22nyo0,51hc0,4y8qs0,9cyk0,9d440,9cyk0,9q2s0,8zzw0,9q2s0,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9d440,9cyk0,9q2s0,64ak0,e1ms0,4ofw0|1010101010101010101010|<+11>-11',
+  'Pacific/Fakaofo': '0|-11 -39600 0;+13 46800 0|lx0jw0|1|<+13>-13',
+  'Pacific/Fiji':
+    '0|+12 43200 0;+13 46800 1|f1p2w0,64dc0,cyo00,5reo0,53a5c0,64dc0,asw00,6uao0,bvs00,4oio0,e1k00,4oio0,eeio0,4bh80,erk40,3ylc0,erhc0,3ylc0,f4g00,3lmo0,f4g00,3lmo0,f4g00,3lmo0,fheo0,38o00,hn6o0,1fuo0|1010101010101010101010101010|<+12>-12',
+  'Pacific/Funafuti': '0|+12 43200 0|||<+12>-12',
+  'Pacific/Galapagos':
+    '0|-05 -18000 0;-06 -21600 0;-05 -18000 1|8cmlw0,3lsas0,3jp80|121|<-06>6',
+  'Pacific/Gambier': '0|-09 -32400 0|||<-09>9',
+  'Pacific/Guadalcanal': '0|+11 39600 0|||<+11>-11',
+  'Pacific/Guam':
+    '0|GST 36000 0;GDT 39600 1;ChST 36000 0|5wcg0,6u7w0,bvus0,6u7w0,16uo40,3ljw0,16aas0,4ivxo,cls2c,6h980,c65zw0|10101010102|ChST-10',
+  'Pacific/Honolulu': '0|HST -36000 0|||HST10',
+  'Pacific/Kanton':
+    '0|-12 -43200 0;-11 -39600 0;+13 46800 0|535io0,7yiqk0|12|<+13>-13',
+  'Pacific/Kiritimati':
+    '0|-1040 -38400 0;-10 -36000 0;+14 50400 0|535eyo,7yirhc|12|<+14>-14',
+  'Pacific/Kosrae': '0|+12 43200 0;+11 39600 0|f4tw00|1|<+11>-11',
+  'Pacific/Kwajalein': '0|-12 -43200 0;+12 43200 0|cc3yo0|1|<+12>-12',
+  'Pacific/Majuro': '0|+12 43200 0|||<+12>-12',
+  'Pacific/Marquesas': '0|-0930 -34200 0|||<-0930>9:30',
+  'Pacific/Midway': '0|SST -39600 0|||SST11',
+  'Pacific/Nauru': '0|+1130 41400 0;+12 43200 0|4r4dm0|1|<+12>-12',
+  'Pacific/Niue': '0|-11 -39600 0|||<-11>11',
+  'Pacific/Norfolk':
+    '0|+1130 41400 0;+1230 45000 1;+11 39600 0;+12 43200 1|2iiiy0,6hc00,l6nk00,239aq0|1023|<+11>-11<+12>,M10.1.0,M4.1.0/3',
+  'Pacific/Noumea':
+    '0|+11 39600 0;+12 43200 1|44ues0,4dbw0,ecqs0,4f6k0,99p700,4oio0|101010|<+11>-11',
+  'Pacific/Pago_Pago': '0|SST -39600 0|||SST11',
+  'Pacific/Palau': '0|+09 32400 0|||<+09>-9',
+  'Pacific/Pitcairn': '0|-0830 -30600 0;-08 -28800 0|es2cy0|1|<-08>8',
+  'Pacific/Pohnpei': '0|+11 39600 0|||<+11>-11',
+  'Pacific/Port_Moresby': '0|+10 36000 0|||<+10>-10',
+  'Pacific/Rarotonga':
+    '0|-1030 -37800 0;-0930 -34200 1;-10 -36000 0|4mj960,5rbw0,c8s20,6ham0,c8s20,6ham0,c8s20,6u9a0,c8s20,6ham0,c8s20,6ham0,c8s20,6ham0,c8s20,6ham0,c8s20,6ham0,c8s20,6u9a0,c8s20,6ham0,c8s20,6ham0,c8s20,6ham0|12121212121212121212121212|<-10>10',
+  'Pacific/Saipan':
+    '0|GST 36000 0;GDT 39600 1;ChST 36000 0|5wcg0,6u7w0,bvus0,6u7w0,16uo40,3ljw0,16aas0,4ivxo,cls2c,6h980,c65zw0|10101010102|ChST-10',
+  'Pacific/Tahiti': '0|-10 -36000 0|||<-10>10',
+  'Pacific/Tarawa': '0|+12 43200 0|||<+12>-12',
+  'Pacific/Tongatapu':
+    '0|+13 46800 0;+14 50400 1|fj6ms0,8fpc0,bvs00,4bh80,eelg0,4bh80,7pmis0,3lmo0|10101010|<+13>-13',
+  'Pacific/Wake': '0|+12 43200 0|||<+12>-12',
+  'Pacific/Wallis': '0|+12 43200 0|||<+12>-12',
+  UTC: '0|UTC 0 0|||UTC0',
+};
@@ -0,0 +1,151 @@
+import test from 'ava';
+
+import {
+  getTimezoneInfo,
+  getZoneProvider,
+  instant,
+  intlZoneProvider,
+  setZoneProvider,
+  tzOffset,
+} from './ream';
+import {
+  bundledZoneProvider,
+  packZone,
+  parseTZif,
+  TZDATA_VERSION,
+  tzifProvider,
+  unpackZone,
+  zoneTypeAt,
+} from './tzdb';
+
+/* ------------------------------------------------------------------ *
+ *  TZif fixture: EST/EDT with the 2024 transitions and a US footer
+ * ------------------------------------------------------------------ */
+const u32 = (n: number) => [
+  n >>> 24,
+  (n >>> 16) & 255,
+  (n >>> 8) & 255,
+  n & 255,
+];
+const i64 = (n: number) => [...u32(Math.floor(n / 2 ** 32)), ...u32(n >>> 0)];
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+const header = (counts: readonly number[]) => [
+  ...ascii('TZif2'),
+  ...Array.from({ length: 15 }, () => 0),
+  ...counts.map(u32).reduce((all, b) => [...all, ...b], []),
+];
+const MAR_10 = Date.UTC(2024, 2, 10, 7) / 1000;
+const NOV_3 = Date.UTC(2024, 10, 3, 6) / 1000;
+const FIXTURE = Uint8Array.from([
+  // v1 block: a single UTC type
+  ...header([0, 0, 0, 0, 1, 4]),
+  ...[0, 0, 0, 0, 0, 0],
+  ...ascii('UTC\0'),
+  // v2 block
+  ...header([0, 0, 0, 2, 2, 8]),
+  ...i64(MAR_10),
+  ...i64(NOV_3),
+  ...[1, 0],
+  ...[...u32(-18000 >>> 0), 0, 0],
+  ...[...u32(-14400 >>> 0), 1, 4],
+  ...ascii('EST\0EDT\0'),
+  ...ascii('\nEST5EDT,M3.2.0,M11.1.0\n'),
+]);
+
+const at = (y: number, m: number, d: number, h = 12) =>
+  Date.UTC(y, m - 1, d, h) / 1000;
+
+test('parseTZif reads version 2 data and the POSIX footer', (t) => {
+  const zone = parseTZif(FIXTURE);
+
+  t.truthy(zone);
+  if (!zone) return;
+  t.deepEqual(zone.transitions, [MAR_10, NOV_3]);
+  t.is(zone.rule, 'EST5EDT,M3.2.0,M11.1.0');
+  t.is(zoneTypeAt(zone, at(2024, 1, 15)).abbreviation, 'EST');
+  t.is(zoneTypeAt(zone, at(2024, 7, 1)).abbreviation, 'EDT');
+  t.is(zoneTypeAt(zone, MAR_10 - 1).offsetSeconds, -18000);
+  t.is(zoneTypeAt(zone, MAR_10).offsetSeconds, -14400);
+  // after the last transition the footer takes over
+  t.is(zoneTypeAt(zone, at(2031, 7, 1)).abbreviation, 'EDT');
+  t.is(zoneTypeAt(zone, at(2031, 12, 1)).abbreviation, 'EST');
+  t.is(zoneTypeAt(zone, Date.UTC(2031, 2, 9, 7) / 1000).dst, true);
+  t.is(zoneTypeAt(zone, Date.UTC(2031, 2, 9, 7) / 1000 - 1).dst, false);
+  t.is(parseTZif(Uint8Array.from(ascii('not a tzif file'))), undefined);
+  t.is(parseTZif(new Uint8Array(8)), undefined);
+});
+
+test('packZone and unpackZone round-trip', (t) => {
+  const zone = parseTZif(FIXTURE);
+
+  t.truthy(zone);
+  if (!zone) return;
+  t.deepEqual(unpackZone(packZone(zone)), zone);
+  t.is(unpackZone('garbage'), undefined);
+});
+
+test('POSIX rules cover the southern hemisphere and negative DST', (t) => {
+  const sydney = unpackZone('0|AEST 36000 0|||AEST-10AEDT,M10.1.0,M4.1.0/3');
+  const dublin = unpackZone('0|IST 3600 0|||IST-1GMT0,M10.5.0,M3.5.0/1');
+
+  t.truthy(sydney && dublin);
+  if (!sydney || !dublin) return;
+  t.is(zoneTypeAt(sydney, at(2050, 1, 15)).abbreviation, 'AEDT');
+  t.is(zoneTypeAt(sydney, at(2050, 7, 15)).offsetSeconds, 36000);
+  t.is(zoneTypeAt(dublin, at(2050, 1, 15)).abbreviation, 'GMT');
+  t.is(zoneTypeAt(dublin, at(2050, 1, 15)).dst, true);
+  t.is(zoneTypeAt(dublin, at(2050, 7, 15)).offsetSeconds, 3600);
+});
+
+test('bundled tzdata agrees with the runtime', (t) => {
+  const zones = [
+    'America/New_York',
+    'Europe/London',
+    'Australia/Lord_Howe',
+    'Asia/Kathmandu',
+    'America/Santiago',
+    'Africa/Casablanca',
+  ];
+  const instants = [1975, 1996, 2007, 2024, 2060].reduce<readonly number[]>(
+    (all, y) => [...all, Date.UTC(y, 0, 15), Date.UTC(y, 6, 15)],
+    []
+  );
+
+  t.is(TZDATA_VERSION, '2025b');
+  zones.forEach((z) =>
+    instants.forEach((ms) =>
+      t.is(
+        bundledZoneProvider.stateAt(z, ms)?.offsetMinutes,
+        intlZoneProvider.stateAt(z, ms)?.offsetMinutes,
+        `${z} ${new Date(ms).toISOString()}`
+      )
+    )
+  );
+  t.true(bundledZoneProvider.isValid('Asia/Calcutta'));
+  t.false(bundledZoneProvider.isValid('Mars/Olympus_Mons'));
+  t.true(bundledZoneProvider.zones()?.includes('Pacific/Chatham'));
+});
+
+test('setZoneProvider routes zone lookups through the provider', (t) => {
+  const fixture = tzifProvider(
+    (tzName) => (tzName === 'Test/Eastern' ? FIXTURE : undefined),
+    'fixture'
+  );
+  const july = instant(Date.UTC(2024, 6, 1));
+
+  t.is(tzOffset('Test/Eastern', july), 0);
+  const previous = setZoneProvider(fixture);
+  const info = getTimezoneInfo('Test/Eastern', july);
+  const missing = getTimezoneInfo('America/New_York', july);
+  setZoneProvider(previous);
+
+  t.is(previous, intlZoneProvider);
+  t.is(getZoneProvider(), intlZoneProvider);
+  t.deepEqual(info, {
+    name: 'Test/Eastern',
+    offsetMinutes: -240,
+    dst: true,
+    abbreviation: 'EDT',
+  });
+  t.is(missing.name, 'UTC');
+});
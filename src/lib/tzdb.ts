@@ -0,0 +1,358 @@
+/*********************************************************************
+ *  COMPILED  TZDATA
+ *  Zone providers backed by tzdata itself rather than the host's ICU:
+ *  a TZif reader (the files in /usr/share/zoneinfo), a compact packed
+ *  form of the same tables, and the bundled release built from it.
+ ********************************************************************/
+
+import { canonicalTimezone, ZoneProvider, ZoneState } from './ream';
+import { TZDATA, TZDATA_VERSION } from './tzdata';
+
+/* One local time type: UT offset in seconds, abbreviation, DST flag */
+export type ZoneType = Readonly<{
+  readonly offsetSeconds: number;
+  readonly abbreviation: string;
+  readonly dst: boolean;
+}>;
+
+/* A zone's history: `types[initial]` applies before the first transition,
+ * `types[typeIndices[n]]` from `transitions[n]` (epoch seconds, ascending);
+ * after the last one the POSIX TZ `rule` (if any) generates the rest */
+export type CompiledZone = Readonly<{
+  readonly types: readonly ZoneType[];
+  readonly initial: number;
+  readonly transitions: readonly number[];
+  readonly typeIndices: readonly number[];
+  readonly rule?: string;
+}>;
+
+/* ------------------------------------------------------------------ *
+ *  POSIX TZ rules ("EST5EDT,M3.2.0,M11.1.0")
+ * ------------------------------------------------------------------ */
+type RuleDate = Readonly<{
+  readonly kind: 'M' | 'J' | 'n';
+  readonly month: number; // M only
+  readonly week: number; // M only, 5 = last
+  readonly day: number; // weekday for M, day number for J and n
+  readonly time: number; // seconds after local midnight
+}>;
+
+type PosixRule = Readonly<{
+  readonly std: ZoneType;
+  readonly dst?: ZoneType;
+  readonly start?: RuleDate;
+  readonly end?: RuleDate;
+}>;
+
+const POSIX_NAME = '(<[^>]+>|[A-Za-z]{3,})';
+const POSIX_TIME = '([+-]?\\d{1,3}(?::\\d{2}){0,2})';
+const POSIX_DATE = '(M\\d{1,2}\\.\\d\\.\\d|J\\d{1,3}|\\d{1,3})';
+const POSIX_RULE = new RegExp(
+  `^${POSIX_NAME}${POSIX_TIME}(?:${POSIX_NAME}${POSIX_TIME}?` +
+    `(?:,${POSIX_DATE}(?:/${POSIX_TIME})?,${POSIX_DATE}(?:/${POSIX_TIME})?)?)?$`
+);
+
+const posixSeconds = (s: string): number => {
+  const sign = s.startsWith('-') ? -1 : 1;
+  const [h, m = 0, sec = 0] = s.replace(/^[+-]/, '').split(':').map(Number);
+  return sign * (h * 3600 + m * 60 + sec);
+};
+
+const ruleDate = (spec: string, time: string | undefined): RuleDate => {
+  const seconds = time === undefined ? 7200 : posixSeconds(time);
+  if (spec.startsWith('M')) {
+    const [month, week, day] = spec.slice(1).split('.').map(Number);
+    return { kind: 'M', month, week, day, time: seconds };
+  }
+  return spec.startsWith('J')
+    ? {
+        kind: 'J',
+        month: 0,
+        week: 0,
+        day: Number(spec.slice(1)),
+        time: seconds,
+      }
+    : { kind: 'n', month: 0, week: 0, day: Number(spec), time: seconds };
+};
+
+const parsePosixRule = (rule: string): PosixRule | undefined => {
+  const m = POSIX_RULE.exec(rule);
+  if (!m) return undefined;
+  const name = (s: string) => s.replace(/^<|>$/g, '');
+  // POSIX offsets count hours west of Greenwich
+  const east = (s: string) => 0 - posixSeconds(s); // never -0
+  const stdOffset = east(m[2]);
+  const std = {
+    offsetSeconds: stdOffset,
+    abbreviation: name(m[1]),
+    dst: false,
+  };
+  if (m[3] === undefined) return { std };
+  const dst = {
+    offsetSeconds: m[4] === undefined ? stdOffset + 3600 : east(m[4]),
+    abbreviation: name(m[3]),
+    dst: true,
+  };
+  // without explicit dates POSIX defaults to the US rules
+  const start = ruleDate(m[5] ?? 'M3.2.0', m[6]);
+  const end = ruleDate(m[7] ?? 'M11.1.0', m[8]);
+  return { std, dst, start, end };
+};
+
+const DAY_SECONDS = 86_400;
+
+/* days since the epoch of a rule date's local day in `year` */
+const ruleDay = (date: RuleDate, year: number): number => {
+  const jan1 = Date.UTC(year, 0, 1) / 1000 / DAY_SECONDS;
+  if (date.kind === 'n') return jan1 + date.day;
+  if (date.kind === 'J') {
+    const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+    return jan1 + date.day - 1 + (leap && date.day >= 60 ? 1 : 0);
+  }
+  const first = Date.UTC(year, date.month - 1, 1) / 1000 / DAY_SECONDS;
+  const weekday = (((first + 4) % 7) + 7) % 7; // 1970-01-01 was a Thursday
+  const firstMatch = first + ((date.day - weekday + 7) % 7);
+  const nth = firstMatch + (date.week - 1) * 7;
+  const nextMonth = Date.UTC(year, date.month, 1) / 1000 / DAY_SECONDS;
+  return nth >= nextMonth ? nth - 7 : nth;
+};
+
+/* DST start and end instants (epoch seconds) a rule yields in `year` */
+const ruleTransitions = (
+  rule: PosixRule,
+  year: number
+): readonly (readonly [number, ZoneType])[] => {
+  if (!rule.dst || !rule.start || !rule.end) return [];
+  // the start is given in standard time, the end in daylight time
+  return [
+    [
+      ruleDay(rule.start, year) * DAY_SECONDS +
+        rule.start.time -
+        rule.std.offsetSeconds,
+      rule.dst,
+    ],
+    [
+      ruleDay(rule.end, year) * DAY_SECONDS +
+        rule.end.time -
+        rule.dst.offsetSeconds,
+      rule.std,
+    ],
+  ];
+};
+
+const rules = new Map<string, PosixRule | undefined>();
+
+const cachedRule = (rule: string): PosixRule | undefined => {
+  if (!rules.has(rule)) rules.set(rule, parsePosixRule(rule));
+  return rules.get(rule);
+};
+
+/* ------------------------------------------------------------------ *
+ *  Lookup
+ * ------------------------------------------------------------------ */
+
+/* index of the last transition at or before `t`, -1 if none */
+const lastTransition = (
+  transitions: readonly number[],
+  t: number,
+  lo = 0,
+  hi = transitions.length
+): number => {
+  if (lo >= hi) return lo - 1;
+  const mid = (lo + hi) >> 1;
+  return transitions[mid] <= t
+    ? lastTransition(transitions, t, mid + 1, hi)
+    : lastTransition(transitions, t, lo, mid);
+};
+
+/* the local time type of a zone at an instant (epoch seconds) */
+export const zoneTypeAt = (zone: CompiledZone, t: number): ZoneType => {
+  const index = lastTransition(zone.transitions, t);
+  const explicit =
+    zone.types[index < 0 ? zone.initial : zone.typeIndices[index]];
+  const last = zone.transitions[zone.transitions.length - 1];
+  const rule = zone.rule === undefined ? undefined : cachedRule(zone.rule);
+  if (!rule || (last !== undefined && t < last)) return explicit;
+  if (!rule.dst) return last === undefined ? rule.std : explicit;
+  // the rule only takes over after the last explicit transition
+  const year = new Date(t * 1000).getUTCFullYear();
+  const candidates = [year - 1, year, year + 1]
+    .map((y) => ruleTransitions(rule, y))
+    .reduce((all, pair) => [...all, ...pair], [])
+    .filter(([at]) => at <= t && (last === undefined || at > last))
+    .sort(([a], [b]) => b - a);
+  return candidates.length > 0 ? candidates[0][1] : explicit;
+};
+
+const zoneState = (type: ZoneType): ZoneState => ({
+  offsetMinutes: Math.round(type.offsetSeconds / 60),
+  abbreviation: type.abbreviation,
+  dst: type.dst,
+});
+
+/* ------------------------------------------------------------------ *
+ *  TZif (RFC 8536)
+ * ------------------------------------------------------------------ */
+
+/* the zone described by a TZif file (any version), undefined if `bytes`
+ * is not one */
+export const parseTZif = (bytes: Uint8Array): CompiledZone | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (from: number, to: number) =>
+    String.fromCharCode(...Array.from(bytes.subarray(from, to)));
+  const header = (at: number) => {
+    if (bytes.length < at + 44 || ascii(at, at + 4) !== 'TZif')
+      return undefined;
+    const [isutcnt, isstdcnt, leapcnt, timecnt, typecnt, charcnt] = [
+      0, 1, 2, 3, 4, 5,
+    ].map((n) => view.getUint32(at + 20 + n * 4));
+    return { isutcnt, isstdcnt, leapcnt, timecnt, typecnt, charcnt };
+  };
+  const first = header(0);
+  if (!first) return undefined;
+  const version = bytes[4];
+  const blockLength = (
+    h: NonNullable<ReturnType<typeof header>>,
+    timeSize: number
+  ) =>
+    h.timecnt * (timeSize + 1) +
+    h.typecnt * 6 +
+    h.charcnt +
+    h.leapcnt * (timeSize + 4) +
+    h.isstdcnt +
+    h.isutcnt;
+  // version 2+ files repeat the data with 64-bit times, then a TZ footer
+  const wide = version >= 0x32 ? header(44 + blockLength(first, 4)) : undefined;
+  const start = wide ? 44 + blockLength(first, 4) + 44 : 44;
+  const h = wide ?? first;
+  const timeSize = wide ? 8 : 4;
+  const readTime = (at: number) =>
+    timeSize === 8
+      ? view.getInt32(at) * 2 ** 32 + view.getUint32(at + 4)
+      : view.getInt32(at);
+  const transitions = Array.from({ length: h.timecnt }, (_, n) =>
+    readTime(start + n * timeSize)
+  );
+  const indexStart = start + h.timecnt * timeSize;
+  const typeIndices = Array.from(
+    bytes.subarray(indexStart, indexStart + h.timecnt)
+  );
+  const typeStart = indexStart + h.timecnt;
+  const charStart = typeStart + h.typecnt * 6;
+  const types = Array.from({ length: h.typecnt }, (_, n) => {
+    const at = typeStart + n * 6;
+    const from = charStart + bytes[at + 5];
+    const nul = bytes.indexOf(0, from);
+    return {
+      offsetSeconds: view.getInt32(at),
+      dst: bytes[at + 4] === 1,
+      abbreviation: ascii(from, nul < 0 ? charStart + h.charcnt : nul),
+    };
+  });
+  const footer = wide
+    ? ascii(start + blockLength(h, 8), bytes.length).split('\n')[1]
+    : undefined;
+  return {
+    types,
+    initial: 0, // RFC 8536: type 0 applies before the first transition
+    transitions,
+    typeIndices,
+    ...(footer ? { rule: footer } : {}),
+  };
+};
+
+/* ------------------------------------------------------------------ *
+ *  Packed form: "initial|abbr offset dst;...|transitions|indices|rule"
+ *  with transitions as base-36 deltas and indices as base-36 digits
+ * ------------------------------------------------------------------ */
+export const packZone = (zone: CompiledZone): string =>
+  [
+    zone.initial.toString(36),
+    zone.types
+      .map((t) => `${t.abbreviation} ${t.offsetSeconds} ${t.dst ? 1 : 0}`)
+      .join(';'),
+    zone.transitions
+      .map((t, n) => (n === 0 ? t : t - zone.transitions[n - 1]).toString(36))
+      .join(','),
+    zone.typeIndices.map((n) => n.toString(36)).join(''),
+    zone.rule ?? '',
+  ].join('|');
+
+export const unpackZone = (packed: string): CompiledZone | undefined => {
+  const [initial, types, transitions, indices, rule] = packed.split('|');
+  if (rule === undefined) return undefined;
+  const deltas =
+    transitions === ''
+      ? []
+      : transitions.split(',').map((d) => parseInt(d, 36));
+  return {
+    initial: parseInt(initial, 36),
+    types: types.split(';').map((t) => {
+      const [abbreviation, offset, dst] = t.split(' ');
+      return { abbreviation, offsetSeconds: Number(offset), dst: dst === '1' };
+    }),
+    transitions: deltas.reduce<readonly number[]>(
+      (all, d) => [...all, all.length === 0 ? d : all[all.length - 1] + d],
+      []
+    ),
+    typeIndices: Array.from(indices, (c) => parseInt(c, 36)),
+    ...(rule ? { rule } : {}),
+  };
+};
+
+/* ------------------------------------------------------------------ *
+ *  Providers
+ * ------------------------------------------------------------------ */
+
+/* a zone provider over compiled zones; `load` is called once per zone
+ * name, with aliases ("Asia/Calcutta") resolved to canonical ids first */
+export const tzdataProvider = (
+  load: (tzName: string) => CompiledZone | undefined,
+  version?: string,
+  zones?: () => readonly string[]
+): ZoneProvider => {
+  const loaded = new Map<string, CompiledZone | undefined>();
+  const compiled = (tzName: string) => {
+    const id = canonicalTimezone(tzName);
+    if (!loaded.has(id)) loaded.set(id, load(id));
+    return loaded.get(id);
+  };
+  return {
+    id: 'tzdata',
+    version,
+    isValid: (tzName) => compiled(tzName) !== undefined,
+    stateAt: (tzName, epochMs) => {
+      const zone = compiled(tzName);
+      return zone && zoneState(zoneTypeAt(zone, Math.floor(epochMs / 1000)));
+    },
+    zones: zones ?? (() => undefined),
+  };
+};
+
+/* a provider reading TZif files, e.g. from a zoneinfo directory:
+ * tzifProvider((id) => readFileSync(`/usr/share/zoneinfo/${id}`), '2025b') */
+export const tzifProvider = (
+  read: (tzName: string) => Uint8Array | undefined,
+  version?: string
+): ZoneProvider =>
+  tzdataProvider((tzName) => {
+    try {
+      const bytes = read(tzName);
+      return bytes && parseTZif(bytes);
+    } catch {
+      return undefined;
+    }
+  }, version);
+
+/* the tzdata release bundled with the library (from 1970 on), identical
+ * on every host */
+export const bundledZoneProvider: ZoneProvider = tzdataProvider(
+  (tzName) =>
+    Object.prototype.hasOwnProperty.call(TZDATA, tzName)
+      ? unpackZone(TZDATA[tzName])
+      : undefined,
+  TZDATA_VERSION,
+  () => Object.keys(TZDATA)
+);
+
+export { TZDATA_VERSION };